@@ -0,0 +1,56 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { getHeader, json, nowSeconds, parseBody } from "./http.mjs";
+
+// 매장 관리자 비밀번호 (설정하지 않으면 관리자 기능 전체 비활성)
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
+// 로그인 후 관리자 토큰 유효 시간
+const ADMIN_TOKEN_TTL_SECONDS = parseInt(
+  process.env.ADMIN_TOKEN_TTL_SECONDS || String(8 * 3600),
+  10
+);
+
+// 길이가 달라도 비교 시간이 같도록 해시끼리 비교
+const safeEqual = (a, b) =>
+  timingSafeEqual(
+    createHash("sha256").update(String(a)).digest(),
+    createHash("sha256").update(String(b)).digest()
+  );
+
+const sign = (expiresAt) =>
+  createHmac("sha256", ADMIN_PASSWORD)
+    .update(`admin.${expiresAt}`)
+    .digest("base64url");
+
+/**
+ * 관리자 요청 확인: 로그인으로 받은 x-admin-token
+ * 키오스크 키를 발급받기 전 기기에서도 로그인할 수 있도록 키오스크 서명은 요구하지 않음
+ * (비밀번호를 바꾸면 이전 토큰은 모두 무효)
+ */
+export const ensureAdmin = (headers = {}) => {
+  if (!ADMIN_PASSWORD) return false;
+  const token = getHeader(headers, "x-admin-token");
+  const [expiresAt, signature] = String(token || "").split(".");
+  if (!signature || !(Number(expiresAt) > nowSeconds())) return false;
+  return safeEqual(signature, sign(expiresAt));
+};
+
+/**
+ * 관리자 로그인: 비밀번호를 확인하고 만료 시각이 서명된 토큰 발급
+ */
+export async function handleAdminLogin(event) {
+  if (!ADMIN_PASSWORD) {
+    return json(503, { error: "admin disabled" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  if (!payload.password || !safeEqual(payload.password, ADMIN_PASSWORD)) {
+    return json(401, { error: "invalid password" });
+  }
+
+  const expiresAt = nowSeconds() + ADMIN_TOKEN_TTL_SECONDS;
+  return json(200, {
+    token: `${expiresAt}.${sign(expiresAt)}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  });
+}
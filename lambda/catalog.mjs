@@ -0,0 +1,295 @@
+import { readFile } from "node:fs/promises";
+import { json, parseBody } from "./http.mjs";
+import { ensureKiosk } from "./kiosk-auth.mjs";
+import { getStore, isConflict } from "./store.mjs";
+import { ensureAdmin } from "./admin.mjs";
+
+const CATALOG_KEY = "catalog";
+// 저장된 카탈로그가 없을 때 내려줄 기본 메뉴 (키오스크도 이 파일을 번들 메뉴로 씀)
+const SEED_URL = new URL("./data/catalog.json", import.meta.url);
+
+let seedCache;
+const loadSeed = async () => {
+  if (!seedCache) {
+    seedCache = JSON.parse(await readFile(SEED_URL, "utf8"));
+  }
+  return structuredClone(seedCache);
+};
+
+export async function loadCatalog() {
+  const store = await getStore();
+  const doc = await store.get(CATALOG_KEY);
+  if (!doc) return loadSeed();
+  const { version, updatedAt, categories, items, promotions } = doc;
+  return { version, updatedAt, categories, items, promotions: promotions ?? [] };
+}
+
+export async function handleGetCatalog(event) {
+  if (!(await ensureKiosk(event))) {
+    return json(401, { error: "unauthorized" });
+  }
+
+  const catalog = await loadCatalog();
+
+  // 키오스크가 이미 같은 버전을 갖고 있으면 본문 없이 알려줌
+  const knownVersion = Number(event.queryStringParameters?.version);
+  if (knownVersion && knownVersion === catalog.version) {
+    return json(200, { version: catalog.version, notModified: true });
+  }
+
+  return json(200, catalog);
+}
+
+// ---- 관리자: 카탈로그 저장 ----
+
+// 화면용 "전체" 필터와 겹치지 않도록 예약
+const RESERVED_CATEGORY_IDS = ["all"];
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const SELECTION_TYPES = ["single", "multi"];
+const PROMOTION_TYPES = ["percent", "fixed", "buyXGetY"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isNonEmptyString = (value) =>
+  typeof value === "string" && value.trim().length > 0;
+const isNonNegativeInteger = (value) => Number.isInteger(value) && value >= 0;
+const isLocalizedText = (value) =>
+  value === undefined ||
+  (typeof value === "object" &&
+    value !== null &&
+    Object.values(value).every((text) => typeof text === "string"));
+
+// 배열 안에서 중복된 id 목록
+const findDuplicateIds = (list) => {
+  const seen = new Set();
+  const duplicates = new Set();
+  for (const entry of list) {
+    if (seen.has(entry?.id)) duplicates.add(entry.id);
+    seen.add(entry?.id);
+  }
+  return [...duplicates];
+};
+
+function validateOptionGroups(groups, path, errors) {
+  if (groups === undefined) return;
+  if (!Array.isArray(groups)) {
+    errors.push(`${path}: must be an array`);
+    return;
+  }
+  findDuplicateIds(groups).forEach((id) =>
+    errors.push(`${path}: duplicate option group id "${id}"`)
+  );
+  groups.forEach((group, index) => {
+    const groupPath = `${path}[${index}]`;
+    if (!isNonEmptyString(group?.id)) errors.push(`${groupPath}.id: required`);
+    if (!isNonEmptyString(group?.name)) errors.push(`${groupPath}.name: required`);
+    if (!SELECTION_TYPES.includes(group?.selectionType)) {
+      errors.push(`${groupPath}.selectionType: must be single or multi`);
+    }
+    if (!Array.isArray(group?.options) || group.options.length === 0) {
+      errors.push(`${groupPath}.options: at least one option required`);
+      return;
+    }
+    findDuplicateIds(group.options).forEach((id) =>
+      errors.push(`${groupPath}.options: duplicate option id "${id}"`)
+    );
+    group.options.forEach((option, optionIndex) => {
+      const optionPath = `${groupPath}.options[${optionIndex}]`;
+      if (!isNonEmptyString(option?.id)) errors.push(`${optionPath}.id: required`);
+      if (!isNonEmptyString(option?.name)) {
+        errors.push(`${optionPath}.name: required`);
+      }
+      if (!Number.isInteger(option?.priceDelta)) {
+        errors.push(`${optionPath}.priceDelta: must be an integer`);
+      }
+    });
+    const { minSelect, maxSelect } = group;
+    if (
+      !isNonNegativeInteger(minSelect) ||
+      !isNonNegativeInteger(maxSelect) ||
+      minSelect > maxSelect ||
+      maxSelect > group.options.length
+    ) {
+      errors.push(
+        `${groupPath}: minSelect/maxSelect must satisfy 0 <= min <= max <= options`
+      );
+    }
+  });
+}
+
+const isStringArray = (value) =>
+  value === undefined ||
+  (Array.isArray(value) && value.every((entry) => typeof entry === "string"));
+
+function validatePromotions(promotions, errors) {
+  if (promotions === undefined) return;
+  if (!Array.isArray(promotions)) {
+    errors.push("promotions: must be an array");
+    return;
+  }
+  findDuplicateIds(promotions).forEach((id) =>
+    errors.push(`promotions: duplicate id "${id}"`)
+  );
+  promotions.forEach((promotion, index) => {
+    const path = `promotions[${index}]`;
+    if (!isNonEmptyString(promotion?.id) || !ID_PATTERN.test(promotion.id)) {
+      errors.push(`${path}.id: letters, digits, - and _ only`);
+    }
+    if (!isNonEmptyString(promotion?.name)) errors.push(`${path}.name: required`);
+    if (!isLocalizedText(promotion?.names)) {
+      errors.push(`${path}.names: must map languages to text`);
+    }
+    switch (promotion?.type) {
+      case "percent":
+        if (!isNonNegativeInteger(promotion.value) || promotion.value > 100) {
+          errors.push(`${path}.value: must be an integer between 0 and 100`);
+        }
+        break;
+      case "fixed":
+        if (!isNonNegativeInteger(promotion.value)) {
+          errors.push(`${path}.value: must be a non-negative integer`);
+        }
+        break;
+      case "buyXGetY":
+        if (
+          !Number.isInteger(promotion.buyQuantity) ||
+          !Number.isInteger(promotion.getQuantity) ||
+          promotion.buyQuantity < 1 ||
+          promotion.getQuantity < 1
+        ) {
+          errors.push(`${path}: buyQuantity and getQuantity must be at least 1`);
+        }
+        break;
+      default:
+        errors.push(`${path}.type: must be one of ${PROMOTION_TYPES.join(", ")}`);
+    }
+    if (
+      !isStringArray(promotion?.target?.itemIds) ||
+      !isStringArray(promotion?.target?.categoryIds)
+    ) {
+      errors.push(`${path}.target: itemIds and categoryIds must be string arrays`);
+    }
+    const schedule = promotion?.schedule ?? {};
+    for (const field of ["startTime", "endTime"]) {
+      if (schedule[field] !== undefined && !TIME_PATTERN.test(schedule[field])) {
+        errors.push(`${path}.schedule.${field}: must be HH:MM`);
+      }
+    }
+    for (const field of ["startDate", "endDate"]) {
+      if (schedule[field] !== undefined && !DATE_PATTERN.test(schedule[field])) {
+        errors.push(`${path}.schedule.${field}: must be YYYY-MM-DD`);
+      }
+    }
+    if (
+      schedule.daysOfWeek !== undefined &&
+      (!Array.isArray(schedule.daysOfWeek) ||
+        !schedule.daysOfWeek.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+    ) {
+      errors.push(`${path}.schedule.daysOfWeek: must be 0 (Sun) to 6 (Sat)`);
+    }
+    if (promotion?.minAmount !== undefined && !isNonNegativeInteger(promotion.minAmount)) {
+      errors.push(`${path}.minAmount: must be a non-negative integer`);
+    }
+  });
+}
+
+/**
+ * 카탈로그 검증: 문제 목록 반환 (비어 있으면 저장 가능)
+ */
+export function validateCatalog({ categories, items, promotions }) {
+  const errors = [];
+  if (!Array.isArray(categories)) errors.push("categories: must be an array");
+  if (!Array.isArray(items)) errors.push("items: must be an array");
+  if (errors.length > 0) return errors;
+
+  findDuplicateIds(categories).forEach((id) =>
+    errors.push(`categories: duplicate id "${id}"`)
+  );
+  categories.forEach((category, index) => {
+    const path = `categories[${index}]`;
+    if (!isNonEmptyString(category?.id) || !ID_PATTERN.test(category.id)) {
+      errors.push(`${path}.id: letters, digits, - and _ only`);
+    } else if (RESERVED_CATEGORY_IDS.includes(category.id)) {
+      errors.push(`${path}.id: "${category.id}" is reserved`);
+    }
+    if (!isNonEmptyString(category?.name)) errors.push(`${path}.name: required`);
+    if (!isLocalizedText(category?.names)) {
+      errors.push(`${path}.names: must map languages to text`);
+    }
+  });
+
+  const categoryIds = new Set(categories.map((category) => category?.id));
+  findDuplicateIds(items).forEach((id) =>
+    errors.push(`items: duplicate id "${id}"`)
+  );
+  items.forEach((item, index) => {
+    const path = `items[${index}]`;
+    if (!isNonEmptyString(item?.id) || !ID_PATTERN.test(item.id)) {
+      errors.push(`${path}.id: letters, digits, - and _ only`);
+    }
+    if (!isNonEmptyString(item?.name)) errors.push(`${path}.name: required`);
+    if (!isLocalizedText(item?.names)) {
+      errors.push(`${path}.names: must map languages to text`);
+    }
+    if (!isNonNegativeInteger(item?.price)) {
+      errors.push(`${path}.price: must be a non-negative integer`);
+    }
+    if (!categoryIds.has(item?.category)) {
+      errors.push(`${path}.category: unknown category "${item?.category}"`);
+    }
+    if (typeof item?.image !== "string") errors.push(`${path}.image: required`);
+    if (item?.taxExempt !== undefined && typeof item.taxExempt !== "boolean") {
+      errors.push(`${path}.taxExempt: must be boolean`);
+    }
+    validateOptionGroups(item?.optionGroups, `${path}.optionGroups`, errors);
+  });
+
+  validatePromotions(promotions, errors);
+  return errors;
+}
+
+/**
+ * 관리자: 카탈로그 전체 저장
+ * baseVersion 이 현재 버전과 다르면(다른 관리자가 먼저 저장) 409
+ * 저장하면 버전이 올라가서 키오스크가 다음 조회 때 새 메뉴를 받음
+ * promotions 를 보내지 않으면 기존 프로모션을 그대로 유지
+ */
+export async function handleSaveCatalog(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { baseVersion, categories, items, promotions } = payload;
+  const errors = validateCatalog({ categories, items, promotions });
+  if (errors.length > 0) {
+    return json(400, { error: "invalid catalog", errors });
+  }
+
+  const store = await getStore();
+  const doc = await store.get(CATALOG_KEY);
+  const current = doc ?? (await loadSeed());
+  if (baseVersion !== current.version) {
+    return json(409, { error: "catalog changed", version: current.version });
+  }
+
+  const catalog = {
+    version: current.version + 1,
+    updatedAt: new Date().toISOString(),
+    categories,
+    items,
+    promotions: promotions ?? current.promotions ?? [],
+  };
+  try {
+    await store.put(CATALOG_KEY, catalog, {
+      expect: { version: doc?.version },
+    });
+  } catch (error) {
+    if (!isConflict(error)) throw error;
+    const latest = await loadCatalog();
+    return json(409, { error: "catalog changed", version: latest.version });
+  }
+
+  return json(200, catalog);
+}
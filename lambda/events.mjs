@@ -0,0 +1,168 @@
+import { nowSeconds } from "./http.mjs";
+import { ensureKioskSocket } from "./kiosk-auth.mjs";
+import { getStore, updateWithRevision } from "./store.mjs";
+
+// API Gateway WebSocket API 의 콜백 주소 (https://{api-id}.execute-api.{region}.amazonaws.com/{stage})
+// 설정하지 않으면 같은 프로세스의 로컬 구독자에게만 전달
+const WS_CALLBACK_URL = process.env.WS_CALLBACK_URL || "";
+const REGION = process.env.AWS_REGION || "ap-northeast-2";
+// 연결 목록 보관 시간 (끊긴 연결이 $disconnect 없이 남는 경우 대비)
+const CONNECTION_TTL_SECONDS = 2 * 3600;
+// 여러 연결이 동시에 목록을 바꾸면 다시 읽어서 재시도
+
+// 세션별 WebSocket 연결 목록
+const connectionsKey = (sessionId) => `ws#${sessionId}`;
+// 연결 → 세션 매핑 ($disconnect 에는 쿼리가 없어서 따로 보관)
+const connectionKey = (connectionId) => `ws-conn#${connectionId}`;
+
+// ---- 로컬 구독자 (local-server 가 같은 프로세스에서 등록) ----
+
+const localSubscribers = new Map();
+
+/**
+ * 세션 상태 변경을 같은 프로세스에서 받아볼 구독자 등록 (해제 함수 반환)
+ */
+export const subscribeLocal = (sessionId, send) => {
+  if (!localSubscribers.has(sessionId)) {
+    localSubscribers.set(sessionId, new Set());
+  }
+  localSubscribers.get(sessionId).add(send);
+  return () => {
+    const subscribers = localSubscribers.get(sessionId);
+    subscribers?.delete(send);
+    if (subscribers?.size === 0) localSubscribers.delete(sessionId);
+  };
+};
+
+// ---- API Gateway WebSocket ----
+
+let managementPromise;
+
+const getManagementApi = () => {
+  if (!managementPromise) {
+    // 로컬에서는 SDK 없이도 동작하도록 지연 로딩
+    managementPromise = import("@aws-sdk/client-apigatewaymanagementapi").then(
+      ({ ApiGatewayManagementApiClient, PostToConnectionCommand }) => ({
+        client: new ApiGatewayManagementApiClient({
+          region: REGION,
+          endpoint: WS_CALLBACK_URL,
+        }),
+        PostToConnectionCommand,
+      })
+    );
+  }
+  return managementPromise;
+};
+
+async function getConnections(sessionId) {
+  const store = await getStore();
+  const doc = await store.get(connectionsKey(sessionId));
+  return doc?.connections ?? [];
+}
+
+// revision 을 조건으로 걸어 동시에 연결 / 해제된 다른 연결을 덮어쓰지 않음
+// 빈 목록도 지우지 않고 기록 (삭제는 조건을 걸 수 없어 동시에 추가된 연결이 사라질 수 있음, ttl 로 정리)
+async function mutateConnections(sessionId, change) {
+  await updateWithRevision(connectionsKey(sessionId), (doc) => ({
+    connections: change(doc?.connections ?? []),
+    updatedAt: nowSeconds(),
+    ttl: nowSeconds() + CONNECTION_TTL_SECONDS,
+  }));
+}
+
+async function postToConnections(sessionId, message) {
+  const connections = await getConnections(sessionId);
+  if (connections.length === 0) return;
+
+  const { client, PostToConnectionCommand } = await getManagementApi();
+  const gone = [];
+  await Promise.all(
+    connections.map(async ({ connectionId }) => {
+      try {
+        await client.send(
+          new PostToConnectionCommand({
+            ConnectionId: connectionId,
+            Data: Buffer.from(message),
+          })
+        );
+      } catch (error) {
+        // 410: 이미 끊긴 연결
+        if (error?.$metadata?.httpStatusCode === 410) {
+          gone.push(connectionId);
+        } else {
+          console.error("WebSocket post failed:", connectionId, error);
+        }
+      }
+    })
+  );
+
+  if (gone.length > 0) {
+    await mutateConnections(sessionId, (current) =>
+      current.filter(({ connectionId }) => !gone.includes(connectionId))
+    );
+  }
+}
+
+/**
+ * 세션 상태가 바뀌었음을 키오스크에 알림
+ * (푸시 실패는 키오스크가 폴링으로 보완하므로 요청 자체를 실패시키지 않음)
+ */
+export async function publishSessionStatus(session) {
+  const { sessionId, status, expiresAt, updatedAt, scannedAt } = session;
+  const message = JSON.stringify({
+    type: "session-status",
+    session: { sessionId, status, expiresAt, updatedAt, scannedAt },
+  });
+
+  localSubscribers.get(sessionId)?.forEach((send) => send(message));
+
+  if (!WS_CALLBACK_URL) return;
+  try {
+    await postToConnections(sessionId, message);
+  } catch (error) {
+    console.error("Session status push failed:", error);
+  }
+}
+
+// ---- API Gateway WebSocket 라우트 ($connect / $disconnect) ----
+
+/**
+ * WebSocket 이벤트 처리: 연결 시 ?sessionId= 로 구독할 세션 지정
+ * 브라우저 WebSocket 은 헤더를 지정할 수 없으므로 키오스크 서명은 쿼리로도 허용
+ */
+export async function handleWebSocketEvent(event) {
+  const { routeKey, connectionId } = event.requestContext;
+  const query = event.queryStringParameters || {};
+
+  if (routeKey === "$connect") {
+    const authorized = await ensureKioskSocket(event.headers, query);
+    if (!authorized) return { statusCode: 401, body: "unauthorized" };
+    if (!query.sessionId) return { statusCode: 400, body: "sessionId required" };
+
+    await mutateConnections(query.sessionId, (connections) => [
+      ...connections,
+      { connectionId, connectedAt: nowSeconds() },
+    ]);
+    const store = await getStore();
+    await store.put(connectionKey(connectionId), {
+      sessionId: query.sessionId,
+      ttl: nowSeconds() + CONNECTION_TTL_SECONDS,
+    });
+    return { statusCode: 200, body: "connected" };
+  }
+
+  if (routeKey === "$disconnect") {
+    const store = await getStore();
+    const mapping = await store.get(connectionKey(connectionId));
+    if (mapping?.sessionId) {
+      await mutateConnections(mapping.sessionId, (connections) =>
+        connections.filter((item) => item.connectionId !== connectionId)
+      );
+    }
+    await store.delete(connectionKey(connectionId));
+    return { statusCode: 200, body: "disconnected" };
+  }
+
+  // 키오스크는 메시지를 보내지 않음 (keep-alive 용 ping 등은 무시)
+  return { statusCode: 200, body: "" };
+}
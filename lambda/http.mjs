@@ -0,0 +1,36 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type,x-admin-token,x-kiosk-id,x-kiosk-key-id,x-kiosk-timestamp,x-kiosk-nonce,x-kiosk-signature",
+  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+export const json = (statusCode, body) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json", ...corsHeaders },
+  body: JSON.stringify(body),
+});
+
+// 헤더를 대소문자 무시하고 찾는 헬퍼 함수
+export const getHeader = (headers = {}, name) => {
+  if (!headers) return undefined;
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lowerName) return value;
+  }
+  return undefined;
+};
+
+export const parseBody = (event) => {
+  if (!event.body) return { error: "body required" };
+  try {
+    const raw = event.isBase64Encoded
+      ? Buffer.from(event.body, "base64").toString("utf8")
+      : event.body;
+    return { payload: JSON.parse(raw) };
+  } catch {
+    return { error: "invalid json" };
+  }
+};
+
+export const nowSeconds = () => Math.floor(Date.now() / 1000);
@@ -0,0 +1,71 @@
+import { randomUUID } from "node:crypto";
+import { corsHeaders, json, nowSeconds, parseBody } from "./http.mjs";
+import { getStore } from "./store.mjs";
+import { ensureAdmin } from "./admin.mjs";
+
+// 저장소 항목 크기 제한(DynamoDB 400KB) 안에 들어가도록 제한 (키오스크가 업로드 전에 축소)
+const MAX_IMAGE_BYTES = 256 * 1024;
+const CONTENT_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+const imageKey = (imageId) => `image#${imageId}`;
+// 카탈로그 item.image 에 저장되는 경로 (키오스크가 Lambda 주소를 붙여서 사용)
+const imagePath = (imageId) => `/api/images/${imageId}`;
+
+/**
+ * 관리자: 메뉴 이미지 업로드 ({ contentType, data: base64 })
+ */
+export async function handleUploadImage(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const extension = CONTENT_TYPES[payload.contentType];
+  if (!extension) {
+    return json(400, {
+      error: `contentType must be one of ${Object.keys(CONTENT_TYPES).join(", ")}`,
+    });
+  }
+  const bytes = Buffer.from(String(payload.data || ""), "base64");
+  if (bytes.length === 0) return json(400, { error: "data required" });
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    return json(413, { error: `image larger than ${MAX_IMAGE_BYTES} bytes` });
+  }
+
+  const imageId = `${randomUUID()}.${extension}`;
+  const store = await getStore();
+  await store.put(imageKey(imageId), {
+    contentType: payload.contentType,
+    data: bytes.toString("base64"),
+    size: bytes.length,
+    createdAt: nowSeconds(),
+  });
+
+  return json(200, { imageId, url: imagePath(imageId) });
+}
+
+/**
+ * 메뉴 이미지 조회 (<img> 로 바로 불러오므로 API 키 없이 공개)
+ */
+export async function handleGetImage(imageId) {
+  const store = await getStore();
+  const image = await store.get(imageKey(imageId));
+  if (!image) return json(404, { error: "not found" });
+
+  return {
+    statusCode: 200,
+    headers: {
+      "Content-Type": image.contentType,
+      // 같은 ID 로 덮어쓰지 않으므로 오래 캐시해도 됨
+      "Cache-Control": "public, max-age=31536000, immutable",
+      ...corsHeaders,
+    },
+    body: image.data,
+    isBase64Encoded: true,
+  };
+}
@@ -1,174 +1,265 @@
-import { DynamoDBClient, GetItemCommand, PutItemCommand } from "@aws-sdk/client-dynamodb";
+import { corsHeaders, json, nowSeconds, parseBody } from "./http.mjs";
+import { getStore, isConflict } from "./store.mjs";
+import { handleGetCatalog, handleSaveCatalog } from "./catalog.mjs";
+import { handleAdminLogin } from "./admin.mjs";
+import {
+  ensureKiosk,
+  handleIssueKioskKey,
+  handleListKiosks,
+  handleRevokeKioskKey,
+} from "./kiosk-auth.mjs";
+import { handleGetImage, handleUploadImage } from "./images.mjs";
+import { handleWebSocketEvent, publishSessionStatus } from "./events.mjs";
+import { handleIssueOrderNumber } from "./orders.mjs";
+import { handleRecordSale, handleSalesReport } from "./sales.mjs";
+import { handleLookupLoyalty, handleRecordStamps } from "./loyalty.mjs";
+import { handleReceiptPage, noReceiptPage, resolveReceiptUrl } from "./receipts.mjs";
+import {
+  handleCreateTicket,
+  handleListTickets,
+  handleUpdateTicketStatus,
+} from "./kitchen.mjs";
+import {
+  handleAdminGetInventory,
+  handleCheckInventory,
+  handleConsumeInventory,
+  handleGetInventory,
+  handleUpdateInventory,
+} from "./inventory.mjs";
 
 // 환경 변수
-const TABLE_NAME = process.env.TABLE_NAME || "nfc-latest";
-const REGION = process.env.AWS_REGION || "ap-northeast-2";
 const TTL_HOURS = parseInt(process.env.TTL_HOURS || "24", 10);
-// 반드시 설정 권장: 키오스크만 호출 가능하게 방어
-const API_KEY = process.env.API_KEY;
+// NFC 세션 최대 유효 시간 (이 시간이 지나면 태그해도 영수증이 열리지 않음)
+// 키오스크가 ttlSeconds 로 더 짧게 요청할 수 있음
+const SESSION_TTL_SECONDS = parseInt(
+  process.env.SESSION_TTL_SECONDS || "300",
+  10
+);
+const MIN_SESSION_TTL_SECONDS = 30;
+// 키오스크 ID 없이 /r 로 들어온 기존 태그가 사용할 키오스크
+const DEFAULT_KIOSK_ID = process.env.DEFAULT_KIOSK_ID || "kiosk-01";
+// 휴대폰에서 접근 가능한 이 함수의 주소 (설정된 경우에만 세션별 QR 링크 발급)
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || "").replace(/\/$/, "");
 
-const db = new DynamoDBClient({ region: REGION });
+// 세션 키: 키오스크 ID + 주문 ID 조합
+const sessionKey = (sessionId) => `session#${sessionId}`;
+// 키오스크별 현재 세션 포인터 (물리 태그는 이 포인터를 통해 세션을 찾음)
+const kioskKey = (kioskId) => `kiosk#${kioskId}`;
+const buildSessionId = (kioskId, orderId) => `${kioskId}.${orderId}`;
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "Content-Type,x-api-key,X-API-Key",
-  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
-  "Access-Control-Max-Age": "86400",
+// 세션 상태 전이 규칙 (NfcSession["status"] 와 동일한 값 사용)
+const ALLOWED_TRANSITIONS = {
+  pending: ["ready", "expired", "failed"],
+  ready: ["tagging", "scanned", "expired", "failed"],
+  tagging: ["scanned", "expired", "failed"],
+  scanned: ["completed", "failed"],
+  completed: [],
+  expired: [],
+  failed: [],
 };
 
-const json = (statusCode, body) => ({
-  statusCode,
-  headers: { "Content-Type": "application/json", ...corsHeaders },
-  body: JSON.stringify(body),
-});
-
-// 헤더를 대소문자 무시하고 찾는 헬퍼 함수
-const getHeader = (headers = {}, name) => {
-  if (!headers) return undefined;
-  const lowerName = name.toLowerCase();
-  for (const [key, value] of Object.entries(headers)) {
-    if (key.toLowerCase() === lowerName) return value;
+const canTransition = (from, to) =>
+  (ALLOWED_TRANSITIONS[from] || []).includes(to);
+
+// 만료 시각이 지났는데 아직 진행 중인 세션은 expired 로 간주
+const withExpiry = (session, now) => {
+  if (
+    session.expiresAt &&
+    session.expiresAt <= now &&
+    canTransition(session.status, "expired")
+  ) {
+    return { ...session, status: "expired" };
   }
-  return undefined;
+  return session;
 };
 
-const ensureApiKey = (headers = {}) => {
-  if (!API_KEY) return false; // 미설정이면 거부
-  const key = getHeader(headers, "x-api-key");
-  return key === API_KEY;
-};
+async function getSession(sessionId) {
+  const store = await getStore();
+  const doc = await store.get(sessionKey(sessionId));
+  if (!doc) return null;
+  const { pk: _pk, ttl: _ttl, ...session } = doc;
+  return { ...session, status: session.status || "pending" };
+}
 
-async function handleSave(event) {
-  if (!ensureApiKey(event.headers)) {
-    return json(401, { error: "unauthorized" });
+// 만료 시각이 지난 세션은 저장소에도 expired 로 기록하고 키오스크에 알림
+async function expireIfDue(session, now) {
+  const current = withExpiry(session, now);
+  if (current.status !== "expired" || session.status === "expired") {
+    return current;
   }
-  if (!event.body) return json(400, { error: "body required" });
-
-  let payload;
   try {
-    payload = JSON.parse(event.body);
-  } catch {
-    return json(400, { error: "invalid json" });
+    return await updateSessionStatus(session, "expired", now);
+  } catch (error) {
+    if (!isConflict(error)) throw error;
+    // 그 사이 다른 요청이 상태를 바꿨다면 저장된 값을 기준으로 판단
+    const latest = await getSession(session.sessionId);
+    return latest ? withExpiry(latest, now) : current;
   }
+}
+
+async function updateSessionStatus(session, status, now) {
+  const store = await getStore();
+  const changes = { status, updatedAt: now };
+  if (status === "scanned") changes.scannedAt = now;
+
+  // 동시에 다른 요청이 상태를 바꿨다면 덮어쓰지 않음
+  await store.update(sessionKey(session.sessionId), changes, {
+    expect: { status: session.status },
+  });
+
+  const next = { ...session, ...changes };
+  // 폴링을 기다리지 않도록 키오스크에 바로 알림
+  await publishSessionStatus(next);
+  return next;
+}
+
+async function handleSave(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
 
-  const { orderId, receiptUrl } = payload;
-  if (!orderId || !receiptUrl) {
-    return json(400, { error: "orderId and receiptUrl required" });
+  // receiptUrl(외부 영수증 링크)은 자체 영수증 페이지를 쓸 수 없을 때의 대안
+  const { orderId, receiptUrl, ttlSeconds } = payload;
+  if (!orderId) return json(400, { error: "orderId required" });
+  // 다른 키오스크의 태그 포인터는 바꿀 수 없음 (키오스크 / 매장은 서명한 키 기준)
+  if (payload.kioskId && payload.kioskId !== kiosk.kioskId) {
+    return json(403, { error: "kioskId does not match signing kiosk" });
   }
+  const { kioskId, storeId } = kiosk;
 
-  const now = Math.floor(Date.now() / 1000);
+  const store = await getStore();
+  const now = nowSeconds();
   const ttl = now + TTL_HOURS * 3600;
+  const requestedTtl = Number(ttlSeconds) || SESSION_TTL_SECONDS;
+  const expiresAt =
+    now +
+    Math.min(
+      Math.max(requestedTtl, MIN_SESSION_TTL_SECONDS),
+      SESSION_TTL_SECONDS
+    );
+  const sessionId = buildSessionId(kioskId, orderId);
+
+  const session = {
+    sessionId,
+    kioskId,
+    orderId,
+    storeId,
+    receiptUrl: receiptUrl || null,
+    status: "ready",
+    createdAt: now,
+    updatedAt: now,
+    expiresAt,
+  };
+  await store.put(sessionKey(sessionId), { ...session, ttl });
+
+  // 해당 키오스크의 태그가 가리킬 세션을 새 세션으로 교체 (세션이 끝나면 태그와의 연결도 끝남)
+  await store.put(kioskKey(kioskId), { sessionId, updatedAt: now, ttl: expiresAt });
 
-  await db.send(
-    new PutItemCommand({
-      TableName: TABLE_NAME,
-      Item: {
-        pk: { S: "latest" },
-        orderId: { S: orderId },
-        receiptUrl: { S: receiptUrl },
-        status: { S: "pending" },
-        updatedAt: { N: `${now}` },
-        ttl: { N: `${ttl}` },
-      },
-    })
-  );
-
-  return json(200, { success: true, redirectUrl: "/r" });
+  return json(200, {
+    success: true,
+    sessionId,
+    status: "ready",
+    expiresAt,
+    redirectUrl: `/r/${encodeURIComponent(kioskId)}`,
+    qrUrl: PUBLIC_BASE_URL
+      ? `${PUBLIC_BASE_URL}/s/${encodeURIComponent(sessionId)}`
+      : null,
+    // 세션이 끝난 뒤 키오스크 화면에만 QR 로 보여줄 영수증 주소 (서명된 링크는 일정 시간 뒤 만료)
+    directReceiptUrl: await resolveReceiptUrl(session),
+  });
 }
 
-async function handleRedirect() {
-  const res = await db.send(
-    new GetItemCommand({
-      TableName: TABLE_NAME,
-      Key: { pk: { S: "latest" } },
-      ConsistentRead: true,
-    })
-  );
-
-  const item = res.Item;
-  const receiptUrl = item?.receiptUrl?.S;
-  if (!receiptUrl) return json(404, { error: "not found or expired" });
-
-  // /r 접근 시 자동으로 상태를 scanned 로 업데이트
-  const now = Math.floor(Date.now() / 1000);
-  const ttl = now + TTL_HOURS * 3600;
-  await db.send(
-    new PutItemCommand({
-      TableName: TABLE_NAME,
-      Item: {
-        pk: { S: "latest" },
-        orderId: item.orderId || { S: "unknown" },
-        receiptUrl: { S: receiptUrl },
-        status: { S: "scanned" },
-        scannedAt: { N: `${now}` },
-        updatedAt: { N: `${now}` },
-        ttl: { N: `${ttl}` },
-      },
-    })
-  );
+// NFC 태그(/r)와 QR(/s) 공통: 대기 중인 세션이면 scanned 로 바꾸고 영수증으로 이동
+// 한 세션은 한 번만 받을 수 있음 (이후 태그 / 만료 후 태그는 영수증 없음 페이지)
+async function redirectToReceipt(sessionId) {
+  const now = nowSeconds();
+  const session = await getSession(sessionId);
+  if (!session) return noReceiptPage();
+
+  const current = await expireIfDue(session, now);
+  if (!canTransition(current.status, "scanned")) return noReceiptPage();
+
+  const location = await resolveReceiptUrl(current);
+  if (!location) return noReceiptPage();
+
+  // 동시에 두 번 태그되면 먼저 상태를 바꾼 요청만 영수증을 받음
+  try {
+    await updateSessionStatus(current, "scanned", now);
+  } catch (error) {
+    if (!isConflict(error)) throw error;
+    return noReceiptPage();
+  }
 
   return {
     statusCode: 302,
-    headers: { Location: receiptUrl },
+    headers: { Location: location },
     body: "",
   };
 }
 
+async function handleRedirect(kioskId) {
+  const store = await getStore();
+  const pointer = await store.get(kioskKey(kioskId));
+
+  const sessionId = pointer?.sessionId;
+  if (!sessionId) return noReceiptPage();
+
+  return redirectToReceipt(sessionId);
+}
+
 async function handleScanComplete(event) {
-  if (!ensureApiKey(event.headers)) {
-    return json(401, { error: "unauthorized" });
-  }
-  if (!event.body) return json(400, { error: "body required" });
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
 
-  let payload;
-  try {
-    payload = JSON.parse(event.body);
-  } catch {
-    return json(400, { error: "invalid json" });
+  const { sessionId } = payload;
+  if (!sessionId) return json(400, { error: "sessionId required" });
+
+  const now = nowSeconds();
+  const session = await getSession(sessionId);
+  if (!session) return json(404, { error: "not found or expired" });
+  if (session.kioskId !== kiosk.kioskId) {
+    return json(403, { error: "session belongs to another kiosk" });
   }
 
-  const { orderId } = payload;
-  if (!orderId) return json(400, { error: "orderId required" });
+  const current = await expireIfDue(session, now);
+  if (current.status === "completed") {
+    return json(200, { success: true, status: "completed", sessionId });
+  }
+  if (!canTransition(current.status, "completed")) {
+    return json(409, {
+      error: `cannot complete session in status ${current.status}`,
+      status: current.status,
+    });
+  }
 
-  const now = Math.floor(Date.now() / 1000);
-  const ttl = now + TTL_HOURS * 3600;
+  try {
+    await updateSessionStatus(current, "completed", now);
+  } catch (error) {
+    if (isConflict(error)) {
+      return json(409, { error: "session status changed concurrently" });
+    }
+    throw error;
+  }
 
-  await db.send(
-    new PutItemCommand({
-      TableName: TABLE_NAME,
-      Item: {
-        pk: { S: "latest" },
-        orderId: { S: orderId },
-        status: { S: "scanned" },
-        scannedAt: { N: `${now}` },
-        updatedAt: { N: `${now}` },
-        ttl: { N: `${ttl}` },
-      },
-    })
-  );
-
-  return json(200, { success: true, status: "scanned", orderId });
+  return json(200, { success: true, status: "completed", sessionId });
 }
 
-async function handleSessionStatus() {
-  const res = await db.send(
-    new GetItemCommand({
-      TableName: TABLE_NAME,
-      Key: { pk: { S: "latest" } },
-      ConsistentRead: true,
-    })
-  );
+async function handleSessionStatus(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const sessionId = event.queryStringParameters?.sessionId;
+  if (!sessionId) return json(400, { error: "sessionId required" });
 
-  const item = res.Item;
-  if (!item) return json(404, { error: "not found or expired" });
+  const session = await getSession(sessionId);
+  if (!session) return json(404, { error: "not found or expired" });
+  if (session.kioskId !== kiosk.kioskId) {
+    return json(403, { error: "session belongs to another kiosk" });
+  }
 
-  return json(200, {
-    orderId: item.orderId?.S,
-    receiptUrl: item.receiptUrl?.S,
-    status: item.status?.S || "pending",
-    scannedAt: item.scannedAt?.N ? Number(item.scannedAt.N) : undefined,
-    updatedAt: item.updatedAt?.N ? Number(item.updatedAt.N) : undefined,
-  });
+  return json(200, await expireIfDue(session, nowSeconds()));
 }
 
 // Lambda URL은 기본으로 HTTP API(v2) 포맷을 사용함
@@ -187,6 +278,11 @@ const getMethodAndPath = (event) => {
 
 export const handler = async (event) => {
   try {
+    // API Gateway WebSocket API 이벤트 ($connect / $disconnect / $default)
+    if (event?.requestContext?.connectionId) {
+      return await handleWebSocketEvent(event);
+    }
+
     const { method: httpMethod, path } = getMethodAndPath(event);
 
     // CORS preflight
@@ -201,16 +297,96 @@ export const handler = async (event) => {
     const method = (httpMethod || "").toUpperCase();
 
     if (method === "POST" && path?.endsWith("/api/redirect")) {
-      return handleSave(event);
+      return await handleSave(event);
     }
     if (method === "POST" && path?.endsWith("/api/scan-complete")) {
-      return handleScanComplete(event);
+      return await handleScanComplete(event);
     }
     if (method === "GET" && path?.endsWith("/api/session-status")) {
-      return handleSessionStatus();
+      return await handleSessionStatus(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/order-number")) {
+      return await handleIssueOrderNumber(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/sales")) {
+      return await handleRecordSale(event);
+    }
+    if (method === "GET" && path?.endsWith("/api/reports/sales")) {
+      return await handleSalesReport(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/loyalty/lookup")) {
+      return await handleLookupLoyalty(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/loyalty/stamps")) {
+      return await handleRecordStamps(event);
+    }
+    if (method === "GET" && path?.endsWith("/api/kitchen/tickets")) {
+      return await handleListTickets(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/kitchen/tickets")) {
+      return await handleCreateTicket(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/kitchen/tickets/status")) {
+      return await handleUpdateTicketStatus(event);
+    }
+    if (method === "GET" && path?.endsWith("/api/catalog")) {
+      return await handleGetCatalog(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/admin/login")) {
+      return await handleAdminLogin(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/admin/catalog")) {
+      return await handleSaveCatalog(event);
+    }
+    if (method === "GET" && path?.endsWith("/api/admin/kiosks")) {
+      return await handleListKiosks(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/admin/kiosks/keys")) {
+      return await handleIssueKioskKey(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/admin/kiosks/revoke")) {
+      return await handleRevokeKioskKey(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/admin/images")) {
+      return await handleUploadImage(event);
+    }
+    const imageMatch = path?.match(/\/api\/images\/([^/]+)$/);
+    if (method === "GET" && imageMatch) {
+      return await handleGetImage(decodeURIComponent(imageMatch[1]));
+    }
+    if (method === "GET" && path?.endsWith("/api/inventory")) {
+      return await handleGetInventory(event);
+    }
+    if (method === "GET" && path?.endsWith("/api/admin/inventory")) {
+      return await handleAdminGetInventory(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/admin/inventory")) {
+      return await handleUpdateInventory(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/inventory/check")) {
+      return await handleCheckInventory(event);
+    }
+    if (method === "POST" && path?.endsWith("/api/inventory/consume")) {
+      return await handleConsumeInventory(event);
+    }
+    const receiptMatch = path?.match(/\/receipt\/([^/]+)\/([^/]+)\/?$/);
+    if (method === "GET" && receiptMatch) {
+      return await handleReceiptPage(
+        decodeURIComponent(receiptMatch[1]),
+        decodeURIComponent(receiptMatch[2]),
+        event.queryStringParameters
+      );
     }
-    if (method === "GET" && (path === "/r" || path?.endsWith("/r"))) {
-      const res = await handleRedirect();
+    const qrMatch = path?.match(/\/s\/([^/]+)\/?$/);
+    const tagMatch = path?.match(/\/r(?:\/([^/]+))?\/?$/);
+    if (method === "GET" && (qrMatch || tagMatch)) {
+      const res = qrMatch
+        ? await redirectToReceipt(decodeURIComponent(qrMatch[1]))
+        : await handleRedirect(
+            tagMatch[1]
+              ? decodeURIComponent(tagMatch[1])
+              : event.queryStringParameters?.kiosk || DEFAULT_KIOSK_ID
+          );
       // redirect 응답에도 CORS 헤더 추가
       return { 
         ...res, 
@@ -0,0 +1,188 @@
+import { json, nowSeconds, parseBody } from "./http.mjs";
+import { ensureKiosk } from "./kiosk-auth.mjs";
+import { ensureAdmin } from "./admin.mjs";
+import { getStore, updateWithRevision } from "./store.mjs";
+
+const INVENTORY_KEY = "inventory";
+// 같은 주문의 차감 요청이 다시 와도 한 번만 차감하도록 기억해 두는 최근 주문 수
+const RECENT_ORDER_LIMIT = 200;
+
+// stock 이 null 이면 재고를 추적하지 않는 메뉴 (수동 품절만 가능)
+const toEntry = (entry = {}) => ({
+  stock: typeof entry.stock === "number" ? entry.stock : null,
+  soldOut: Boolean(entry.soldOut),
+  updatedAt: entry.updatedAt,
+});
+
+const availableQuantity = (entry) => {
+  if (entry.soldOut) return 0;
+  return entry.stock === null ? Infinity : Math.max(entry.stock, 0);
+};
+
+async function loadInventory() {
+  const store = await getStore();
+  const doc = await store.get(INVENTORY_KEY);
+  return { items: doc?.items ?? {} };
+}
+
+// 다른 요청의 변경을 덮어쓰지 않도록 revision 조건부 쓰기 (mutate 가 error / unchanged 를 돌려주면 쓰지 않음)
+async function mutateInventory(mutate) {
+  let result;
+  await updateWithRevision(INVENTORY_KEY, (current) => {
+    const recentOrderIds = current?.recentOrderIds ?? [];
+    result = mutate(current?.items ?? {}, recentOrderIds);
+    if (result.error || result.unchanged) return undefined;
+    return {
+      items: result.items,
+      recentOrderIds: result.recentOrderIds ?? recentOrderIds,
+      updatedAt: nowSeconds(),
+    };
+  });
+  return result;
+}
+
+// 주문 수량이 현재 재고를 넘는 메뉴 목록
+const findUnavailable = (items, lines) =>
+  lines
+    .map(({ id, qty }) => ({
+      id,
+      requested: qty,
+      available: availableQuantity(toEntry(items[id])),
+    }))
+    .filter((line) => line.requested > line.available)
+    .map((line) => ({
+      ...line,
+      available: Number.isFinite(line.available) ? line.available : null,
+    }));
+
+const parseLines = (payload) => {
+  if (!Array.isArray(payload?.items)) return null;
+  const lines = payload.items.filter(
+    (line) =>
+      typeof line?.id === "string" && Number.isInteger(line.qty) && line.qty > 0
+  );
+  return lines.length === payload.items.length ? lines : null;
+};
+
+async function listInventory() {
+  const { items } = await loadInventory();
+  const result = Object.fromEntries(
+    Object.entries(items).map(([id, entry]) => [id, toEntry(entry)])
+  );
+  return json(200, { items: result });
+}
+
+export async function handleGetInventory(event) {
+  if (!(await ensureKiosk(event))) {
+    return json(401, { error: "unauthorized" });
+  }
+  return listInventory();
+}
+
+/**
+ * 관리자: 재고 관리 화면용 조회 (키오스크 키 없이 관리자 토큰으로 확인)
+ */
+export async function handleAdminGetInventory(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  return listInventory();
+}
+
+/**
+ * 관리자: 메뉴별 재고 수량 / 수동 품절 설정
+ */
+export async function handleUpdateInventory(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { itemId, stock, soldOut } = payload;
+  if (!itemId) return json(400, { error: "itemId required" });
+  if (
+    stock !== undefined &&
+    stock !== null &&
+    !(Number.isInteger(stock) && stock >= 0)
+  ) {
+    return json(400, { error: "stock must be a non-negative integer or null" });
+  }
+  if (soldOut !== undefined && typeof soldOut !== "boolean") {
+    return json(400, { error: "soldOut must be boolean" });
+  }
+
+  const now = nowSeconds();
+  const result = await mutateInventory((items) => {
+    const entry = toEntry(items[itemId]);
+    if (stock !== undefined) entry.stock = stock;
+    if (soldOut !== undefined) entry.soldOut = soldOut;
+    entry.updatedAt = now;
+    items[itemId] = entry;
+    return { items, entry };
+  });
+
+  return json(200, { success: true, itemId, ...result.entry });
+}
+
+/**
+ * 결제 직전 장바구니 재검증
+ */
+export async function handleCheckInventory(event) {
+  if (!(await ensureKiosk(event))) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const lines = parseLines(payload);
+  if (!lines) return json(400, { error: "items must be [{ id, qty }]" });
+
+  const { items } = await loadInventory();
+  const unavailable = findUnavailable(items, lines);
+  return json(200, { ok: unavailable.length === 0, unavailable });
+}
+
+/**
+ * 결제 승인 후 재고 차감 (재고가 부족하면 아무것도 차감하지 않음)
+ * 같은 orderId 로 다시 요청하면 차감하지 않고 성공 (키오스크 주문 큐의 재시도 대비)
+ */
+export async function handleConsumeInventory(event) {
+  if (!(await ensureKiosk(event))) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { orderId } = payload;
+  const lines = parseLines(payload);
+  if (typeof orderId !== "string" || !orderId || !lines) {
+    return json(400, { error: "orderId and items [{ id, qty }] required" });
+  }
+
+  const now = nowSeconds();
+  const result = await mutateInventory((items, recentOrderIds) => {
+    if (recentOrderIds.includes(orderId)) return { unchanged: true };
+    const unavailable = findUnavailable(items, lines);
+    if (unavailable.length > 0) return { error: "sold out", unavailable };
+
+    for (const { id, qty } of lines) {
+      const entry = toEntry(items[id]);
+      if (entry.stock === null) continue;
+      entry.stock -= qty;
+      // 재고가 바닥나면 자동으로 품절 처리
+      if (entry.stock === 0) entry.soldOut = true;
+      entry.updatedAt = now;
+      items[id] = entry;
+    }
+    return {
+      items,
+      recentOrderIds: [...recentOrderIds, orderId].slice(-RECENT_ORDER_LIMIT),
+    };
+  });
+
+  if (result.error) {
+    return json(409, { error: result.error, unavailable: result.unavailable });
+  }
+  return json(200, { success: true, duplicate: Boolean(result.unchanged) });
+}
@@ -0,0 +1,300 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { getHeader, json, nowSeconds, parseBody } from "./http.mjs";
+import { getStore, isConflict, updateWithRevision } from "./store.mjs";
+import { ensureAdmin } from "./admin.mjs";
+
+// 서명 시각 허용 범위 (키오스크 시계 오차 포함). 이 시간 동안 nonce 를 기억해 재전송을 막음
+const SIGNATURE_WINDOW_SECONDS = parseInt(
+  process.env.SIGNATURE_WINDOW_SECONDS || "300",
+  10
+);
+// 키를 교체한 뒤 이전 키를 계속 받아 주는 시간 (교체 중 열려 있던 다른 탭 / 재전송 대비)
+const KEY_ROTATION_GRACE_SECONDS = parseInt(
+  process.env.KEY_ROTATION_GRACE_SECONDS || "3600",
+  10
+);
+// 매장을 지정하지 않고 발급한 키 / 고정 키가 속하는 매장
+const DEFAULT_STORE_ID = process.env.STORE_ID || "store-01";
+
+/**
+ * 저장소 밖에서 주입하는 고정 키 (로컬 개발 / 첫 관리자 등록 전용)
+ * "kioskId:keyId:secret" 을 쉼표로 구분. 저장소의 폐기 처리는 이 키에도 적용됨
+ */
+const STATIC_KEYS = (process.env.KIOSK_KEYS || "")
+  .split(",")
+  .map((entry) => entry.trim().split(":"))
+  .filter((parts) => parts.length === 3 && parts.every(Boolean))
+  .map(([kioskId, keyId, secret]) => ({ kioskId, keyId, secret }));
+
+const credentialKey = (kioskId) => `kiosk-credential#${kioskId}`;
+// 관리 화면에서 키오스크 목록을 보여주기 위한 등록 목록
+const REGISTRY_KEY = "kiosk-registry";
+const nonceKey = (kioskId, nonce) => `kiosk-nonce#${kioskId}#${nonce}`;
+
+const KIOSK_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+const STORE_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+const sha256Hex = (value) => createHash("sha256").update(value).digest("hex");
+
+/**
+ * 서명 대상 문자열: 메서드 / 경로(+쿼리) / 시각 / nonce / 본문 해시를 줄바꿈으로 연결
+ * 키오스크(lib/kioskAuth.ts)와 개발용 Vite 프록시가 같은 형식으로 서명함
+ */
+const buildCanonicalRequest = ({ method, target, timestamp, nonce, body }) =>
+  [method.toUpperCase(), target, timestamp, nonce, sha256Hex(body ?? "")].join("\n");
+
+// 서명은 /api/ 부터의 경로로 계산 (스테이지 접두사나 개발 프록시 경로와 무관하도록)
+const toSignedTarget = (event) => {
+  const path = event.rawPath ?? event.path ?? "";
+  const apiIndex = path.indexOf("/api/");
+  const target = apiIndex >= 0 ? path.slice(apiIndex) : path;
+  const query =
+    event.rawQueryString ??
+    new URLSearchParams(event.queryStringParameters || {}).toString();
+  return query ? `${target}?${query}` : target;
+};
+
+const readBody = (event) => {
+  if (!event.body) return "";
+  return event.isBase64Encoded
+    ? Buffer.from(event.body, "base64").toString("utf8")
+    : event.body;
+};
+
+// 헤더 우선, 브라우저 WebSocket 처럼 헤더를 못 쓰는 경우 쿼리로 받음
+const readSignature = (headers = {}, query = {}) => ({
+  kioskId: getHeader(headers, "x-kiosk-id") ?? query.kioskId,
+  keyId: getHeader(headers, "x-kiosk-key-id") ?? query.keyId,
+  timestamp: getHeader(headers, "x-kiosk-timestamp") ?? query.timestamp,
+  nonce: getHeader(headers, "x-kiosk-nonce") ?? query.nonce,
+  signature: getHeader(headers, "x-kiosk-signature") ?? query.signature,
+});
+
+async function loadCredential(kioskId) {
+  const store = await getStore();
+  return store.get(credentialKey(kioskId));
+}
+
+// 서명에 쓸 수 있는 키와 키오스크가 속한 매장 (폐기된 키오스크 / 유예 시간이 지난 이전 키 제외)
+async function findKey(kioskId, keyId, now) {
+  const credential = await loadCredential(kioskId);
+  if (credential?.revokedAt) return null;
+  const storeId = credential?.storeId ?? DEFAULT_STORE_ID;
+  const stored = (credential?.keys ?? []).find(
+    (key) => key.keyId === keyId && (!key.expiresAt || key.expiresAt > now)
+  );
+  if (stored) return { secret: stored.secret, storeId };
+  const fixed = STATIC_KEYS.find(
+    (key) => key.kioskId === kioskId && key.keyId === keyId
+  );
+  const revokedKeyIds = credential?.revokedKeyIds ?? [];
+  // 관리자가 키를 한 번 발급하면 고정 키도 교체된 이전 키처럼 유예 시간 뒤 만료
+  const fixedExpiresAt = credential?.staticKeysExpireAt;
+  if (!fixed || revokedKeyIds.includes(keyId)) return null;
+  return !fixedExpiresAt || fixedExpiresAt > now ? { secret: fixed.secret, storeId } : null;
+}
+
+// 같은 nonce 가 서명 유효 시간 안에 다시 오면 재전송으로 보고 거부
+async function claimNonce(kioskId, nonce, now) {
+  const store = await getStore();
+  try {
+    await store.put(
+      nonceKey(kioskId, nonce),
+      { usedAt: now, ttl: now + SIGNATURE_WINDOW_SECONDS * 2 },
+      { expect: { usedAt: undefined } }
+    );
+    return true;
+  } catch (error) {
+    if (isConflict(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * 서명 확인 후 요청한 키오스크 { kioskId, storeId } 반환 (실패하면 null)
+ */
+async function verifySignature(signed, request) {
+  const { kioskId, keyId, timestamp, nonce, signature } = signed;
+  if (
+    !KIOSK_ID_PATTERN.test(kioskId ?? "") ||
+    !keyId ||
+    !signature ||
+    !NONCE_PATTERN.test(nonce ?? "")
+  ) {
+    return null;
+  }
+  const now = nowSeconds();
+  const signedAt = Number(timestamp);
+  if (!Number.isInteger(signedAt) || Math.abs(now - signedAt) > SIGNATURE_WINDOW_SECONDS) {
+    return null;
+  }
+
+  const key = await findKey(kioskId, keyId, now);
+  if (!key) return null;
+  const expected = Buffer.from(
+    createHmac("sha256", key.secret)
+      .update(buildCanonicalRequest({ ...request, timestamp, nonce }))
+      .digest("base64url")
+  );
+  const actual = Buffer.from(String(signature));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return (await claimNonce(kioskId, nonce, now))
+    ? { kioskId, storeId: key.storeId }
+    : null;
+}
+
+/**
+ * 키오스크 요청 확인 (HTTP): 서명이 맞으면 { kioskId, storeId }, 아니면 null
+ * 핸들러는 본문의 kioskId / storeId 대신 이 값을 사용해야 함 (다른 키오스크 행세 방지)
+ */
+export const ensureKiosk = (event) =>
+  verifySignature(readSignature(event.headers), {
+    method:
+      event.httpMethod ||
+      event.requestContext?.http?.method ||
+      event.requestContext?.httpMethod ||
+      "GET",
+    target: toSignedTarget(event),
+    body: readBody(event),
+  });
+
+/**
+ * 키오스크 요청 확인 (세션 상태 WebSocket 연결): GET /ws?sessionId= 에 대한 서명
+ * 세션 ID 는 "<kioskId>.<orderId>" 이므로 서명한 키오스크의 세션만 구독할 수 있음
+ */
+export async function ensureKioskSocket(headers, query = {}) {
+  const sessionId = query.sessionId ?? "";
+  const kiosk = await verifySignature(readSignature(headers, query), {
+    method: "GET",
+    target: `/ws?${new URLSearchParams({ sessionId })}`,
+    body: "",
+  });
+  return kiosk && sessionId.startsWith(`${kiosk.kioskId}.`) ? kiosk : null;
+}
+
+// ---- 관리자: 키 발급 / 교체 / 폐기 ----
+
+const toSummary = (credential) => ({
+  kioskId: credential.kioskId,
+  storeId: credential.storeId ?? DEFAULT_STORE_ID,
+  revokedAt: credential.revokedAt ?? null,
+  keys: (credential.keys ?? []).map(({ keyId, createdAt, expiresAt }) => ({
+    keyId,
+    createdAt,
+    expiresAt: expiresAt ?? null,
+  })),
+  updatedAt: credential.updatedAt,
+});
+
+async function mutateCredential(kioskId, change) {
+  return updateWithRevision(credentialKey(kioskId), (current) => ({
+    ...change(
+      current ?? { kioskId, keys: [], revokedKeyIds: [], createdAt: nowSeconds() }
+    ),
+    updatedAt: nowSeconds(),
+  }));
+}
+
+async function registerKiosk(kioskId) {
+  await updateWithRevision(REGISTRY_KEY, (registry) => {
+    const kioskIds = registry?.kioskIds ?? [];
+    return kioskIds.includes(kioskId)
+      ? undefined
+      : { kioskIds: [...kioskIds, kioskId] };
+  });
+}
+
+/**
+ * 관리자: 키오스크 목록 (비밀 키는 돌려주지 않음)
+ */
+export async function handleListKiosks(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const store = await getStore();
+  const registry = await store.get(REGISTRY_KEY);
+  const credentials = await Promise.all(
+    (registry?.kioskIds ?? []).map((kioskId) => loadCredential(kioskId))
+  );
+  return json(200, { kiosks: credentials.filter(Boolean).map(toSummary) });
+}
+
+/**
+ * 관리자: 키오스크 키 발급 / 교체
+ * 새 키를 만들고 이전 키는 유예 시간 뒤 만료. 비밀 키는 이 응답에서만 한 번 전달
+ */
+export async function handleIssueKioskKey(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+  const { kioskId, storeId } = payload;
+  if (!KIOSK_ID_PATTERN.test(kioskId ?? "")) {
+    return json(400, { error: "valid kioskId required" });
+  }
+  if (storeId !== undefined && !STORE_ID_PATTERN.test(storeId)) {
+    return json(400, { error: "invalid storeId" });
+  }
+
+  const now = nowSeconds();
+  const key = {
+    keyId: randomBytes(6).toString("hex"),
+    secret: randomBytes(32).toString("base64url"),
+    createdAt: now,
+  };
+  await registerKiosk(kioskId);
+  await mutateCredential(kioskId, (current) => ({
+    ...current,
+    // 다시 발급하면 폐기 상태도 풀림
+    revokedAt: null,
+    // 키오스크가 속한 매장은 본문이 아니라 여기서만 정함
+    storeId: storeId ?? current.storeId ?? DEFAULT_STORE_ID,
+    staticKeysExpireAt: Math.min(
+      current.staticKeysExpireAt ?? Infinity,
+      now + KEY_ROTATION_GRACE_SECONDS
+    ),
+    keys: [
+      ...current.keys
+        .filter((item) => !item.expiresAt || item.expiresAt > now)
+        .map((item) => ({
+          ...item,
+          expiresAt: Math.min(item.expiresAt ?? Infinity, now + KEY_ROTATION_GRACE_SECONDS),
+        })),
+      key,
+    ],
+  }));
+
+  return json(200, { kioskId, keyId: key.keyId, secret: key.secret });
+}
+
+/**
+ * 관리자: 키 폐기 (keyId 가 없으면 해당 키오스크의 모든 키를 즉시 폐기)
+ */
+export async function handleRevokeKioskKey(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+  const { kioskId, keyId } = payload;
+  if (!KIOSK_ID_PATTERN.test(kioskId ?? "")) {
+    return json(400, { error: "valid kioskId required" });
+  }
+
+  await registerKiosk(kioskId);
+  const next = await mutateCredential(kioskId, (current) =>
+    keyId
+      ? {
+          ...current,
+          keys: current.keys.filter((item) => item.keyId !== keyId),
+          revokedKeyIds: [...new Set([...(current.revokedKeyIds ?? []), keyId])],
+        }
+      : { ...current, keys: [], revokedAt: nowSeconds() }
+  );
+
+  return json(200, toSummary(next));
+}
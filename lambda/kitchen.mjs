@@ -0,0 +1,150 @@
+import { json, nowSeconds, parseBody } from "./http.mjs";
+import { ensureKiosk } from "./kiosk-auth.mjs";
+import { getStore, updateWithRevision } from "./store.mjs";
+
+// 픽업되지 않고 남은 티켓은 이 시간이 지나면 보드에서 정리
+const STALE_TICKET_SECONDS = 24 * 3600;
+
+// 매장별 티켓 보드 (픽업 완료된 티켓은 재전송된 주문을 다시 등록하지 않도록 ID 만 남겨 둠)
+const boardKey = (storeId) => `kitchen#${storeId}`;
+
+// 주방 진행 순서: 한 단계씩만 넘길 수 있음
+const TICKET_FLOW = ["received", "preparing", "ready", "pickedUp"];
+
+const nextStatus = (status) => TICKET_FLOW[TICKET_FLOW.indexOf(status) + 1];
+
+async function loadBoard(storeId) {
+  const store = await getStore();
+  const doc = await store.get(boardKey(storeId));
+  return { tickets: doc?.tickets ?? {} };
+}
+
+// 다른 화면의 변경을 덮어쓰지 않도록 revision 조건부 쓰기 (error / unchanged 면 쓰지 않음)
+async function mutateBoard(storeId, mutate) {
+  let result;
+  await updateWithRevision(boardKey(storeId), (current) => {
+    result = mutate(current?.tickets ?? {});
+    if (result.error || result.unchanged) return undefined;
+
+    const cutoff = nowSeconds() - STALE_TICKET_SECONDS;
+    const tickets = Object.fromEntries(
+      Object.entries(result.tickets).filter(
+        ([, ticket]) => ticket.createdAt > cutoff
+      )
+    );
+    return { tickets, updatedAt: nowSeconds() };
+  });
+  return result;
+}
+
+// 키오스크 주문(OrderPayload) → 주방 티켓
+const toTicket = (order, now) => ({
+  orderId: order.order_id,
+  orderNumber: order.order_number ?? null,
+  orderType: order.order_type,
+  items: order.items.map((item) => ({
+    name: item.name,
+    qty: item.qty,
+    options: (item.options ?? []).map((option) => option.name),
+  })),
+  status: "received",
+  createdAt: now,
+  updatedAt: now,
+});
+
+const isValidOrder = (order) =>
+  typeof order?.order_id === "string" &&
+  Array.isArray(order.items) &&
+  order.items.length > 0 &&
+  order.items.every(
+    (item) => typeof item?.name === "string" && Number.isInteger(item.qty)
+  );
+
+const sortTickets = (tickets) =>
+  Object.values(tickets)
+    .filter((ticket) => ticket.status !== "pickedUp")
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/**
+ * 진행 중 티켓 목록 (주방 화면 / 픽업 안내 화면 공용)
+ */
+export async function handleListTickets(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { storeId } = kiosk;
+  const { tickets } = await loadBoard(storeId);
+  return json(200, { storeId, tickets: sortTickets(tickets) });
+}
+
+/**
+ * 키오스크: 결제된 주문을 주방 티켓으로 등록 (같은 주문은 한 번만)
+ */
+export async function handleCreateTicket(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { order } = payload;
+  const { storeId } = kiosk;
+  if (!isValidOrder(order)) {
+    return json(400, { error: "order with order_id and items required" });
+  }
+
+  const result = await mutateBoard(storeId, (tickets) => {
+    const existing = tickets[order.order_id];
+    if (existing) return { unchanged: true, ticket: existing };
+    const ticket = toTicket(order, nowSeconds());
+    tickets[ticket.orderId] = ticket;
+    return { tickets, ticket };
+  });
+
+  return json(200, { success: true, ticket: result.ticket });
+}
+
+/**
+ * 주방: 티켓을 다음 단계로 넘김 (received → preparing → ready → pickedUp)
+ */
+export async function handleUpdateTicketStatus(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { orderId, status } = payload;
+  const { storeId } = kiosk;
+  if (!orderId || !TICKET_FLOW.includes(status)) {
+    return json(400, {
+      error: `orderId and status (${TICKET_FLOW.join(", ")}) required`,
+    });
+  }
+
+  const now = nowSeconds();
+  const result = await mutateBoard(storeId, (tickets) => {
+    const ticket = tickets[orderId];
+    if (!ticket) return { error: "not found", statusCode: 404 };
+    if (ticket.status === status) return { unchanged: true, ticket };
+    if (nextStatus(ticket.status) !== status) {
+      return {
+        error: `cannot move ticket from ${ticket.status} to ${status}`,
+        statusCode: 409,
+        ticket,
+      };
+    }
+
+    const next = { ...ticket, status, updatedAt: now };
+    tickets[orderId] =
+      status === "pickedUp"
+        ? { orderId, status, createdAt: ticket.createdAt, updatedAt: now }
+        : next;
+    return { tickets, ticket: next };
+  });
+
+  if (result.error) {
+    return json(result.statusCode, {
+      error: result.error,
+      status: result.ticket?.status,
+    });
+  }
+  return json(200, { success: true, ticket: result.ticket });
+}
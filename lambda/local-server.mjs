@@ -0,0 +1,85 @@
+import { createServer } from "node:http";
+
+// 로컬 개발용: 별도 설정이 없으면 파일 저장소와 개발용 키오스크 키 사용
+// (Vite 프록시에 LAMBDA_KIOSK_KEY_ID=dev, LAMBDA_KIOSK_SECRET=dev-kiosk-secret 을 설정)
+process.env.STORE_DRIVER ??= "file";
+process.env.KIOSK_KEYS ??= "kiosk-01:dev:dev-kiosk-secret";
+process.env.ADMIN_PASSWORD ??= "dev-admin";
+process.env.RECEIPT_SIGNING_SECRET ??= "dev-receipt-secret";
+
+const PORT = parseInt(process.env.PORT || "8787", 10);
+const { handler } = await import("./index.mjs");
+const { subscribeLocal } = await import("./events.mjs");
+const { ensureKioskSocket } = await import("./kiosk-auth.mjs");
+
+// Node HTTP 요청을 Lambda Function URL(v2) 이벤트 형태로 변환
+const toEvent = (req, body) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  return {
+    rawPath: url.pathname,
+    rawQueryString: url.search.slice(1),
+    queryStringParameters: Object.fromEntries(url.searchParams),
+    headers: req.headers,
+    body: body || undefined,
+    isBase64Encoded: false,
+    requestContext: { http: { method: req.method, path: url.pathname } },
+  };
+};
+
+const server = createServer(async (req, res) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const body = Buffer.concat(chunks).toString("utf8");
+
+  const result = await handler(toEvent(req, body));
+  res.writeHead(result.statusCode, result.headers);
+  res.end(
+    result.isBase64Encoded ? Buffer.from(result.body, "base64") : result.body
+  );
+  console.log(`${req.method} ${req.url} -> ${result.statusCode}`);
+});
+
+// API Gateway WebSocket API 대역: /ws?sessionId= 로 연결하면 세션 상태 변경을 푸시
+const attachWebSocket = async () => {
+  let WebSocketServer;
+  try {
+    ({ WebSocketServer } = await import("ws"));
+  } catch {
+    console.warn("[local-lambda] ws 패키지가 없어 푸시 없이 폴링만 사용합니다");
+    return;
+  }
+
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", async (req, socket, head) => {
+    // 이벤트 핸들러의 거부된 Promise 는 잡아 주는 곳이 없어 서버가 종료되므로 여기서 처리
+    try {
+      const url = new URL(req.url, `http://${req.headers.host}`);
+      const sessionId = url.searchParams.get("sessionId");
+      const authorized = await ensureKioskSocket(
+        req.headers,
+        Object.fromEntries(url.searchParams)
+      );
+      if (!url.pathname.endsWith("/ws") || !sessionId || !authorized) {
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const unsubscribe = subscribeLocal(sessionId, (message) => ws.send(message));
+        ws.on("close", unsubscribe);
+        console.log(`WS ${sessionId} connected`);
+      });
+    } catch (error) {
+      console.error("WS upgrade failed:", error);
+      socket.destroy();
+    }
+  });
+};
+
+await attachWebSocket();
+
+server.listen(PORT, () => {
+  console.log(
+    `[local-lambda] http://localhost:${PORT} (store: ${process.env.STORE_DRIVER})`
+  );
+});
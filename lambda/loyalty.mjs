@@ -0,0 +1,130 @@
+import { createHash } from "node:crypto";
+import { json, nowSeconds, parseBody } from "./http.mjs";
+import { ensureKiosk } from "./kiosk-auth.mjs";
+import { getStore, updateWithRevision } from "./store.mjs";
+
+// 무료 음료 1잔에 필요한 스탬프 수
+const STAMP_THRESHOLD = parseInt(process.env.LOYALTY_STAMP_THRESHOLD || "10", 10);
+// 전화번호 해시에 섞는 값 (저장소가 유출되어도 번호를 바로 알 수 없도록)
+const PHONE_PEPPER = process.env.LOYALTY_PEPPER || "";
+const MAX_STAMPS_PER_ORDER = 50;
+// 재전송된 적립 요청을 걸러내기 위해 최근 주문 ID 만 보관
+const RECENT_ORDER_LIMIT = 50;
+
+// 휴대폰 번호 (숫자만, 010 / 011 / 016~019)
+const PHONE_PATTERN = /^01[016789]\d{7,8}$/;
+
+const normalizePhone = (value) =>
+  typeof value === "string" ? value.replace(/\D/g, "") : "";
+
+const hashPhone = (phone) =>
+  createHash("sha256").update(`${PHONE_PEPPER}${phone}`).digest("hex");
+
+// 원래 번호는 저장하지 않고 화면 표시용으로 가린 번호만 보관
+const maskPhone = (phone) =>
+  `${phone.slice(0, 3)}-****-${phone.slice(-4)}`;
+
+const accountKey = (storeId, phone) => `loyalty#${storeId}#${hashPhone(phone)}`;
+
+const toAccount = (doc, phone) => {
+  const stamps = doc?.stamps ?? 0;
+  return {
+    maskedPhone: doc?.maskedPhone ?? maskPhone(phone),
+    stamps,
+    threshold: STAMP_THRESHOLD,
+    rewards: Math.floor(stamps / STAMP_THRESHOLD),
+  };
+};
+
+const readPhone = (payload) => {
+  const phone = normalizePhone(payload.phone);
+  return PHONE_PATTERN.test(phone) ? phone : null;
+};
+
+/**
+ * 키오스크: 전화번호로 스탬프 잔액 조회 (처음 보는 번호는 0개)
+ */
+export async function handleLookupLoyalty(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const phone = readPhone(payload);
+  if (!phone) return json(400, { error: "valid mobile phone number required" });
+  const { storeId } = kiosk;
+
+  const store = await getStore();
+  const doc = await store.get(accountKey(storeId, phone));
+  return json(200, toAccount(doc, phone));
+}
+
+/**
+ * 키오스크: 결제된 주문의 스탬프 적립 / 무료 음료 사용
+ * 같은 주문 ID 로 다시 보내면 한 번만 반영하고 현재 잔액을 돌려줌
+ * 잔액이 모자라면 (다른 키오스크에서 먼저 사용 등) 사용은 빼고 적립만 반영한 뒤 redeemRejected 로 알림
+ * (할인은 이미 결제에 들어갔으므로 직원 확인 필요)
+ */
+export async function handleRecordStamps(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const phone = readPhone(payload);
+  const { orderId, stamps = 0, redeem = 0 } = payload;
+  if (
+    !phone ||
+    typeof orderId !== "string" ||
+    !Number.isInteger(stamps) ||
+    !Number.isInteger(redeem) ||
+    stamps < 0 ||
+    redeem < 0 ||
+    stamps > MAX_STAMPS_PER_ORDER
+  ) {
+    return json(400, { error: "phone, orderId, stamps and redeem required" });
+  }
+  const { storeId } = kiosk;
+  const key = accountKey(storeId, phone);
+
+  let response;
+  await updateWithRevision(key, (doc) => {
+    const recentOrderIds = doc?.recentOrderIds ?? [];
+    // 재전송된 요청도 사용이 거부됐었는지 알 수 있도록 따로 보관
+    const rejectedOrderIds = doc?.redeemRejectedOrderIds ?? [];
+    if (recentOrderIds.includes(orderId)) {
+      response = json(200, {
+        success: true,
+        duplicate: true,
+        redeemRejected: rejectedOrderIds.includes(orderId),
+        ...toAccount(doc, phone),
+      });
+      return undefined;
+    }
+
+    const balance = doc?.stamps ?? 0;
+    const redeemRejected = redeem * STAMP_THRESHOLD > balance;
+    const redeemed = redeemRejected ? 0 : redeem;
+
+    const next = {
+      maskedPhone: maskPhone(phone),
+      stamps: balance - redeemed * STAMP_THRESHOLD + stamps,
+      earnedTotal: (doc?.earnedTotal ?? 0) + stamps,
+      redeemedTotal: (doc?.redeemedTotal ?? 0) + redeemed,
+      recentOrderIds: [...recentOrderIds, orderId].slice(-RECENT_ORDER_LIMIT),
+      redeemRejectedOrderIds: redeemRejected
+        ? [...rejectedOrderIds, orderId].slice(-RECENT_ORDER_LIMIT)
+        : rejectedOrderIds,
+      createdAt: doc?.createdAt ?? nowSeconds(),
+      updatedAt: nowSeconds(),
+    };
+    response = json(200, {
+      success: true,
+      duplicate: false,
+      redeemRejected,
+      ...toAccount(next, phone),
+    });
+    return next;
+  });
+  return response;
+}
@@ -0,0 +1,113 @@
+import { json, nowSeconds, parseBody } from "./http.mjs";
+import { ensureKiosk } from "./kiosk-auth.mjs";
+import { getStore, isConflict, updateWithRevision } from "./store.mjs";
+
+// 영업일 경계: 이 시각(현지 기준) 이전 주문은 전날 영업일로 계산 (새벽 영업 대비)
+const BUSINESS_DAY_START_HOUR = parseInt(
+  process.env.BUSINESS_DAY_START_HOUR || "4",
+  10
+);
+const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || "Asia/Seoul";
+// 카운터 / 발급 기록 보관 기간 (영업일이 지나면 필요 없음)
+const ORDER_NUMBER_TTL_SECONDS = 3 * 24 * 3600;
+
+const counterKey = (storeId, businessDate) =>
+  `order-seq#${storeId}#${businessDate}`;
+// 같은 주문이 다시 요청해도 같은 번호를 돌려주기 위한 기록
+const issuedKey = (storeId, orderId) => `order-number#${storeId}#${orderId}`;
+
+const dateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: BUSINESS_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * 영업일 (YYYY-MM-DD): 경계 시각만큼 당긴 뒤 현지 날짜로 계산
+ */
+export const getBusinessDate = (date = new Date()) =>
+  dateFormatter.format(
+    new Date(date.getTime() - BUSINESS_DAY_START_HOUR * 3600 * 1000)
+  );
+
+const hourFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: BUSINESS_TIMEZONE,
+  hour: "numeric",
+  hourCycle: "h23",
+});
+
+/**
+ * 현지 시각 기준 시(0~23): 시간대별 매출 집계용
+ */
+export const getBusinessHour = (date = new Date()) =>
+  parseInt(hourFormatter.format(date), 10);
+
+// 영업일 카운터를 조건부 쓰기로 1 증가 (동시 발급 시 재시도)
+async function nextOrderNumber(storeId, businessDate) {
+  const counter = await updateWithRevision(
+    counterKey(storeId, businessDate),
+    (current) => ({
+      storeId,
+      businessDate,
+      value: (current?.value ?? 0) + 1,
+      updatedAt: nowSeconds(),
+      ttl: nowSeconds() + ORDER_NUMBER_TTL_SECONDS,
+    })
+  );
+  return counter.value;
+}
+
+/**
+ * 주문번호 발급: 매장·영업일별 1부터 증가, 같은 orderId 는 같은 번호
+ */
+export async function handleIssueOrderNumber(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { orderId } = payload;
+  const { storeId } = kiosk;
+  if (!orderId) return json(400, { error: "orderId required" });
+
+  const store = await getStore();
+  const issued = await store.get(issuedKey(storeId, orderId));
+  if (issued) {
+    return json(200, {
+      orderId,
+      storeId,
+      orderNumber: issued.orderNumber,
+      businessDate: issued.businessDate,
+    });
+  }
+
+  const businessDate = getBusinessDate();
+  const orderNumber = await nextOrderNumber(storeId, businessDate);
+
+  try {
+    await store.put(
+      issuedKey(storeId, orderId),
+      {
+        orderId,
+        storeId,
+        orderNumber,
+        businessDate,
+        ttl: nowSeconds() + ORDER_NUMBER_TTL_SECONDS,
+      },
+      { expect: { orderId: undefined } }
+    );
+  } catch (error) {
+    if (!isConflict(error)) throw error;
+    // 같은 주문의 동시 요청: 먼저 기록된 번호를 사용 (이번 번호는 건너뜀)
+    const winner = await store.get(issuedKey(storeId, orderId));
+    return json(200, {
+      orderId,
+      storeId,
+      orderNumber: winner.orderNumber,
+      businessDate: winner.businessDate,
+    });
+  }
+
+  return json(200, { orderId, storeId, orderNumber, businessDate });
+}
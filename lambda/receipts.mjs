@@ -0,0 +1,325 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { corsHeaders, nowSeconds } from "./http.mjs";
+import { loadSale } from "./sales.mjs";
+
+// self: 저장된 주문으로 직접 만든 영수증 페이지 / external: 주문 API 가 준 외부 링크만 사용
+const RECEIPT_PAGE = process.env.RECEIPT_PAGE || "self";
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || "").replace(/\/$/, "");
+const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || "Asia/Seoul";
+// 영수증 링크 서명 키 (미설정이면 자체 영수증 페이지를 열지 않음)
+const RECEIPT_SIGNING_SECRET = process.env.RECEIPT_SIGNING_SECRET || "";
+// 서명된 링크 유효 시간: 태그 대기 시간 + 키오스크 QR 대체 화면이 끝날 때까지 열 수 있도록
+const RECEIPT_LINK_TTL_SECONDS = parseInt(
+  process.env.RECEIPT_LINK_TTL_SECONDS || "900",
+  10
+);
+// 영수증 머리글 (출력 브리지와 같은 변수 이름)
+const STORE_INFO = {
+  name: process.env.STORE_NAME || "",
+  businessNumber: process.env.STORE_BUSINESS_NUMBER || "",
+  address: process.env.STORE_ADDRESS || "",
+  phone: process.env.STORE_PHONE || "",
+};
+
+const ORDER_TYPE_LABELS = { takeout: "포장", dinein: "매장" };
+
+const receiptPath = (storeId, orderId) =>
+  `/receipt/${encodeURIComponent(storeId)}/${encodeURIComponent(orderId)}`;
+
+const signReceipt = (storeId, orderId, expiresAt) =>
+  createHmac("sha256", RECEIPT_SIGNING_SECRET)
+    .update(`${storeId}\n${orderId}\n${expiresAt}`)
+    .digest("base64url");
+
+// 링크를 공유하거나 나중에 다시 열어도 유효 시간이 지나면 열리지 않음
+const verifyReceipt = (storeId, orderId, query = {}) => {
+  const expiresAt = Number(query.exp);
+  if (!RECEIPT_SIGNING_SECRET || !Number.isInteger(expiresAt) || !query.sig) {
+    return false;
+  }
+  if (expiresAt <= nowSeconds()) return false;
+  const expected = Buffer.from(signReceipt(storeId, orderId, expiresAt));
+  const actual = Buffer.from(String(query.sig));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * 손님에게 보낼 영수증 주소
+ * 주문 원본이 저장돼 있으면 서명된 자체 페이지 링크, 아니면 외부 링크 (둘 다 없으면 null)
+ */
+export async function resolveReceiptUrl(session) {
+  if (RECEIPT_PAGE === "self" && RECEIPT_SIGNING_SECRET && session.storeId) {
+    const sale = await loadSale(session.storeId, session.orderId);
+    if (sale) {
+      const expiresAt = nowSeconds() + RECEIPT_LINK_TTL_SECONDS;
+      const sig = signReceipt(session.storeId, session.orderId, expiresAt);
+      return `${PUBLIC_BASE_URL}${receiptPath(session.storeId, session.orderId)}?exp=${expiresAt}&sig=${sig}`;
+    }
+  }
+  return session.receiptUrl || null;
+}
+
+const won = (amount) => `${Number(amount ?? 0).toLocaleString("ko-KR")}원`;
+
+const formatTime = (value) => {
+  const date = new Date(value ?? Date.now());
+  const valid = Number.isNaN(date.getTime()) ? new Date() : date;
+  return valid.toLocaleString("sv-SE", { timeZone: BUSINESS_TIMEZONE }).slice(0, 16);
+};
+
+const formatOption = (option) =>
+  option.price_delta
+    ? `${option.name} (+${option.price_delta.toLocaleString("ko-KR")})`
+    : option.name;
+
+/**
+ * 주문 원본 → 영수증 줄 목록
+ * HTML 과 이미지 저장(canvas)이 같은 줄 목록으로 그려서 내용이 어긋나지 않도록 함
+ */
+function buildReceiptRows(sale) {
+  const { order } = sale;
+  const paidAt = formatTime(order.payment?.approved_at ?? sale.paidAt);
+  const rows = [{ kind: "title", text: STORE_INFO.name || order.store_name || "" }];
+
+  if (STORE_INFO.businessNumber) {
+    rows.push({ kind: "text", text: `사업자번호 ${STORE_INFO.businessNumber}` });
+  }
+  if (STORE_INFO.address) rows.push({ kind: "text", text: STORE_INFO.address });
+  if (STORE_INFO.phone) rows.push({ kind: "text", text: `TEL ${STORE_INFO.phone}` });
+  if (order.order_number != null) {
+    rows.push({ kind: "number", label: "주문번호", text: String(order.order_number) });
+  }
+
+  rows.push({ kind: "rule" });
+  rows.push({
+    kind: "pair",
+    left: `[${ORDER_TYPE_LABELS[order.order_type] ?? order.order_type}]`,
+    right: paidAt,
+  });
+  rows.push({ kind: "rule" });
+
+  for (const item of order.items) {
+    rows.push({ kind: "pair", left: `${item.name} x${item.qty}`, right: won(item.price * item.qty) });
+    for (const option of item.options ?? []) {
+      rows.push({ kind: "option", text: formatOption(option) });
+    }
+  }
+  rows.push({ kind: "rule" });
+
+  if (order.discount_total > 0) {
+    rows.push({ kind: "pair", left: "주문 금액", right: won(order.subtotal) });
+    for (const discount of order.discounts ?? []) {
+      rows.push({
+        kind: "pair",
+        left: `할인 ${discount.name}`,
+        right: `-${won(discount.amount)}`,
+        tone: "discount",
+      });
+    }
+  }
+  rows.push({ kind: "pair", left: "과세 공급가액", right: won(order.supply_price) });
+  rows.push({ kind: "pair", left: "부가세", right: won(order.tax) });
+  if (order.tax_free_amount > 0) {
+    rows.push({ kind: "pair", left: "면세 물품가액", right: won(order.tax_free_amount) });
+  }
+  rows.push({ kind: "total", left: "합계", right: won(order.total) });
+
+  const payment = order.payment ?? {};
+  if (payment.approval_number) {
+    rows.push({ kind: "rule" });
+    rows.push({
+      kind: "pair",
+      left: payment.card_brand ?? "카드",
+      right: payment.masked_card_number ?? "",
+    });
+    rows.push({ kind: "pair", left: "승인번호", right: payment.approval_number });
+    rows.push({ kind: "pair", left: "승인 일시", right: paidAt });
+  }
+
+  rows.push({ kind: "rule" });
+  rows.push({ kind: "text", text: "이용해 주셔서 감사합니다" });
+  rows.push({ kind: "text", text: order.order_id });
+  return rows;
+}
+
+const escapeHtml = (value) =>
+  String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]
+  );
+
+const renderRow = (row) => {
+  switch (row.kind) {
+    case "title":
+      return `<h1>${escapeHtml(row.text)}</h1>`;
+    case "text":
+      return `<p class="text">${escapeHtml(row.text)}</p>`;
+    case "number":
+      return `<div class="number"><span>${escapeHtml(row.label)}</span><strong>${escapeHtml(row.text)}</strong></div>`;
+    case "rule":
+      return "<hr>";
+    case "option":
+      return `<p class="option">- ${escapeHtml(row.text)}</p>`;
+    default: {
+      const classes = ["pair", row.kind === "total" && "total", row.tone].filter(Boolean);
+      return `<div class="${classes.join(" ")}"><span>${escapeHtml(row.left)}</span><span>${escapeHtml(row.right)}</span></div>`;
+    }
+  }
+};
+
+const PAGE_STYLE = `
+*{box-sizing:border-box}
+body{margin:0;background:#f1f5f9;font-family:-apple-system,BlinkMacSystemFont,"Apple SD Gothic Neo","Noto Sans KR",sans-serif;color:#1e293b}
+main{max-width:420px;margin:0 auto;padding:16px}
+.receipt{background:#fff;border-radius:16px;padding:24px 20px;box-shadow:0 4px 16px rgba(15,23,42,.08)}
+h1{margin:0 0 8px;text-align:center;font-size:22px}
+.text{margin:2px 0;text-align:center;font-size:13px;color:#64748b;word-break:break-all}
+.number{margin:16px 0 8px;text-align:center}
+.number span{display:block;font-size:13px;color:#64748b}
+.number strong{display:block;font-size:44px;line-height:1.1}
+hr{border:0;border-top:1px dashed #cbd5e1;margin:12px 0}
+.pair{display:flex;justify-content:space-between;gap:12px;margin:6px 0;font-size:15px}
+.pair span:last-child{white-space:nowrap}
+.option{margin:2px 0 2px 12px;font-size:13px;color:#64748b}
+.discount{color:#e11d48}
+.total{font-size:19px;font-weight:700;margin-top:10px}
+button{display:block;width:100%;margin-top:16px;padding:14px;border:0;border-radius:12px;background:#1e293b;color:#fff;font-size:16px;font-weight:700}
+.empty{padding:48px 20px;text-align:center;color:#64748b}
+`;
+
+// 이미지로 저장: 같은 줄 목록을 canvas 에 다시 그려 PNG 로 공유 / 다운로드
+const SAVE_SCRIPT = `
+const rows = JSON.parse(document.getElementById("receipt-data").textContent);
+const WIDTH = 360, PAD = 20, SCALE = 2;
+const FONT = '-apple-system,BlinkMacSystemFont,"Apple SD Gothic Neo","Noto Sans KR",sans-serif';
+const HEIGHTS = { title: 36, text: 20, number: 72, rule: 20, pair: 24, option: 20, total: 32 };
+const fit = (ctx, text, width) => {
+  let value = text;
+  while (value.length > 1 && ctx.measureText(value).width > width) value = value.slice(0, -2) + "…";
+  return value;
+};
+function drawReceipt() {
+  const height = rows.reduce((sum, row) => sum + HEIGHTS[row.kind], PAD * 2);
+  const canvas = document.createElement("canvas");
+  canvas.width = WIDTH * SCALE;
+  canvas.height = height * SCALE;
+  const ctx = canvas.getContext("2d");
+  ctx.scale(SCALE, SCALE);
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, WIDTH, height);
+  ctx.textBaseline = "middle";
+  let y = PAD;
+  for (const row of rows) {
+    const h = HEIGHTS[row.kind];
+    const mid = y + h / 2;
+    ctx.fillStyle = row.tone === "discount" ? "#e11d48" : row.kind === "text" || row.kind === "option" ? "#64748b" : "#1e293b";
+    if (row.kind === "rule") {
+      ctx.strokeStyle = "#cbd5e1";
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath(); ctx.moveTo(PAD, mid); ctx.lineTo(WIDTH - PAD, mid); ctx.stroke();
+    } else if (row.kind === "title" || row.kind === "text") {
+      ctx.font = row.kind === "title" ? "bold 22px " + FONT : "13px " + FONT;
+      ctx.textAlign = "center";
+      ctx.fillText(fit(ctx, row.text, WIDTH - PAD * 2), WIDTH / 2, mid);
+    } else if (row.kind === "number") {
+      ctx.textAlign = "center";
+      ctx.font = "13px " + FONT;
+      ctx.fillText(row.label, WIDTH / 2, y + 12);
+      ctx.font = "bold 44px " + FONT;
+      ctx.fillText(row.text, WIDTH / 2, y + 46);
+    } else if (row.kind === "option") {
+      ctx.font = "13px " + FONT;
+      ctx.textAlign = "left";
+      ctx.fillText(fit(ctx, "- " + row.text, WIDTH - PAD * 2 - 12), PAD + 12, mid);
+    } else {
+      ctx.font = row.kind === "total" ? "bold 19px " + FONT : "15px " + FONT;
+      ctx.textAlign = "right";
+      ctx.fillText(row.right, WIDTH - PAD, mid);
+      const rightWidth = ctx.measureText(row.right).width;
+      ctx.textAlign = "left";
+      ctx.fillText(fit(ctx, row.left, WIDTH - PAD * 2 - rightWidth - 12), PAD, mid);
+    }
+    y += h;
+  }
+  return canvas;
+}
+document.getElementById("save").addEventListener("click", async () => {
+  const blob = await new Promise((resolve) => drawReceipt().toBlob(resolve, "image/png"));
+  const fileName = document.body.dataset.fileName;
+  const file = new File([blob], fileName, { type: "image/png" });
+  if (navigator.canShare && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file] });
+      return;
+    } catch (error) {
+      if (error.name === "AbortError") return;
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+});
+`;
+
+const htmlPage = (statusCode, title, body, bodyAttributes = "") => ({
+  statusCode,
+  headers: {
+    "Content-Type": "text/html; charset=utf-8",
+    // 카드 정보가 일부 들어 있으므로 공유 캐시에 남기지 않고, 서명이 다른 사이트로 새지 않도록 함
+    "Cache-Control": "private, no-store",
+    "Referrer-Policy": "no-referrer",
+    ...corsHeaders,
+  },
+  body: `<!doctype html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body${bodyAttributes}>
+<main>${body}</main>
+</body>
+</html>`,
+});
+
+/**
+ * 보여줄 영수증이 없을 때 (세션 만료, 이미 받아간 태그, 만료된 링크 등)
+ * 이유를 구분하지 않아 다른 손님의 주문이 있었는지 알 수 없도록 함
+ */
+export const noReceiptPage = () =>
+  htmlPage(
+    404,
+    "영수증",
+    '<div class="receipt empty">받을 수 있는 영수증이 없습니다.<br>키오스크에서 결제 후 안내에 따라 태그해 주세요.</div>'
+  );
+
+/**
+ * 손님 휴대폰용 영수증 페이지 (GET /receipt/<storeId>/<orderId>?exp=&sig=)
+ */
+export async function handleReceiptPage(storeId, orderId, query) {
+  if (!verifyReceipt(storeId, orderId, query)) return noReceiptPage();
+  const sale = await loadSale(storeId, orderId);
+  if (!sale) return noReceiptPage();
+
+  const rows = buildReceiptRows(sale);
+  const label = sale.order.order_number ?? sale.order.order_id.slice(0, 8);
+  // </script> 가 데이터에 섞여도 스크립트가 끊기지 않도록 < 를 이스케이프
+  const data = JSON.stringify(rows).replace(/</g, "\\u003c");
+
+  return htmlPage(
+    200,
+    `영수증 ${label}`,
+    `<div class="receipt">${rows.map(renderRow).join("\n")}</div>
+<button id="save" type="button">이미지로 저장</button>
+<script type="application/json" id="receipt-data">${data}</script>
+<script>${SAVE_SCRIPT}</script>`,
+    ` data-file-name="receipt-${escapeHtml(sale.businessDate)}-${escapeHtml(label)}.png"`
+  );
+}
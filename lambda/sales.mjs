@@ -0,0 +1,421 @@
+import { json, nowSeconds, parseBody } from "./http.mjs";
+import { ensureKiosk } from "./kiosk-auth.mjs";
+import { getStore, isConflict, updateWithRevision } from "./store.mjs";
+import { ensureAdmin } from "./admin.mjs";
+import { loadCatalog } from "./catalog.mjs";
+import { getBusinessDate, getBusinessHour } from "./orders.mjs";
+
+const DEFAULT_STORE_ID = process.env.STORE_ID || "store-01";
+// 한 번에 조회할 수 있는 기간 (영업일 문서를 하루씩 읽음)
+const MAX_REPORT_DAYS = 366;
+// 주문 단위 CSV 는 주문 문서를 하나씩 읽으므로 기간을 더 짧게 제한
+const MAX_ORDER_EXPORT_DAYS = 31;
+
+// 주문 원본 (TTL 없이 영구 보관)
+const orderKey = (storeId, orderId) => `sale#${storeId}#${orderId}`;
+// 영업일별 집계 + 주문 ID 목록 (주문 ID 목록으로 중복 집계 방지)
+const dailyKey = (storeId, businessDate) => `sales-day#${storeId}#${businessDate}`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const emptyDay = (storeId, businessDate) => ({
+  storeId,
+  businessDate,
+  orderIds: [],
+  orderCount: 0,
+  total: 0,
+  supplyPrice: 0,
+  tax: 0,
+  taxFree: 0,
+  discount: 0,
+  byItem: {},
+  byCategory: {},
+  byOrderType: {},
+  byHour: {},
+});
+
+const addTo = (bucket, key, fields) => {
+  const entry = bucket[key] ?? { count: 0, qty: 0, total: 0 };
+  bucket[key] = {
+    ...entry,
+    ...fields.label,
+    count: entry.count + (fields.count ?? 0),
+    qty: entry.qty + (fields.qty ?? 0),
+    total: entry.total + (fields.total ?? 0),
+  };
+};
+
+// 주문 한 건을 영업일 집계에 더함
+function applyOrder(day, sale) {
+  const { order, hour, categoryNames } = sale;
+  day.orderIds.push(order.order_id);
+  day.orderCount += 1;
+  day.total += order.total;
+  day.supplyPrice += order.supply_price ?? 0;
+  day.tax += order.tax ?? 0;
+  day.taxFree += order.tax_free_amount ?? 0;
+  day.discount = (day.discount ?? 0) + (order.discount_total ?? 0);
+
+  addTo(day.byOrderType, order.order_type, { count: 1, total: order.total });
+  addTo(day.byHour, String(hour), { count: 1, total: order.total });
+
+  for (const item of order.items) {
+    // 프로모션 할인이 배분된 라인은 할인 후 금액으로 집계 (합계가 결제 금액과 일치)
+    const lineTotal = item.price * item.qty - (item.discount ?? 0);
+    const categoryId = item.category || "uncategorized";
+    addTo(day.byItem, item.menu_id || item.name, {
+      label: { name: item.name, category: categoryId },
+      qty: item.qty,
+      total: lineTotal,
+    });
+    addTo(day.byCategory, categoryId, {
+      label: { name: categoryNames[categoryId] ?? categoryId },
+      qty: item.qty,
+      total: lineTotal,
+    });
+  }
+  return day;
+}
+
+async function mutateDay(storeId, businessDate, mutate) {
+  let added = false;
+  await updateWithRevision(dailyKey(storeId, businessDate), (current) => {
+    const next = mutate(current ?? emptyDay(storeId, businessDate));
+    added = Boolean(next);
+    return next ? { ...next, updatedAt: nowSeconds() } : undefined;
+  });
+  return added;
+}
+
+const isValidOrder = (order) =>
+  typeof order?.order_id === "string" &&
+  Number.isInteger(order.total) &&
+  ["takeout", "dinein"].includes(order.order_type) &&
+  Array.isArray(order.items) &&
+  order.items.every(
+    (item) =>
+      typeof item?.name === "string" &&
+      Number.isInteger(item.qty) &&
+      Number.isInteger(item.price)
+  );
+
+/**
+ * 키오스크: 결제 완료된 주문을 매출로 기록 (같은 주문은 한 번만 집계)
+ */
+export async function handleRecordSale(event) {
+  const kiosk = await ensureKiosk(event);
+  if (!kiosk) return json(401, { error: "unauthorized" });
+  const { payload, error } = parseBody(event);
+  if (error) return json(400, { error });
+
+  const { order } = payload;
+  const { storeId } = kiosk;
+  if (!isValidOrder(order)) {
+    return json(400, { error: "order with order_id, total and items required" });
+  }
+
+  const paidAt = new Date(order.payment?.approved_at ?? Date.now());
+  const validPaidAt = Number.isNaN(paidAt.getTime()) ? new Date() : paidAt;
+  const businessDate = DATE_PATTERN.test(order.business_date ?? "")
+    ? order.business_date
+    : getBusinessDate(validPaidAt);
+
+  // 카테고리 이름은 판매 시점 이름으로 남김 (나중에 카탈로그가 바뀌어도 보고서 유지)
+  const catalog = await loadCatalog();
+  const categoryNames = Object.fromEntries(
+    catalog.categories.map((category) => [category.id, category.name])
+  );
+
+  // 주문 원본은 처음 한 번만 기록 (재전송이 원본과 recordedAt 을 덮어쓰지 않도록)
+  const store = await getStore();
+  const key = orderKey(storeId, order.order_id);
+  let record = {
+    storeId,
+    businessDate,
+    paidAt: validPaidAt.toISOString(),
+    order,
+    recordedAt: nowSeconds(),
+  };
+  try {
+    await store.put(key, record, { expect: { recordedAt: undefined } });
+  } catch (error) {
+    if (!isConflict(error)) throw error;
+    // 이미 기록된 주문: 저장된 원본 기준으로 집계만 이어서 확인 (이전 요청이 집계 전에 실패했을 수 있음)
+    record = await store.get(key);
+  }
+
+  const sale = {
+    order: record.order,
+    hour: getBusinessHour(new Date(record.paidAt)),
+    categoryNames,
+  };
+  const added = await mutateDay(storeId, record.businessDate, (day) =>
+    day.orderIds.includes(order.order_id) ? null : applyOrder(day, sale)
+  );
+
+  return json(200, {
+    success: true,
+    businessDate: record.businessDate,
+    duplicate: !added,
+  });
+}
+
+/**
+ * 저장된 주문 원본 조회 (모바일 영수증 페이지용). 없으면 null
+ */
+export async function loadSale(storeId, orderId) {
+  const store = await getStore();
+  const doc = await store.get(orderKey(storeId, orderId));
+  return doc?.order ? doc : null;
+}
+
+// ---- 보고서 ----
+
+const listDates = (from, to) => {
+  const dates = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end && dates.length <= MAX_REPORT_DAYS) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+const average = (total, count) => (count > 0 ? Math.round(total / count) : 0);
+
+const mergeBuckets = (target, source = {}) => {
+  for (const [key, entry] of Object.entries(source)) {
+    const { count, qty, total, ...label } = entry;
+    addTo(target, key, { label, count, qty, total });
+  }
+};
+
+const sortByTotal = (bucket) =>
+  Object.entries(bucket)
+    .map(([id, entry]) => ({ id, ...entry }))
+    .sort((a, b) => b.total - a.total);
+
+async function buildReport(storeId, dates) {
+  const store = await getStore();
+  const days = await Promise.all(
+    dates.map(
+      async (date) =>
+        (await store.get(dailyKey(storeId, date))) ?? emptyDay(storeId, date)
+    )
+  );
+
+  const byItem = {};
+  const byCategory = {};
+  const byOrderType = {};
+  const byHour = {};
+  const summary = {
+    orderCount: 0,
+    total: 0,
+    supplyPrice: 0,
+    tax: 0,
+    taxFree: 0,
+    discount: 0,
+  };
+
+  for (const day of days) {
+    for (const field of Object.keys(summary)) summary[field] += day[field] ?? 0;
+    mergeBuckets(byItem, day.byItem);
+    mergeBuckets(byCategory, day.byCategory);
+    mergeBuckets(byOrderType, day.byOrderType);
+    mergeBuckets(byHour, day.byHour);
+  }
+
+  return {
+    storeId,
+    from: dates[0],
+    to: dates[dates.length - 1],
+    summary: {
+      ...summary,
+      averageTicket: average(summary.total, summary.orderCount),
+    },
+    days: days.map((day) => ({
+      date: day.businessDate,
+      orderCount: day.orderCount,
+      total: day.total,
+      supplyPrice: day.supplyPrice,
+      tax: day.tax,
+      taxFree: day.taxFree,
+      discount: day.discount ?? 0,
+      averageTicket: average(day.total, day.orderCount),
+    })),
+    items: sortByTotal(byItem),
+    categories: sortByTotal(byCategory),
+    orderTypes: sortByTotal(byOrderType).map((entry) => ({
+      ...entry,
+      averageTicket: average(entry.total, entry.count),
+    })),
+    hours: Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      count: byHour[hour]?.count ?? 0,
+      total: byHour[hour]?.total ?? 0,
+    })),
+    orderIds: days.flatMap((day) => day.orderIds),
+  };
+}
+
+// ---- CSV ----
+
+const ORDER_TYPE_LABELS = { takeout: "포장", dinein: "매장" };
+
+const escapeCsv = (value) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header, rows) =>
+  // 엑셀에서 한글이 깨지지 않도록 BOM 추가
+  "\uFEFF" +
+  [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+
+const CSV_SECTIONS = {
+  days: (report) =>
+    toCsv(
+      ["영업일", "주문 수", "매출", "공급가액", "부가세", "면세", "할인", "객단가"],
+      report.days.map((day) => [
+        day.date,
+        day.orderCount,
+        day.total,
+        day.supplyPrice,
+        day.tax,
+        day.taxFree,
+        day.discount,
+        day.averageTicket,
+      ])
+    ),
+  items: (report) =>
+    toCsv(
+      ["메뉴 ID", "메뉴", "카테고리", "수량", "매출"],
+      report.items.map((item) => [item.id, item.name, item.category, item.qty, item.total])
+    ),
+  categories: (report) =>
+    toCsv(
+      ["카테고리 ID", "카테고리", "수량", "매출"],
+      report.categories.map((category) => [
+        category.id,
+        category.name,
+        category.qty,
+        category.total,
+      ])
+    ),
+  orderTypes: (report) =>
+    toCsv(
+      ["주문 유형", "주문 수", "매출", "객단가"],
+      report.orderTypes.map((type) => [
+        ORDER_TYPE_LABELS[type.id] ?? type.id,
+        type.count,
+        type.total,
+        type.averageTicket,
+      ])
+    ),
+  hours: (report) =>
+    toCsv(
+      ["시간", "주문 수", "매출"],
+      report.hours.map((hour) => [`${hour.hour}시`, hour.count, hour.total])
+    ),
+};
+
+async function buildOrdersCsv(storeId, orderIds) {
+  const store = await getStore();
+  const sales = await Promise.all(
+    orderIds.map((orderId) => store.get(orderKey(storeId, orderId)))
+  );
+  const rows = sales.filter(Boolean).map(({ businessDate, paidAt, order }) => [
+    businessDate,
+    paidAt,
+    order.order_id,
+    order.order_number,
+    ORDER_TYPE_LABELS[order.order_type] ?? order.order_type,
+    order.items.map((item) => `${item.name} x${item.qty}`).join(" / "),
+    order.total,
+    order.supply_price,
+    order.tax,
+    order.tax_free_amount,
+    order.discount_total ?? 0,
+    (order.discounts ?? []).map((discount) => discount.name).join(" / "),
+    order.payment?.approval_number,
+    order.payment?.card_brand,
+  ]);
+  return toCsv(
+    [
+      "영업일",
+      "결제 시각",
+      "주문 ID",
+      "주문번호",
+      "주문 유형",
+      "메뉴",
+      "매출",
+      "공급가액",
+      "부가세",
+      "면세",
+      "할인",
+      "할인 내역",
+      "승인번호",
+      "카드사",
+    ],
+    rows
+  );
+}
+
+/**
+ * 관리자: 기간 매출 보고서 (?from=&to= 영업일, ?format=csv&section= 로 CSV)
+ * section: days | items | categories | orderTypes | hours | orders
+ */
+export async function handleSalesReport(event) {
+  if (!ensureAdmin(event.headers)) {
+    return json(401, { error: "unauthorized" });
+  }
+  const query = event.queryStringParameters || {};
+  const storeId = query.storeId || DEFAULT_STORE_ID;
+  const today = getBusinessDate();
+  const from = query.from || today;
+  const to = query.to || from;
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    return json(400, { error: "from/to must be YYYY-MM-DD with from <= to" });
+  }
+
+  const dates = listDates(from, to);
+  if (dates.length > MAX_REPORT_DAYS) {
+    return json(400, { error: `period longer than ${MAX_REPORT_DAYS} days` });
+  }
+  const report = await buildReport(storeId, dates);
+
+  if (query.format !== "csv") {
+    // 주문 ID 목록은 주문 단위 CSV 에만 사용
+    delete report.orderIds;
+    return json(200, report);
+  }
+
+  const section = query.section || "days";
+  let csv;
+  if (section === "orders") {
+    if (dates.length > MAX_ORDER_EXPORT_DAYS) {
+      return json(400, {
+        error: `order export limited to ${MAX_ORDER_EXPORT_DAYS} days`,
+      });
+    }
+    csv = await buildOrdersCsv(storeId, report.orderIds);
+  } else if (CSV_SECTIONS[section]) {
+    csv = CSV_SECTIONS[section](report);
+  } else {
+    return json(400, {
+      error: `section must be one of ${[...Object.keys(CSV_SECTIONS), "orders"].join(", ")}`,
+    });
+  }
+
+  const response = json(200, {});
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="sales-${section}-${from}_${to}.csv"`,
+    },
+    body: csv,
+  };
+}
@@ -0,0 +1,230 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// 저장소 드라이버: 운영은 dynamodb, 로컬 개발은 memory 또는 file
+const STORE_DRIVER = process.env.STORE_DRIVER || "dynamodb";
+const STORE_FILE = process.env.STORE_FILE || "./.data/store.json";
+const TABLE_NAME = process.env.TABLE_NAME || "nfc-latest";
+const REGION = process.env.AWS_REGION || "ap-northeast-2";
+
+// 조건부 쓰기 실패 (DynamoDB 의 ConditionalCheckFailedException 과 같은 의미)
+export class ConflictError extends Error {
+  constructor(message = "condition check failed") {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export const isConflict = (error) =>
+  error?.name === "ConflictError" ||
+  error?.name === "ConditionalCheckFailedException";
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const matches = (doc, expect = {}) =>
+  Object.entries(expect).every(([key, value]) =>
+    value === undefined ? doc?.[key] === undefined : doc?.[key] === value
+  );
+
+/**
+ * 메모리 드라이버 (persist 를 넘기면 변경 시마다 파일에 기록)
+ */
+function createMemoryStore(initial = {}, persist) {
+  const items = new Map(Object.entries(initial));
+
+  const isLive = (doc) => !doc?.ttl || doc.ttl > nowSeconds();
+  // 조건 확인과 쓰기 사이에 await 가 없어야 동시 요청의 조건부 쓰기가 서로 덮어쓰지 않음
+  const read = (pk) => {
+    const doc = items.get(pk);
+    return doc && isLive(doc) ? structuredClone(doc) : null;
+  };
+  const save = async () => {
+    if (persist) await persist(Object.fromEntries(items));
+  };
+
+  return {
+    async get(pk) {
+      return read(pk);
+    },
+    async put(pk, doc, { expect } = {}) {
+      const current = read(pk);
+      if (expect && !matches(current, expect)) throw new ConflictError();
+      items.set(pk, structuredClone({ ...doc, pk }));
+      await save();
+    },
+    async update(pk, changes, { expect } = {}) {
+      const current = read(pk);
+      if (!current) throw new ConflictError("item not found");
+      if (expect && !matches(current, expect)) throw new ConflictError();
+      const next = { ...current, ...changes, pk };
+      items.set(pk, structuredClone(next));
+      await save();
+      return structuredClone(next);
+    },
+    async delete(pk) {
+      items.delete(pk);
+      await save();
+    },
+  };
+}
+
+async function createFileStore(path) {
+  let initial = {};
+  try {
+    initial = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  return createMemoryStore(initial, async (data) => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(data, null, 2));
+  });
+}
+
+async function createDynamoStore() {
+  // 로컬 드라이버만 쓸 때는 AWS SDK 가 없어도 동작하도록 지연 로딩
+  const {
+    DynamoDBClient,
+    GetItemCommand,
+    PutItemCommand,
+    UpdateItemCommand,
+    DeleteItemCommand,
+  } = await import("@aws-sdk/client-dynamodb");
+  const { marshall, unmarshall } = await import("@aws-sdk/util-dynamodb");
+
+  const db = new DynamoDBClient({ region: REGION });
+  const key = (pk) => ({ pk: { S: pk } });
+  const marshallOptions = { removeUndefinedValues: true };
+
+  // expect 조건을 ConditionExpression 으로 변환
+  const buildCondition = (expect, names, values) => {
+    if (!expect) return undefined;
+    const parts = Object.entries(expect).map(([field, value], i) => {
+      names[`#c${i}`] = field;
+      if (value === undefined) return `attribute_not_exists(#c${i})`;
+      values[`:c${i}`] = marshall({ v: value }).v;
+      return `#c${i} = :c${i}`;
+    });
+    return parts.join(" AND ");
+  };
+
+  const rethrow = (error) => {
+    if (error.name === "ConditionalCheckFailedException") {
+      throw new ConflictError(error.message);
+    }
+    throw error;
+  };
+
+  return {
+    async get(pk) {
+      const res = await db.send(
+        new GetItemCommand({
+          TableName: TABLE_NAME,
+          Key: key(pk),
+          ConsistentRead: true,
+        })
+      );
+      if (!res.Item) return null;
+      const doc = unmarshall(res.Item);
+      // DynamoDB TTL 삭제는 지연되므로 만료된 항목은 직접 걸러냄
+      if (doc.ttl && doc.ttl <= nowSeconds()) return null;
+      return doc;
+    },
+    async put(pk, doc, { expect } = {}) {
+      const names = {};
+      const values = {};
+      const condition = buildCondition(expect, names, values);
+      await db
+        .send(
+          new PutItemCommand({
+            TableName: TABLE_NAME,
+            Item: marshall({ ...doc, pk }, marshallOptions),
+            ConditionExpression: condition,
+            ExpressionAttributeNames: condition ? names : undefined,
+            ExpressionAttributeValues:
+              condition && Object.keys(values).length ? values : undefined,
+          })
+        )
+        .catch(rethrow);
+    },
+    async update(pk, changes, { expect } = {}) {
+      const names = {};
+      const values = {};
+      const sets = Object.entries(changes).map(([field, value], i) => {
+        names[`#u${i}`] = field;
+        values[`:u${i}`] = marshall({ v: value }, marshallOptions).v;
+        return `#u${i} = :u${i}`;
+      });
+      const condition = [
+        "attribute_exists(pk)",
+        buildCondition(expect, names, values),
+      ]
+        .filter(Boolean)
+        .join(" AND ");
+
+      const res = await db
+        .send(
+          new UpdateItemCommand({
+            TableName: TABLE_NAME,
+            Key: key(pk),
+            UpdateExpression: `SET ${sets.join(", ")}`,
+            ConditionExpression: condition,
+            ExpressionAttributeNames: names,
+            ExpressionAttributeValues: values,
+            ReturnValues: "ALL_NEW",
+          })
+        )
+        .catch(rethrow);
+      return unmarshall(res.Attributes);
+    },
+    async delete(pk) {
+      await db.send(
+        new DeleteItemCommand({ TableName: TABLE_NAME, Key: key(pk) })
+      );
+    },
+  };
+}
+
+let storePromise;
+
+/**
+ * 환경 변수(STORE_DRIVER)에 맞는 저장소를 한 번만 생성해서 재사용
+ */
+export const getStore = () => {
+  if (!storePromise) {
+    if (STORE_DRIVER === "memory") {
+      storePromise = Promise.resolve(createMemoryStore());
+    } else if (STORE_DRIVER === "file") {
+      storePromise = createFileStore(STORE_FILE);
+    } else {
+      storePromise = createDynamoStore();
+    }
+  }
+  return storePromise;
+};
+
+// 동시 요청으로 조건부 쓰기가 충돌할 때 다시 읽어서 시도할 횟수
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * revision 을 조건으로 한 읽기 → 변경 → 쓰기 (다른 요청의 변경을 덮어쓰지 않음, 충돌하면 다시 읽어서 재시도)
+ * mutate(current) 는 새 문서를 돌려주고, 쓸 필요가 없으면 undefined 를 돌려줌 (current 는 복사본, 없으면 null)
+ * 기록한 문서를 반환 (쓰지 않았으면 현재 문서)
+ */
+export async function updateWithRevision(pk, mutate) {
+  const store = await getStore();
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const current = await store.get(pk);
+    const next = mutate(current ? structuredClone(current) : null);
+    if (next === undefined) return current;
+
+    const doc = { ...next, revision: (current?.revision ?? 0) + 1 };
+    try {
+      await store.put(pk, doc, { expect: { revision: current?.revision } });
+      return doc;
+    } catch (error) {
+      if (!isConflict(error)) throw error;
+    }
+  }
+  throw new Error(`update conflict: ${pk}`);
+}
@@ -0,0 +1,61 @@
+// CP949(확장 완성형) 인코더
+// Node 의 euc-kr 디코더(ICU)는 KS X 1001 영역만 알고 있으므로 그 표를 뒤집어 쓰고,
+// 나머지 한글 8,822자는 CP949 규칙대로 계산: KS X 1001 에 없는 음절을 유니코드 순서대로
+// 0x8141 부터 확장 영역에 차례로 배치 (0x81~0xA0 은 178칸, 0xA1~0xC6 은 84칸씩)
+
+const range = (from, to) =>
+  Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+// 확장 영역 둘째 바이트: A-Z, a-z, 0x81~max
+const extensionTrails = (max) => [
+  ...range(0x41, 0x5a),
+  ...range(0x61, 0x7a),
+  ...range(0x81, max),
+];
+
+let table;
+
+const buildTable = () => {
+  const map = new Map();
+  const decoder = new TextDecoder("euc-kr");
+  for (const lead of range(0xa1, 0xfe)) {
+    for (const trail of range(0xa1, 0xfe)) {
+      const char = decoder.decode(Uint8Array.of(lead, trail));
+      if (char.length === 1 && char !== "\uFFFD" && !map.has(char)) {
+        map.set(char, [lead, trail]);
+      }
+    }
+  }
+
+  const slots = [
+    ...range(0x81, 0xa0).flatMap((lead) =>
+      extensionTrails(0xfe).map((trail) => [lead, trail])
+    ),
+    ...range(0xa1, 0xc6).flatMap((lead) =>
+      extensionTrails(0xa0).map((trail) => [lead, trail])
+    ),
+  ];
+  let next = 0;
+  for (const code of range(0xac00, 0xd7a3)) {
+    const char = String.fromCharCode(code);
+    if (!map.has(char)) map.set(char, slots[next++]);
+  }
+  return map;
+};
+
+/**
+ * 문자열을 CP949 바이트로 변환 (표현할 수 없는 문자는 "?")
+ */
+export function encodeCp949(text) {
+  table ??= buildTable();
+  const bytes = [];
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    if (code < 0x80) bytes.push(code);
+    else bytes.push(...(table.get(char) ?? [0x3f]));
+  }
+  return Buffer.from(bytes);
+}
+
+// 영수증 폭 계산용: CP949 에서 2바이트 문자는 인쇄 폭도 2칸
+export const textWidth = (text) => encodeCp949(text).length;
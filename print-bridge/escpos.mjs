@@ -0,0 +1,76 @@
+import { encodeCp949, textWidth } from "./cp949.mjs";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const ALIGN = { left: 0, center: 1, right: 2 };
+
+/**
+ * ESC/POS 명령 빌더: 체이닝으로 쌓은 뒤 toBuffer() 로 프린터에 보낼 바이트를 얻음
+ * columns 는 기본 글꼴 기준 한 줄 폭 (80mm 용지 42 / 58mm 용지 32)
+ */
+export function createEscPos({ columns = 42 } = {}) {
+  const chunks = [];
+  let scale = 1;
+  const push = (...bytes) => chunks.push(Buffer.from(bytes));
+
+  // 글자를 키우면 한 줄에 들어가는 칸 수도 줄어듦
+  const width = () => Math.floor(columns / scale);
+
+  const builder = {
+    // 초기화 + 2바이트(한글) 문자 모드
+    init() {
+      push(ESC, 0x40);
+      push(FS, 0x26);
+      return builder;
+    },
+    align(mode) {
+      push(ESC, 0x61, ALIGN[mode] ?? 0);
+      return builder;
+    },
+    bold(on) {
+      push(ESC, 0x45, on ? 1 : 0);
+      return builder;
+    },
+    // 1~8 배 (가로, 세로)
+    size(widthScale = 1, heightScale = widthScale) {
+      scale = widthScale;
+      push(GS, 0x21, ((widthScale - 1) << 4) | (heightScale - 1));
+      return builder;
+    },
+    text(value) {
+      chunks.push(encodeCp949(String(value)));
+      return builder;
+    },
+    line(value = "") {
+      builder.text(value);
+      push(LF);
+      return builder;
+    },
+    // 왼쪽 / 오른쪽 정렬 두 칸 (넘치면 오른쪽 값을 다음 줄로)
+    pair(left, right) {
+      const gap = width() - textWidth(left) - textWidth(right);
+      if (gap >= 1) return builder.line(`${left}${" ".repeat(gap)}${right}`);
+      builder.line(left);
+      return builder.line(`${" ".repeat(Math.max(width() - textWidth(right), 0))}${right}`);
+    },
+    rule(char = "-") {
+      return builder.line(char.repeat(width()));
+    },
+    feed(lines = 1) {
+      push(ESC, 0x64, lines);
+      return builder;
+    },
+    // 용지를 조금 밀어낸 뒤 부분 절단
+    cut() {
+      push(GS, 0x56, 0x42, 0x00);
+      return builder;
+    },
+    toBuffer() {
+      return Buffer.concat(chunks);
+    },
+  };
+  return builder;
+}
@@ -0,0 +1,92 @@
+import { createConnection } from "node:net";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const DLE = 0x10;
+const EOT = 0x04;
+// DLE EOT 4: 용지 센서 상태 (0x60 이 켜져 있으면 용지 없음)
+const PAPER_STATUS_QUERY = Buffer.from([DLE, EOT, 4]);
+const PAPER_END_BITS = 0x60;
+
+// 프린터에 출력하지 못한 이유 (code: offline | timeout | paperOut)
+export class PrinterError extends Error {
+  constructor(message, code, target) {
+    super(message);
+    this.name = "PrinterError";
+    this.code = code;
+    this.target = target;
+  }
+}
+
+/**
+ * 네트워크 영수증 프린터 (RAW TCP 9100)
+ * 상태 조회에 응답하는 프린터면 용지가 없을 때 출력 전에 실패로 알림
+ */
+export function createTcpPrinter({
+  name,
+  host,
+  port = 9100,
+  timeoutMs = 5000,
+  statusTimeoutMs = 500,
+}) {
+  const target = `${name} (${host}:${port})`;
+
+  const print = (data) =>
+    new Promise((resolve, reject) => {
+      const socket = createConnection({ host, port });
+      let settled = false;
+      const fail = (error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setTimeout(timeoutMs, () =>
+        fail(new PrinterError(`${target} 응답 없음`, "timeout", target))
+      );
+      socket.on("error", (error) =>
+        fail(new PrinterError(`${target} 연결 실패: ${error.message}`, "offline", target))
+      );
+      socket.on("close", () => {
+        if (settled) return;
+        settled = true;
+        resolve({ target });
+      });
+
+      socket.on("connect", () => {
+        // 상태 응답이 없으면(미지원 프린터) 그대로 출력
+        const statusTimer = setTimeout(() => {
+          socket.removeAllListeners("data");
+          socket.end(data);
+        }, statusTimeoutMs);
+        socket.once("data", (status) => {
+          clearTimeout(statusTimer);
+          if ((status[0] & PAPER_END_BITS) === PAPER_END_BITS) {
+            fail(new PrinterError(`${target} 용지 없음`, "paperOut", target));
+            return;
+          }
+          socket.end(data);
+        });
+        socket.write(PAPER_STATUS_QUERY);
+      });
+    });
+
+  return { target, print };
+}
+
+/**
+ * 테스트용 프린터: 출력할 바이트를 파일로 저장 (`xxd` 등으로 확인)
+ */
+export function createFilePrinter({ name, dir }) {
+  const target = `${name} (file: ${dir})`;
+
+  const print = async (data) => {
+    await mkdir(dir, { recursive: true });
+    const file = join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${name}.bin`);
+    await writeFile(file, data);
+    return { target, file };
+  };
+
+  return { target, print };
+}
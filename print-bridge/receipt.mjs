@@ -0,0 +1,118 @@
+import { createEscPos } from "./escpos.mjs";
+
+const ORDER_TYPE_LABELS = { takeout: "포장", dinein: "매장" };
+const TIME_ZONE = process.env.PRINT_TIMEZONE || "Asia/Seoul";
+
+const won = (amount) => `${Number(amount ?? 0).toLocaleString("ko-KR")}원`;
+
+const formatTime = (value) => {
+  const date = new Date(value ?? Date.now());
+  const valid = Number.isNaN(date.getTime()) ? new Date() : date;
+  return valid.toLocaleString("sv-SE", { timeZone: TIME_ZONE });
+};
+
+const formatOption = (option) =>
+  option.price_delta
+    ? `${option.name}(+${option.price_delta.toLocaleString("ko-KR")})`
+    : option.name;
+
+export const isPrintableOrder = (order) =>
+  typeof order?.order_id === "string" &&
+  Array.isArray(order.items) &&
+  order.items.length > 0 &&
+  order.items.every(
+    (item) => typeof item?.name === "string" && Number.isInteger(item.qty)
+  );
+
+/**
+ * 손님용 영수증 (OrderPayload → ESC/POS)
+ * store: { name, businessNumber, address, phone } (없으면 주문의 store_name 만 출력)
+ */
+export function renderReceipt(order, store = {}, { columns } = {}) {
+  const printer = createEscPos({ columns }).init();
+  const paidAt = formatTime(order.payment?.approved_at);
+
+  printer
+    .align("center")
+    .bold(true)
+    .size(2)
+    .line(store.name || order.store_name || "")
+    .size(1)
+    .bold(false);
+  if (store.businessNumber) printer.line(`사업자번호 ${store.businessNumber}`);
+  if (store.address) printer.line(store.address);
+  if (store.phone) printer.line(`TEL ${store.phone}`);
+  printer.feed(1);
+
+  if (order.order_number != null) {
+    printer.line("주문번호").bold(true).size(3).line(String(order.order_number)).size(1).bold(false);
+  }
+  printer.align("left").rule();
+  printer.pair(`[${ORDER_TYPE_LABELS[order.order_type] ?? order.order_type}]`, paidAt);
+  printer.rule();
+
+  for (const item of order.items) {
+    printer.pair(`${item.name} x${item.qty}`, won(item.price * item.qty));
+    for (const option of item.options ?? []) {
+      printer.line(`  - ${formatOption(option)}`);
+    }
+  }
+  printer.rule();
+
+  if (order.discount_total > 0) {
+    printer.pair("주문 금액", won(order.subtotal));
+    for (const discount of order.discounts ?? []) {
+      printer.pair(`할인 ${discount.name}`, `-${won(discount.amount)}`);
+    }
+  }
+  printer.pair("과세 공급가액", won(order.supply_price));
+  printer.pair("부가세", won(order.tax));
+  if (order.tax_free_amount > 0) printer.pair("면세 물품가액", won(order.tax_free_amount));
+  printer.bold(true).pair("합계", won(order.total)).bold(false);
+  printer.rule();
+
+  const payment = order.payment ?? {};
+  if (payment.approval_number) {
+    printer.pair(payment.card_brand ?? "카드", payment.masked_card_number ?? "");
+    printer.pair("승인번호", payment.approval_number);
+    printer.pair("승인 일시", paidAt);
+    printer.rule();
+  }
+
+  return printer
+    .align("center")
+    .line("이용해 주셔서 감사합니다")
+    .line(order.order_id)
+    .feed(4)
+    .cut()
+    .toBuffer();
+}
+
+/**
+ * 주방용 주문표: 주문번호와 메뉴 / 옵션을 크게
+ */
+export function renderKitchenTicket(order, { columns } = {}) {
+  const printer = createEscPos({ columns }).init();
+
+  printer
+    .align("center")
+    .bold(true)
+    .size(2)
+    .line(`[${ORDER_TYPE_LABELS[order.order_type] ?? order.order_type}]`)
+    .size(3)
+    .line(order.order_number != null ? String(order.order_number) : "번호 없음")
+    .size(1)
+    .bold(false)
+    .line(formatTime(order.payment?.approved_at))
+    .align("left")
+    .rule("=");
+
+  for (const item of order.items) {
+    printer.bold(true).size(2).line(`${item.name} x${item.qty}`).size(1).bold(false);
+    for (const option of item.options ?? []) {
+      printer.line(`  - ${option.name}`);
+    }
+  }
+
+  return printer.rule("=").feed(4).cut().toBuffer();
+}
@@ -0,0 +1,103 @@
+import { createServer } from "node:http";
+import { createFilePrinter, createTcpPrinter, PrinterError } from "./printer.mjs";
+import { isPrintableOrder, renderKitchenTicket, renderReceipt } from "./receipt.mjs";
+
+// 키오스크 옆에서 실행하는 출력 중계 서버
+// 브라우저는 프린터에 직접 TCP 로 연결할 수 없으므로 HTTP 로 주문을 받아 ESC/POS 로 변환해 전달
+const PORT = parseInt(process.env.PORT || "8790", 10);
+// tcp: 네트워크 프린터 / file: PRINT_DUMP_DIR 에 바이트를 저장 (프린터 없이 확인할 때)
+const PRINTER_DRIVER = process.env.PRINTER_DRIVER || "file";
+const PRINT_DUMP_DIR = process.env.PRINT_DUMP_DIR || "./.prints";
+const PRINTER_HOST = process.env.PRINTER_HOST || "192.168.0.100";
+const PRINTER_PORT = parseInt(process.env.PRINTER_PORT || "9100", 10);
+// 주방 프린터를 따로 두지 않으면 영수증 프린터로 출력
+const KITCHEN_PRINTER_HOST = process.env.KITCHEN_PRINTER_HOST || PRINTER_HOST;
+const KITCHEN_PRINTER_PORT = parseInt(
+  process.env.KITCHEN_PRINTER_PORT || String(PRINTER_PORT),
+  10
+);
+const PRINTER_COLUMNS = parseInt(process.env.PRINTER_COLUMNS || "42", 10);
+
+const STORE = {
+  name: process.env.STORE_NAME,
+  businessNumber: process.env.STORE_BUSINESS_NUMBER,
+  address: process.env.STORE_ADDRESS,
+  phone: process.env.STORE_PHONE,
+};
+
+const createPrinter = (name, host, port) =>
+  PRINTER_DRIVER === "tcp"
+    ? createTcpPrinter({ name, host, port })
+    : createFilePrinter({ name, dir: PRINT_DUMP_DIR });
+
+const printers = {
+  receipt: createPrinter("receipt", PRINTER_HOST, PRINTER_PORT),
+  kitchen: createPrinter("kitchen", KITCHEN_PRINTER_HOST, KITCHEN_PRINTER_PORT),
+};
+
+const JOBS = {
+  receipt: (order) => renderReceipt(order, STORE, { columns: PRINTER_COLUMNS }),
+  kitchen: (order) => renderKitchenTicket(order, { columns: PRINTER_COLUMNS }),
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Methods": "POST,OPTIONS",
+};
+
+const send = (res, statusCode, body) => {
+  res.writeHead(statusCode, { "Content-Type": "application/json", ...corsHeaders });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    return null;
+  }
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  // POST /print/receipt, POST /print/kitchen  { order: OrderPayload }
+  const kind = req.url?.match(/^\/print\/(receipt|kitchen)\/?$/)?.[1];
+  if (req.method !== "POST" || !kind) {
+    send(res, 404, { error: "not found" });
+    return;
+  }
+
+  const payload = await readJson(req);
+  if (!isPrintableOrder(payload?.order)) {
+    send(res, 400, { error: "order with order_id and items required" });
+    return;
+  }
+
+  try {
+    const result = await printers[kind].print(JOBS[kind](payload.order));
+    console.log(`[print-bridge] ${kind} ${payload.order.order_id} -> ${result.file ?? result.target}`);
+    send(res, 200, { success: true, target: result.target });
+  } catch (error) {
+    if (!(error instanceof PrinterError)) {
+      console.error(`[print-bridge] ${kind} 출력 오류:`, error);
+      send(res, 500, { error: "print failed" });
+      return;
+    }
+    console.error(`[print-bridge] ${error.message}`);
+    send(res, 503, { error: error.message, code: error.code, target: error.target });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `[print-bridge] http://localhost:${PORT} (${PRINTER_DRIVER === "tcp" ? `${PRINTER_HOST}:${PRINTER_PORT}` : PRINT_DUMP_DIR})`
+  );
+});
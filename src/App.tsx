@@ -4,17 +4,38 @@ import MenuScreen from "./components/MenuScreen";
 import PaymentScreen from "./components/PaymentScreen";
 import NfcTagScreen from "./components/NfcTagScreen";
 import NfcTagCompleteScreen from "./components/NfcTagComplete";
-import type { CartItem, OrderType, ScreenType } from "./types";
+import PendingOrdersBadge from "./components/PendingOrdersBadge";
+import IdleWarningModal from "./components/IdleWarningModal";
+import AccessibilityToggle from "./components/AccessibilityToggle";
+import { AnimatePresence } from "framer-motion";
+import { useIdleTimer } from "./hooks/useIdleTimer";
+import { useI18n } from "./hooks/useI18n";
+import { useAccessibility } from "./hooks/useAccessibility";
+import { DEFAULT_LANGUAGE, type MessageKey } from "./i18n";
+import { IDLE_TIMEOUTS_MS, TIMINGS } from "./constants/animations";
+import type {
+  CartItem,
+  CartPricing,
+  LoyaltyMember,
+  OrderType,
+  PlacedOrder,
+  ScreenType,
+} from "./types";
 
 export default function App() {
   const [screen, setScreen] = useState<ScreenType>("start");
   const [orderType, setOrderType] = useState<OrderType>("takeout");
-  const [currentReceiptUrl, setCurrentReceiptUrl] = useState<string | null>(null);
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
   const [completedOrder, setCompletedOrder] = useState<{
     items: CartItem[];
-    totalPrice: number;
+    pricing: CartPricing;
+    loyalty: LoyaltyMember | null;
   } | null>(null);
-  const [completeTitle, setCompleteTitle] = useState<string>("전송 완료");
+  const [completeTitle, setCompleteTitle] = useState<MessageKey>("complete.sent");
+  // 결제 단말 승인 대기 / 주문 전송 중에는 무입력 초기화를 하지 않음
+  const [isTransactionBusy, setIsTransactionBusy] = useState(false);
+  const { t, setLanguage } = useI18n();
+  const { isAccessible, setAccessible } = useAccessibility();
 
   const handleSelectOrderType = useCallback((type: OrderType) => {
     setOrderType(type);
@@ -27,44 +48,88 @@ export default function App() {
   }, []);
 
   const handleCheckout = useCallback(
-    (items: CartItem[], totalPrice: number) => {
-      setCompletedOrder({ items, totalPrice });
+    (items: CartItem[], pricing: CartPricing, loyalty: LoyaltyMember | null) => {
+      setCompletedOrder({ items, pricing, loyalty });
       setScreen("payment");
     },
     []
   );
 
-  const handleNfcTransfer = useCallback((receiptUrl: string) => {
-    setCurrentReceiptUrl(receiptUrl);
-    setCompleteTitle("전송 완료");
+  // 결제가 승인되지 않아 주문 화면으로 돌아갈 때는 담아둔 장바구니를 유지
+  const handleCancelPayment = useCallback(() => {
+    setScreen("menu");
+  }, []);
+
+  const handleNfcTransfer = useCallback((order: PlacedOrder) => {
+    setPlacedOrder(order);
+    setCompleteTitle("complete.sent");
     setScreen("nfcTag");
   }, []);
 
-  const handleNfcTagComplete = useCallback(() => {
+  const handlePaperReceipt = useCallback((order: PlacedOrder) => {
+    setPlacedOrder(order);
+    setCompleteTitle("complete.issued");
     setScreen("nfcComplete");
   }, []);
 
-  const handleNfcError = useCallback((error: string) => {
-    console.error("NFC 에러:", error);
-    alert(`NFC 오류: ${error}\n관리자에게 문의해주세요.`);
-    setScreen("start");
+  const handleNfcTagComplete = useCallback(() => {
+    setScreen("nfcComplete");
   }, []);
 
+  // 다음 손님을 위해 언어 / 접근성 모드도 기본값으로 되돌림
   const handleNfcComplete = useCallback(() => {
+    setLanguage(DEFAULT_LANGUAGE);
+    setAccessible(false);
     handleBackToStart();
-  }, [handleBackToStart]);
+  }, [setLanguage, setAccessible, handleBackToStart]);
+
+  // 손님이 자리를 떠난 경우: 장바구니를 비우고 처음 화면으로
+  const handleIdleTimeout = useCallback(() => {
+    console.log(`[Idle] ${screen} 화면 무입력으로 초기화`);
+    setPlacedOrder(null);
+    setOrderType("takeout");
+    setIsTransactionBusy(false);
+    setLanguage(DEFAULT_LANGUAGE);
+    setAccessible(false);
+    handleBackToStart();
+  }, [screen, setLanguage, setAccessible, handleBackToStart]);
+
+  const idle = useIdleTimer({
+    timeoutMs: isTransactionBusy ? null : IDLE_TIMEOUTS_MS[screen],
+    promptMs: TIMINGS.IDLE_PROMPT_MS,
+    onTimeout: handleIdleTimeout,
+  });
 
   return (
     <div className="w-[720px] h-[1280px] bg-linear-to-br from-slate-50 to-slate-100 overflow-hidden relative font-sans">
-      <div className="absolute top-0 right-0 w-64 h-64 bg-blue-500/10 rounded-full blur-3xl" />
-      <div className="absolute bottom-0 left-0 w-64 h-64 bg-purple-500/10 rounded-full blur-3xl" />
+      {!isAccessible && (
+        <>
+          <div className="absolute top-0 right-0 w-64 h-64 bg-blue-500/10 rounded-full blur-3xl" />
+          <div className="absolute bottom-0 left-0 w-64 h-64 bg-purple-500/10 rounded-full blur-3xl" />
+        </>
+      )}
 
-      <div className="relative h-full">
+      {/* 접근성 모드: 손이 닿지 않는 상단은 비우고 화면을 아래쪽에 배치 */}
+      {isAccessible && (
+        <div className="absolute inset-x-0 top-0 h-[440px] flex items-end justify-center px-10 pb-6 border-b-4 border-slate-900">
+          <p className="text-center text-2xl font-bold text-slate-900">
+            {t("accessibility.notice")}
+          </p>
+        </div>
+      )}
+
+      <div
+        className={`absolute inset-x-0 bottom-16 ${
+          isAccessible ? "top-[440px] overflow-y-auto" : "top-0"
+        }`}
+      >
         {screen === "start" && <StartScreen onSelect={handleSelectOrderType} />}
 
         {screen === "menu" && (
           <MenuScreen
             orderType={orderType}
+            initialItems={completedOrder?.items}
+            initialLoyalty={completedOrder?.loyalty}
             onBack={handleBackToStart}
             onCheckout={handleCheckout}
           />
@@ -74,30 +139,50 @@ export default function App() {
           <PaymentScreen
             orderType={orderType}
             items={completedOrder.items}
-            totalPrice={completedOrder.totalPrice}
+            pricing={completedOrder.pricing}
+            loyalty={completedOrder.loyalty}
             onNfcTransfer={handleNfcTransfer}
-            onPaperReceipt={() => {
-              setCompleteTitle("발급 완료");
-              setScreen("nfcComplete");
-            }}
+            onPaperReceipt={handlePaperReceipt}
+            onCancel={handleCancelPayment}
+            onBusyChange={setIsTransactionBusy}
           />
         )}
 
-        {screen === "nfcTag" && currentReceiptUrl && (
-          <NfcTagScreen
-            receiptUrl={currentReceiptUrl}
-            onTagComplete={handleNfcTagComplete}
-            onTagFailed={handleNfcError}
-          />
-        )}
+        {screen === "nfcTag" &&
+          placedOrder &&
+          (placedOrder.hasReceiptPage || placedOrder.receiptUrl) && (
+            <NfcTagScreen
+              receiptUrl={placedOrder.receiptUrl}
+              orderId={placedOrder.orderId}
+              onTagComplete={handleNfcTagComplete}
+              onFinish={handleNfcComplete}
+            />
+          )}
 
         {screen === "nfcComplete" && (
           <NfcTagCompleteScreen
-            title={completeTitle}
+            title={t(completeTitle)}
+            orderNumber={placedOrder?.orderNumber ?? null}
             onComplete={handleNfcComplete}
           />
         )}
       </div>
+
+      {/* 하단 바: 모든 화면에서 접근성 모드 전환 */}
+      <div className="absolute inset-x-0 bottom-0 h-16 flex items-center justify-end px-4">
+        <AccessibilityToggle />
+      </div>
+
+      <PendingOrdersBadge />
+
+      <AnimatePresence>
+        {idle.isPrompting && (
+          <IdleWarningModal
+            remainingSeconds={idle.remainingSeconds}
+            onContinue={idle.reset}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
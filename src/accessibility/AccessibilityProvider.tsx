@@ -0,0 +1,23 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { MotionConfig } from "framer-motion";
+import { ACCESSIBLE_MOTION } from "../constants/animations";
+import { AccessibilityContext } from "./context";
+
+export function AccessibilityProvider({ children }: { children: ReactNode }) {
+  const [isAccessible, setAccessible] = useState(false);
+
+  // 글자 크기 / 고대비 색상은 index.css 의 html.a11y 에서 처리
+  useEffect(() => {
+    document.documentElement.classList.toggle("a11y", isAccessible);
+  }, [isAccessible]);
+
+  const value = useMemo(() => ({ isAccessible, setAccessible }), [isAccessible]);
+
+  return (
+    <AccessibilityContext.Provider value={value}>
+      <MotionConfig {...(isAccessible ? ACCESSIBLE_MOTION : {})}>
+        {children}
+      </MotionConfig>
+    </AccessibilityContext.Provider>
+  );
+}
@@ -0,0 +1,11 @@
+import { createContext } from "react";
+
+export interface AccessibilityContextValue {
+  isAccessible: boolean;
+  setAccessible: (isAccessible: boolean) => void;
+}
+
+export const AccessibilityContext = createContext<AccessibilityContextValue>({
+  isAccessible: false,
+  setAccessible: () => {},
+});
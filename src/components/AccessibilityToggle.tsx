@@ -0,0 +1,26 @@
+import { Accessibility } from "lucide-react";
+import { useAccessibility } from "../hooks/useAccessibility";
+import { useI18n } from "../hooks/useI18n";
+
+// 휠체어 이용자도 닿을 수 있도록 모든 화면의 하단 바에 표시
+export default function AccessibilityToggle() {
+  const { isAccessible, setAccessible } = useAccessibility();
+  const { t } = useI18n();
+
+  return (
+    <button
+      onClick={() => setAccessible(!isAccessible)}
+      aria-pressed={isAccessible}
+      className={`flex items-center gap-2 rounded-full px-5 py-2.5 text-lg font-bold shadow transition-colors ${
+        isAccessible
+          ? "bg-slate-900 text-white"
+          : "bg-white text-slate-700 hover:bg-slate-50"
+      }`}
+    >
+      <Accessibility className="w-6 h-6" />
+      <span>
+        {isAccessible ? t("accessibility.off") : t("accessibility.on")}
+      </span>
+    </button>
+  );
+}
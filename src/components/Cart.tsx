@@ -5,33 +5,57 @@ import {
   Minus,
   CreditCard,
   ShoppingBag,
+  Stamp,
   Store,
+  Tag,
+  X,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { CartItem, OrderType } from "../types";
-import { calculateTotalPrice, calculateTotalQuantity } from "../utils/cart";
+import type {
+  CartItem,
+  CartPricing,
+  LoyaltyMember,
+  OrderType,
+} from "../types";
+import { calculateTotalQuantity, getUnitPrice } from "../utils/cart";
+import { formatSelectedOptions } from "../utils/options";
 import {
   ANIMATION_VARIANTS,
   TRANSITION_DEFAULTS,
 } from "../constants/animations";
+import { useI18n } from "../hooks/useI18n";
 
 interface CartProps {
   items: CartItem[];
+  // 프로모션까지 반영한 금액
+  pricing: CartPricing;
   orderType: OrderType;
-  onUpdateQuantity: (id: string, quantity: number) => void;
-  onRemove: (id: string) => void;
+  // 스탬프 적립 (전화번호를 입력하지 않았으면 null)
+  loyalty: LoyaltyMember | null;
+  stampCount: number;
+  onOpenLoyalty: () => void;
+  onRemoveLoyalty: () => void;
+  onUpdateQuantity: (lineId: string, quantity: number) => void;
+  onRemove: (lineId: string) => void;
   onCheckout: () => void;
+  isCheckoutPending?: boolean;
 }
 
 export default function Cart({
   items,
+  pricing,
   orderType,
+  loyalty,
+  stampCount,
+  onOpenLoyalty,
+  onRemoveLoyalty,
   onUpdateQuantity,
   onRemove,
   onCheckout,
+  isCheckoutPending = false,
 }: CartProps) {
-  const totalPrice = useMemo(() => calculateTotalPrice(items), [items]);
   const totalQuantity = useMemo(() => calculateTotalQuantity(items), [items]);
+  const { language, t, price, name } = useI18n();
 
   return (
     <div className="h-full flex flex-col bg-white">
@@ -43,9 +67,11 @@ export default function Cart({
           ) : (
             <Store className="w-6 h-6 text-purple-600" />
           )}
-          <h2 className="text-xl font-bold text-slate-800">주문 내역</h2>
+          <h2 className="text-xl font-bold text-slate-800">
+            {t("cart.title")}
+          </h2>
           <span className="text-sm font-medium text-slate-500 ml-1">
-            ({orderType === "takeout" ? "포장" : "매장"})
+            ({t(orderType === "takeout" ? "start.takeout" : "start.dinein")})
           </span>
         </div>
 
@@ -56,13 +82,13 @@ export default function Cart({
               className="h-full flex flex-col items-center justify-center text-slate-400"
             >
               <ShoppingBag className="w-20 h-20 mb-4 opacity-30" />
-              <p className="text-lg">선택된 메뉴가 없습니다</p>
+              <p className="text-lg">{t("cart.empty")}</p>
             </motion.div>
           ) : (
             <motion.div layout className="space-y-3 overflow-y-auto pr-2">
               {items.map((item) => (
                 <motion.div
-                  key={item.id}
+                  key={item.lineId}
                   layout
                   {...ANIMATION_VARIANTS.slideLeft}
                   transition={{ ...TRANSITION_DEFAULTS.spring, stiffness: 400 }}
@@ -70,10 +96,15 @@ export default function Cart({
                 >
                   <div className="flex-1">
                     <h3 className="text-xl font-semibold text-slate-800">
-                      {item.name}
+                      {name(item)}
                     </h3>
+                    {item.options.length > 0 && (
+                      <p className="text-sm text-slate-500 leading-snug">
+                        {formatSelectedOptions(item.options, language)}
+                      </p>
+                    )}
                     <p className="text-md font-bold text-slate-500">
-                      {item.price.toLocaleString()}원
+                      {price(getUnitPrice(item))}
                     </p>
                   </div>
 
@@ -81,9 +112,9 @@ export default function Cart({
                     <button
                       onClick={() => {
                         if (item.quantity === 1) {
-                          onRemove(item.id);
+                          onRemove(item.lineId);
                         } else {
-                          onUpdateQuantity(item.id, item.quantity - 1);
+                          onUpdateQuantity(item.lineId, item.quantity - 1);
                         }
                       }}
                       className="w-8 h-8 rounded-full bg-white hover:bg-slate-200 flex items-center justify-center transition-colors"
@@ -95,7 +126,7 @@ export default function Cart({
                     </span>
                     <button
                       onClick={() =>
-                        onUpdateQuantity(item.id, item.quantity + 1)
+                        onUpdateQuantity(item.lineId, item.quantity + 1)
                       }
                       className="w-8 h-8 rounded-full bg-white hover:bg-slate-200 flex items-center justify-center transition-colors"
                     >
@@ -104,11 +135,11 @@ export default function Cart({
                   </div>
 
                   <div className="w-28 text-right text-lg font-bold text-slate-800">
-                    {(item.price * item.quantity).toLocaleString()}원
+                    {price(getUnitPrice(item) * item.quantity)}
                   </div>
 
                   <button
-                    onClick={() => onRemove(item.id)}
+                    onClick={() => onRemove(item.lineId)}
                     className="text-slate-400 hover:text-red-500 transition-colors p-1 ml-2"
                   >
                     <Trash2 className="w-5 h-5" />
@@ -127,25 +158,90 @@ export default function Cart({
           transition={TRANSITION_DEFAULTS.spring}
           className="bg-white border-t-2 border-slate-100 p-6 space-y-4"
         >
+          {loyalty ? (
+            <div className="flex items-center gap-2 rounded-xl bg-blue-50 px-4 py-3 text-lg">
+              <Stamp className="w-6 h-6 text-blue-600" />
+              <button
+                onClick={onOpenLoyalty}
+                className="flex-1 text-left font-semibold text-slate-700"
+              >
+                {t("loyalty.linked", {
+                  phone: loyalty.account.maskedPhone,
+                  count: stampCount,
+                })}
+              </button>
+              <button
+                onClick={onRemoveLoyalty}
+                className="flex items-center gap-1 text-base text-slate-500"
+              >
+                <X className="w-5 h-5" />
+                {t("loyalty.remove")}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={onOpenLoyalty}
+              className="w-full flex items-center justify-center gap-2 rounded-xl border-2 border-blue-200 py-3 text-xl font-semibold text-blue-600"
+            >
+              <Stamp className="w-6 h-6" />
+              {t("loyalty.button")}
+            </button>
+          )}
+
           <div className="flex items-center justify-between text-2xl">
-            <span className="font-semibold text-slate-600">총 수량</span>
-            <span className="font-bold text-slate-800">{totalQuantity}개</span>
+            <span className="font-semibold text-slate-600">
+              {t("cart.totalQuantity")}
+            </span>
+            <span className="font-bold text-slate-800">
+              {t("cart.quantityUnit", { count: totalQuantity })}
+            </span>
           </div>
 
+          {pricing.discounts.length > 0 && (
+            <div className="space-y-1 text-xl">
+              <div className="flex items-center justify-between text-slate-600">
+                <span>{t("cart.subtotal")}</span>
+                <span>{price(pricing.subtotal)}</span>
+              </div>
+              {pricing.discounts.map((discount) => (
+                <div
+                  key={discount.promotionId}
+                  className="flex items-center justify-between text-rose-600"
+                >
+                  <span className="flex items-center gap-1">
+                    <Tag className="w-5 h-5" />
+                    {name(discount)}
+                  </span>
+                  <span className="font-semibold">
+                    -{price(discount.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="flex items-center justify-between text-3xl">
-            <span className="font-bold text-slate-800">총 결제금액</span>
+            <span className="font-bold text-slate-800">
+              {t("cart.totalPrice")}
+            </span>
             <span className="font-extrabold text-blue-600">
-              {totalPrice.toLocaleString()}원
+              {price(pricing.total)}
             </span>
           </div>
 
+          {pricing.discountTotal > 0 && (
+            <p className="text-right text-lg font-semibold text-rose-600">
+              {t("cart.savings", { amount: price(pricing.discountTotal) })}
+            </p>
+          )}
+
           <button
             onClick={onCheckout}
-            disabled={items.length === 0}
+            disabled={items.length === 0 || isCheckoutPending}
             className="w-full bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 disabled:opacity-50 text-white py-5 rounded-2xl transition-all duration-300 flex items-center justify-center gap-3 text-3xl font-bold disabled:cursor-not-allowed"
           >
             <CreditCard className="w-9 h-9" />
-            <span>결제하기</span>
+            <span>{t("cart.checkout")}</span>
           </button>
         </motion.div>
       )}
@@ -0,0 +1,57 @@
+import { motion } from "framer-motion";
+import { Hand } from "lucide-react";
+import {
+  ANIMATION_VARIANTS,
+  TRANSITION_DEFAULTS,
+} from "../constants/animations";
+import { useI18n } from "../hooks/useI18n";
+import { useAccessibility } from "../hooks/useAccessibility";
+
+interface IdleWarningModalProps {
+  remainingSeconds: number;
+  onContinue: () => void;
+}
+
+export default function IdleWarningModal({
+  remainingSeconds,
+  onContinue,
+}: IdleWarningModalProps) {
+  const { t } = useI18n();
+  const { isAccessible } = useAccessibility();
+
+  return (
+    <motion.div
+      {...ANIMATION_VARIANTS.fadeIn}
+      transition={TRANSITION_DEFAULTS.fast}
+      className={`absolute inset-0 z-[60] bg-slate-900/60 flex justify-center p-12 ${
+        isAccessible ? "items-end pb-24" : "items-center"
+      }`}
+    >
+      <motion.div
+        {...ANIMATION_VARIANTS.scaleIn}
+        transition={TRANSITION_DEFAULTS.spring}
+        className="w-full max-w-lg bg-white rounded-3xl shadow-2xl overflow-hidden text-center"
+      >
+        <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8">
+          <Hand className="w-16 h-16 text-white mx-auto mb-3" />
+          <h1 className="text-3xl font-bold text-white">{t("idle.title")}</h1>
+        </div>
+
+        <div className="p-10">
+          <p className="text-7xl font-extrabold text-slate-800 mb-4">
+            {remainingSeconds}
+          </p>
+          <p className="text-xl text-slate-600 mb-8">
+            {t("idle.description")}
+          </p>
+          <button
+            onClick={onContinue}
+            className="w-full bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-5 rounded-2xl transition-all duration-300 text-3xl font-bold"
+          >
+            {t("idle.continue")}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
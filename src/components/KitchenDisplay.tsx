@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { ChefHat, WifiOff } from "lucide-react";
+import type { KitchenTicketStatus } from "../types";
+import { useKitchenTickets } from "../hooks/useKitchenTickets";
+import KitchenTicketCard from "./KitchenTicketCard";
+
+// 화면에 보이는 단계 (픽업 완료된 티켓은 보드에서 빠짐)
+const COLUMNS: { status: KitchenTicketStatus; title: string; accent: string }[] =
+  [
+    { status: "received", title: "접수", accent: "bg-slate-600" },
+    { status: "preparing", title: "조리 중", accent: "bg-blue-600" },
+    { status: "ready", title: "픽업 대기", accent: "bg-emerald-600" },
+  ];
+
+/**
+ * 주방 화면 (?mode=kitchen): 결제된 주문을 단계별로 보여주고 탭해서 다음 단계로 넘김
+ */
+export default function KitchenDisplay() {
+  const { tickets, isOnline, advance } = useKitchenTickets();
+  const [now, setNow] = useState(0);
+
+  // 경과 시간 표시용 시계
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const first = window.setTimeout(tick, 0);
+    const timer = window.setInterval(tick, 1000);
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-100">
+      <header className="flex items-center justify-between px-6 py-4 bg-white border-b-2 border-slate-200">
+        <div className="flex items-center gap-3">
+          <ChefHat className="w-8 h-8 text-slate-700" />
+          <h1 className="text-3xl font-bold text-slate-800">주방 주문 현황</h1>
+        </div>
+        {!isOnline && (
+          <span className="flex items-center gap-2 rounded-full bg-red-100 px-4 py-2 text-lg font-semibold text-red-700">
+            <WifiOff className="w-5 h-5" />
+            서버 연결 끊김 · 마지막 목록 표시 중
+          </span>
+        )}
+      </header>
+
+      <div className="flex-1 grid grid-cols-3 gap-4 p-4 min-h-0">
+        {COLUMNS.map((column) => {
+          const columnTickets = tickets.filter(
+            (ticket) => ticket.status === column.status
+          );
+          return (
+            <section key={column.status} className="flex flex-col min-h-0">
+              <h2
+                className={`flex items-center justify-between rounded-xl px-4 py-3 text-2xl font-bold text-white ${column.accent}`}
+              >
+                {column.title}
+                <span>{columnTickets.length}</span>
+              </h2>
+              <div className="flex-1 overflow-y-auto space-y-4 pt-4">
+                {columnTickets.map((ticket) => (
+                  <KitchenTicketCard
+                    key={ticket.orderId}
+                    ticket={ticket}
+                    now={now}
+                    onAdvance={advance}
+                  />
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { ChevronRight, Clock } from "lucide-react";
+import type { KitchenTicket, KitchenTicketStatus } from "../types";
+import {
+  formatElapsed,
+  getElapsedLevel,
+  getNextTicketStatus,
+  type ElapsedLevel,
+} from "../utils/kitchen";
+
+interface KitchenTicketCardProps {
+  ticket: KitchenTicket;
+  // 0 이면 아직 시계가 시작되지 않은 상태 (경과 시간 숨김)
+  now: number;
+  onAdvance: (ticket: KitchenTicket) => void;
+}
+
+// 다음 단계로 넘기는 버튼 문구
+const ADVANCE_LABELS: Partial<Record<KitchenTicketStatus, string>> = {
+  preparing: "조리 시작",
+  ready: "조리 완료",
+  pickedUp: "픽업 완료",
+};
+
+const ELAPSED_STYLES: Record<ElapsedLevel, string> = {
+  normal: "border-slate-200",
+  warning: "border-amber-400 bg-amber-50",
+  critical: "border-red-500 bg-red-50 animate-pulse",
+};
+
+const ELAPSED_TEXT_STYLES: Record<ElapsedLevel, string> = {
+  normal: "text-slate-500",
+  warning: "text-amber-600",
+  critical: "text-red-600",
+};
+
+export default function KitchenTicketCard({
+  ticket,
+  now,
+  onAdvance,
+}: KitchenTicketCardProps) {
+  const elapsedMs = now > 0 ? now - ticket.createdAt : 0;
+  // 픽업 대기 중인 주문은 조리가 끝났으므로 강조하지 않음
+  const level =
+    ticket.status === "ready" ? "normal" : getElapsedLevel(elapsedMs);
+  const nextStatus = getNextTicketStatus(ticket.status);
+
+  return (
+    <div
+      className={`rounded-2xl border-2 bg-white shadow-sm flex flex-col ${ELAPSED_STYLES[level]}`}
+    >
+      <div className="flex items-center justify-between px-4 pt-4">
+        <div className="flex items-baseline gap-3">
+          <span className="text-4xl font-bold text-slate-800">
+            {ticket.orderNumber ?? "-"}
+          </span>
+          <span
+            className={`rounded-full px-3 py-1 text-base font-bold ${
+              ticket.orderType === "takeout"
+                ? "bg-purple-100 text-purple-700"
+                : "bg-blue-100 text-blue-700"
+            }`}
+          >
+            {ticket.orderType === "takeout" ? "포장" : "매장"}
+          </span>
+        </div>
+        {now > 0 && (
+          <span
+            className={`flex items-center gap-1 text-xl font-semibold tabular-nums ${ELAPSED_TEXT_STYLES[level]}`}
+          >
+            <Clock className="w-5 h-5" />
+            {formatElapsed(elapsedMs)}
+          </span>
+        )}
+      </div>
+
+      <ul className="flex-1 px-4 py-3 space-y-2">
+        {ticket.items.map((item, index) => (
+          <li key={`${item.name}-${index}`}>
+            <p className="text-2xl font-semibold text-slate-800">
+              {item.name}
+              <span className="ml-2 text-blue-600">×{item.qty}</span>
+            </p>
+            {item.options.length > 0 && (
+              <p className="text-lg text-slate-500">
+                {item.options.join(", ")}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {nextStatus && (
+        <button
+          onClick={() => onAdvance(ticket)}
+          className="m-4 mt-0 flex items-center justify-center gap-1 rounded-xl bg-slate-800 hover:bg-slate-700 py-3 text-xl font-bold text-white transition-colors"
+        >
+          {ADVANCE_LABELS[nextStatus]}
+          <ChevronRight className="w-6 h-6" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Delete, Gift, Loader2, Stamp, X } from "lucide-react";
+import { motion } from "framer-motion";
+import type { LoyaltyAccount, LoyaltyMember } from "../types";
+import { lookupLoyalty } from "../lib/api";
+import { toApiError, type ApiErrorKind } from "../lib/apiClient";
+import { formatPhoneNumber, isValidPhone } from "../utils/loyalty";
+import { useI18n } from "../hooks/useI18n";
+import {
+  ANIMATION_VARIANTS,
+  TRANSITION_DEFAULTS,
+} from "../constants/animations";
+
+interface LoyaltyModalProps {
+  member: LoyaltyMember | null;
+  // 장바구니에 음료가 있어야 무료 음료 쿠폰을 쓸 수 있음
+  hasDrink: boolean;
+  onApply: (member: LoyaltyMember) => void;
+  onClose: () => void;
+}
+
+const MAX_PHONE_DIGITS = 11;
+const KEYPAD = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "clear", "0", "back"];
+
+type LookupState =
+  | { status: "idle" | "loading" | "invalid" }
+  | { status: "failed"; kind: ApiErrorKind }
+  | { status: "found"; account: LoyaltyAccount };
+
+/**
+ * 스탬프 적립용 전화번호 입력 (화면 키패드)
+ */
+export default function LoyaltyModal({
+  member,
+  hasDrink,
+  onApply,
+  onClose,
+}: LoyaltyModalProps) {
+  const { t } = useI18n();
+  const [digits, setDigits] = useState(member?.phone ?? "");
+  const [lookup, setLookup] = useState<LookupState>(
+    member ? { status: "found", account: member.account } : { status: "idle" }
+  );
+  const [useReward, setUseReward] = useState(member?.useReward ?? false);
+
+  const handleKey = (key: string) => {
+    setLookup({ status: "idle" });
+    setUseReward(false);
+    if (key === "clear") setDigits("");
+    else if (key === "back") setDigits((prev) => prev.slice(0, -1));
+    else setDigits((prev) => (prev.length < MAX_PHONE_DIGITS ? prev + key : prev));
+  };
+
+  const handleLookup = async () => {
+    if (!isValidPhone(digits)) {
+      setLookup({ status: "invalid" });
+      return;
+    }
+    setLookup({ status: "loading" });
+    try {
+      const account = await lookupLoyalty(digits);
+      setLookup(account ? { status: "found", account } : { status: "invalid" });
+    } catch (error) {
+      console.warn("[Loyalty] 스탬프 조회 실패:", error);
+      setLookup({ status: "failed", kind: toApiError(error).kind });
+    }
+  };
+
+  const account = lookup.status === "found" ? lookup.account : null;
+
+  return (
+    <motion.div
+      {...ANIMATION_VARIANTS.fadeIn}
+      transition={TRANSITION_DEFAULTS.fast}
+      className="absolute inset-0 z-50 bg-slate-900/50 flex items-end"
+      onClick={onClose}
+    >
+      <motion.div
+        {...ANIMATION_VARIANTS.slideUp}
+        transition={TRANSITION_DEFAULTS.spring}
+        className="w-full bg-white rounded-t-3xl shadow-2xl p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-4">
+          <Stamp className="w-10 h-10 text-blue-600 shrink-0" />
+          <div className="flex-1">
+            <h2 className="text-3xl font-bold text-slate-800">
+              {t("loyalty.title")}
+            </h2>
+            <p className="text-lg text-slate-500 mt-1">{t("loyalty.subtitle")}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-full bg-slate-100 hover:bg-slate-200 flex items-center justify-center transition-colors"
+          >
+            <X className="w-7 h-7 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-20 rounded-2xl border-2 border-slate-200 bg-slate-50 flex items-center justify-center text-4xl font-bold tracking-wider text-slate-800">
+            {formatPhoneNumber(digits) || "010-"}
+          </div>
+          <button
+            onClick={handleLookup}
+            disabled={digits.length === 0 || lookup.status === "loading"}
+            className="h-20 px-8 rounded-2xl bg-slate-800 text-white text-2xl font-bold disabled:opacity-40"
+          >
+            {lookup.status === "loading" ? (
+              <Loader2 className="w-8 h-8 animate-spin" />
+            ) : (
+              t("loyalty.lookup")
+            )}
+          </button>
+        </div>
+
+        {lookup.status === "invalid" && (
+          <p className="text-lg text-red-500">{t("loyalty.invalid")}</p>
+        )}
+        {lookup.status === "failed" && (
+          <p className="text-lg text-red-500">
+            {t("loyalty.failed")}
+            <span className="block text-base">{t(`apiError.${lookup.kind}`)}</span>
+          </p>
+        )}
+
+        {account && (
+          <div className="rounded-2xl bg-blue-50 p-4 space-y-3">
+            <div className="flex items-center justify-between text-xl">
+              <span className="font-semibold text-slate-700">
+                {account.maskedPhone}
+              </span>
+              <span className="font-bold text-blue-600">
+                {t("loyalty.balance", {
+                  stamps: account.stamps % account.threshold,
+                  threshold: account.threshold,
+                })}
+              </span>
+            </div>
+            {account.rewards > 0 && (
+              <>
+                <p className="flex items-center gap-2 text-lg text-slate-700">
+                  <Gift className="w-6 h-6 text-rose-500" />
+                  {t("loyalty.rewardAvailable", { count: account.rewards })}
+                </p>
+                {hasDrink ? (
+                  <label className="flex items-center gap-3 text-xl font-semibold text-slate-800">
+                    <input
+                      type="checkbox"
+                      checked={useReward}
+                      onChange={(e) => setUseReward(e.target.checked)}
+                      className="w-7 h-7"
+                    />
+                    {t("loyalty.useReward")}
+                  </label>
+                ) : (
+                  <p className="text-base text-slate-500">{t("loyalty.noDrink")}</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          {KEYPAD.map((key) => (
+            <button
+              key={key}
+              onClick={() => handleKey(key)}
+              className="h-16 rounded-xl bg-slate-100 hover:bg-slate-200 text-3xl font-bold text-slate-800 flex items-center justify-center transition-colors"
+            >
+              {key === "back" ? (
+                <Delete className="w-8 h-8" />
+              ) : key === "clear" ? (
+                <span className="text-xl">{t("loyalty.clear")}</span>
+              ) : (
+                key
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={onClose}
+            className="py-5 rounded-2xl bg-slate-100 text-2xl font-bold text-slate-700"
+          >
+            {t("loyalty.cancel")}
+          </button>
+          <button
+            onClick={() =>
+              account && onApply({ phone: digits, account, useReward: hasDrink && useReward })
+            }
+            disabled={!account}
+            className="py-5 rounded-2xl bg-linear-to-r from-blue-500 to-purple-500 text-white text-2xl font-bold disabled:opacity-50"
+          >
+            {t("loyalty.apply")}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,32 +1,55 @@
 import { memo } from "react";
 import { ImageWithFallback } from "./ui/ImageWithFallback";
 import type { MenuItemType } from "../types";
+import { useI18n } from "../hooks/useI18n";
+import { resolveImageUrl } from "../lib/api";
 
 interface MenuItemProps {
   item: MenuItemType;
+  isSoldOut?: boolean;
   onAdd: (item: MenuItemType) => void;
 }
 
-function MenuItem({ item, onAdd }: MenuItemProps) {
+function MenuItem({ item, isSoldOut = false, onAdd }: MenuItemProps) {
+  const { t, price, name } = useI18n();
+
   return (
     <button
       onClick={() => onAdd(item)}
-      className="group relative bg-white rounded-xl shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden flex flex-col"
+      disabled={isSoldOut}
+      className="group relative bg-white rounded-xl shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden flex flex-col disabled:cursor-not-allowed disabled:shadow-none disabled:hover:shadow-none"
     >
-      <div className="aspect-square overflow-hidden bg-slate-100">
+      <div className="relative aspect-square overflow-hidden bg-slate-100">
         <ImageWithFallback
-          src={item.image}
-          alt={item.name}
-          className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
+          src={resolveImageUrl(item.image)}
+          alt={name(item)}
+          className={`w-full h-full object-cover transition-transform duration-300 ${
+            isSoldOut ? "grayscale opacity-60" : "group-hover:scale-110"
+          }`}
         />
+        {isSoldOut && (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-900/40">
+            <span className="px-3 py-1 rounded-full bg-red-500 text-white text-base font-bold shadow">
+              {t("menu.soldOut")}
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="p-2 flex-1 flex flex-col justify-between">
-        <h3 className="text-base font-semibold text-slate-800 mb-1 leading-tight">
-          {item.name}
+        <h3
+          className={`text-base font-semibold mb-1 leading-tight ${
+            isSoldOut ? "text-slate-400" : "text-slate-800"
+          }`}
+        >
+          {name(item)}
         </h3>
-        <p className="text-base font-bold text-blue-600">
-          {item.price.toLocaleString()}원
+        <p
+          className={`text-base font-bold ${
+            isSoldOut ? "text-slate-400 line-through" : "text-blue-600"
+          }`}
+        >
+          {price(item.price)}
         </p>
       </div>
     </button>
@@ -1,11 +1,37 @@
 import { useState, useMemo, useCallback } from "react";
-import { ArrowLeft } from "lucide-react";
-import { motion } from "framer-motion";
+import { AlertTriangle, ArrowLeft } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
 import MenuItem from "./MenuItem";
 import Cart from "./Cart";
-import type { CartItem, MenuItemType, OrderType } from "../types";
-import { MENU_DATA, CATEGORIES } from "../constants/menu";
-import { addItemToCart, calculateTotalPrice } from "../utils/cart";
+import OptionPickerModal from "./OptionPickerModal";
+import LoyaltyModal from "./LoyaltyModal";
+import type {
+  CartItem,
+  CartPricing,
+  LoyaltyMember,
+  MenuItemType,
+  OrderType,
+  SelectedOption,
+} from "../types";
+import { useCatalog } from "../hooks/useCatalog";
+import { useI18n } from "../hooks/useI18n";
+import { useAccessibility } from "../hooks/useAccessibility";
+import { useInventory } from "../hooks/useInventory";
+import { useCartPricing } from "../hooks/useCartPricing";
+import { checkInventory } from "../lib/api";
+import { withAllCategory } from "../lib/catalog";
+import {
+  addItemToCart,
+  isSoldOut,
+  removeItemFromCart,
+  updateItemQuantity,
+} from "../utils/cart";
+import { hasOptions } from "../utils/options";
+import {
+  buildLoyaltyStamps,
+  buildRewardPromotion,
+  countStampItems,
+} from "../utils/loyalty";
 import {
   ANIMATION_VARIANTS,
   TRANSITION_DEFAULTS,
@@ -13,46 +39,115 @@ import {
 
 interface MenuScreenProps {
   orderType: OrderType;
+  initialItems?: CartItem[];
+  initialLoyalty?: LoyaltyMember | null;
   onBack: () => void;
-  onCheckout: (items: CartItem[], totalPrice: number) => void;
+  onCheckout: (
+    items: CartItem[],
+    pricing: CartPricing,
+    loyalty: LoyaltyMember | null
+  ) => void;
 }
 
 export default function MenuScreen({
   orderType,
+  initialItems = [],
+  initialLoyalty = null,
   onBack,
   onCheckout,
 }: MenuScreenProps) {
   const [selectedCategory, setSelectedCategory] = useState("all");
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [cartItems, setCartItems] = useState<CartItem[]>(initialItems);
+  const [optionTarget, setOptionTarget] = useState<MenuItemType | null>(null);
+  const [isCheckingStock, setIsCheckingStock] = useState(false);
+  const [shortageNames, setShortageNames] = useState<string[] | null>(null);
+  const [loyalty, setLoyalty] = useState<LoyaltyMember | null>(initialLoyalty);
+  const [isLoyaltyOpen, setIsLoyaltyOpen] = useState(false);
+  const { t, name } = useI18n();
+  const { isAccessible } = useAccessibility();
+  const { catalog } = useCatalog();
+  const { inventory, applyUnavailable } = useInventory();
+  // 무료 음료 쿠폰은 카탈로그 프로모션 뒤에 할인 한 건으로 추가
+  const promotions = useMemo(() => {
+    const reward = buildRewardPromotion(loyalty, cartItems);
+    const base = catalog.promotions ?? [];
+    return reward ? [...base, reward] : base;
+  }, [catalog, loyalty, cartItems]);
+  const pricing = useCartPricing(cartItems, promotions);
+  const stampCount = buildLoyaltyStamps(loyalty, cartItems)?.stamps ?? 0;
+
+  const categories = useMemo(
+    () => withAllCategory(catalog.categories),
+    [catalog]
+  );
 
   const filteredMenu = useMemo(
     () =>
       selectedCategory === "all"
-        ? MENU_DATA
-        : MENU_DATA.filter((item) => item.category === selectedCategory),
-    [selectedCategory]
+        ? catalog.items
+        : catalog.items.filter((item) => item.category === selectedCategory),
+    [catalog, selectedCategory]
   );
 
-  const handleAddToCart = useCallback((item: MenuItemType) => {
-    setCartItems((prev) => addItemToCart(prev, item));
-  }, []);
+  // 옵션이 있는 메뉴는 옵션 선택 모달을 먼저 띄움
+  const handleSelectItem = useCallback(
+    (item: MenuItemType) => {
+      if (isSoldOut(inventory, item.id)) return;
+      if (hasOptions(item)) {
+        setOptionTarget(item);
+        return;
+      }
+      setCartItems((prev) => addItemToCart(prev, item));
+    },
+    [inventory]
+  );
 
-  const handleUpdateQuantity = useCallback((id: string, quantity: number) => {
-    setCartItems((prev) =>
-      prev.map((item) => (item.id === id ? { ...item, quantity } : item))
-    );
-  }, []);
+  const handleConfirmOptions = useCallback(
+    (item: MenuItemType, options: SelectedOption[]) => {
+      setCartItems((prev) => addItemToCart(prev, item, options));
+      setOptionTarget(null);
+    },
+    []
+  );
+
+  const handleUpdateQuantity = useCallback(
+    (lineId: string, quantity: number) => {
+      setCartItems((prev) => updateItemQuantity(prev, lineId, quantity));
+    },
+    []
+  );
 
-  const handleRemoveItem = useCallback((id: string) => {
-    setCartItems((prev) => prev.filter((item) => item.id !== id));
+  const handleRemoveItem = useCallback((lineId: string) => {
+    setCartItems((prev) => removeItemFromCart(prev, lineId));
   }, []);
 
-  const handleCheckout = useCallback(() => {
-    onCheckout(cartItems, calculateTotalPrice(cartItems));
-  }, [cartItems, onCheckout]);
+  // 메뉴를 고르는 동안 품절된 항목이 없는지 결제 직전에 다시 확인
+  const handleCheckout = useCallback(async () => {
+    setIsCheckingStock(true);
+    setShortageNames(null);
+    try {
+      const { ok, unavailable } = await checkInventory(cartItems);
+      if (!ok) {
+        applyUnavailable(unavailable);
+        setShortageNames(
+          unavailable.flatMap((line) => {
+            const item = cartItems.find((cartItem) => cartItem.id === line.id);
+            return item ? [name(item)] : [];
+          })
+        );
+        return;
+      }
+    } catch (error) {
+      // 재고 서버에 연결할 수 없으면 판매를 막지 않고 진행
+      console.warn("[Inventory] 재고 확인 실패, 결제를 계속 진행합니다:", error);
+    } finally {
+      setIsCheckingStock(false);
+    }
+    onCheckout(cartItems, pricing, loyalty);
+  }, [cartItems, pricing, loyalty, onCheckout, applyUnavailable, name]);
 
   return (
-    <div className="h-full flex flex-col">
+    <div className="relative h-full flex flex-col">
       <div className="flex-1 flex flex-col p-4 overflow-hidden">
         {/* 헤더 */}
         <motion.div
@@ -65,7 +160,7 @@ export default function MenuScreen({
             className="flex items-center gap-2 text-lg text-slate-600 hover:text-slate-800 transition-colors"
           >
             <ArrowLeft className="w-5 h-5" />
-            <span>처음으로</span>
+            <span>{t("menu.back")}</span>
           </button>
         </motion.div>
 
@@ -75,7 +170,7 @@ export default function MenuScreen({
           transition={{ ...TRANSITION_DEFAULTS.smooth, delay: 0.2 }}
           className="flex gap-2 mb-4"
         >
-          {CATEGORIES.map((category) => (
+          {categories.map((category) => (
             <button
               key={category.id}
               onClick={() => setSelectedCategory(category.id)}
@@ -85,16 +180,25 @@ export default function MenuScreen({
                   : "bg-white text-slate-600 hover:bg-slate-50"
               }`}
             >
-              {category.name}
+              {name(category)}
             </button>
           ))}
         </motion.div>
 
         {/* 메뉴판 */}
         <div className="flex-1 overflow-y-auto pr-2">
-          <div className="grid grid-cols-4 gap-3 pb-4">
+          <div
+            className={`grid gap-3 pb-4 ${
+              isAccessible ? "grid-cols-3" : "grid-cols-4"
+            }`}
+          >
             {filteredMenu.map((item) => (
-              <MenuItem key={item.id} item={item} onAdd={handleAddToCart} />
+              <MenuItem
+                key={item.id}
+                item={item}
+                isSoldOut={isSoldOut(inventory, item.id)}
+                onAdd={handleSelectItem}
+              />
             ))}
           </div>
         </div>
@@ -104,16 +208,74 @@ export default function MenuScreen({
       <motion.div
         {...ANIMATION_VARIANTS.slideUp}
         transition={{ ...TRANSITION_DEFAULTS.smooth, delay: 0.1 }}
-        className="h-[480px] border-t-2 border-slate-200"
+        className={`border-t-2 border-slate-200 ${
+          isAccessible ? "h-[360px]" : "h-[480px]"
+        }`}
       >
         <Cart
           items={cartItems}
+          pricing={pricing}
           orderType={orderType}
+          loyalty={loyalty}
+          stampCount={stampCount}
+          onOpenLoyalty={() => setIsLoyaltyOpen(true)}
+          onRemoveLoyalty={() => setLoyalty(null)}
           onUpdateQuantity={handleUpdateQuantity}
           onRemove={handleRemoveItem}
           onCheckout={handleCheckout}
+          isCheckoutPending={isCheckingStock}
         />
       </motion.div>
+
+      {/* 재고 부족 안내 */}
+      <AnimatePresence>
+        {shortageNames && (
+          <motion.div
+            {...ANIMATION_VARIANTS.slideDown}
+            exit={{ opacity: 0, y: -20 }}
+            transition={TRANSITION_DEFAULTS.fast}
+            className="absolute top-4 left-4 right-4 z-40 bg-red-50 border-2 border-red-200 rounded-2xl p-4 flex items-center gap-3 shadow-lg"
+          >
+            <AlertTriangle className="w-7 h-7 text-red-500 shrink-0" />
+            <p className="flex-1 text-lg font-semibold text-red-700">
+              {t("menu.stockShortage", { names: shortageNames.join(", ") })}
+            </p>
+            <button
+              onClick={() => setShortageNames(null)}
+              className="px-4 py-2 rounded-xl bg-white text-red-600 font-bold border border-red-200"
+            >
+              {t("common.confirm")}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* 옵션 선택 */}
+      <AnimatePresence>
+        {optionTarget && (
+          <OptionPickerModal
+            key={optionTarget.id}
+            item={optionTarget}
+            onConfirm={handleConfirmOptions}
+            onClose={() => setOptionTarget(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* 스탬프 적립 */}
+      <AnimatePresence>
+        {isLoyaltyOpen && (
+          <LoyaltyModal
+            member={loyalty}
+            hasDrink={countStampItems(cartItems) > 0}
+            onApply={(member) => {
+              setLoyalty(member);
+              setIsLoyaltyOpen(false);
+            }}
+            onClose={() => setIsLoyaltyOpen(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
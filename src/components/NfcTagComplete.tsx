@@ -6,16 +6,21 @@ import {
   ANIMATION_VARIANTS,
   NFC_TRANSITIONS,
 } from "../constants/animations";
+import { useI18n } from "../hooks/useI18n";
 
 interface NfcTagCompleteScreenProps {
   onComplete: () => void;
   title?: string;
+  orderNumber?: number | null;
 }
 
 export default function NfcTagCompleteScreen({
   onComplete,
-  title = "전송 완료",
+  title,
+  orderNumber = null,
 }: NfcTagCompleteScreenProps) {
+  const { t } = useI18n();
+
   useEffect(() => {
     const timer = setTimeout(onComplete, TIMINGS.NFC_COMPLETE_TIMEOUT_MS);
     return () => clearTimeout(timer);
@@ -52,15 +57,30 @@ export default function NfcTagCompleteScreen({
           transition={{ delay: 0.3, duration: 0.5 }}
           className="text-4xl font-bold text-slate-900 mb-4"
         >
-          {title}
+          {title ?? t("complete.sent")}
         </motion.h1>
 
+        {orderNumber !== null && (
+          <motion.div
+            {...ANIMATION_VARIANTS.fadeInUp}
+            transition={{ delay: 0.4, duration: 0.5 }}
+            className="mt-6 rounded-3xl bg-white shadow-xl px-16 py-8"
+          >
+            <p className="text-2xl font-semibold text-slate-500">
+              {t("order.number")}
+            </p>
+            <p className="text-8xl font-extrabold text-slate-900 mt-2">
+              {orderNumber}
+            </p>
+          </motion.div>
+        )}
+
         <motion.p
           {...ANIMATION_VARIANTS.fadeIn}
           transition={{ delay: 0.5, duration: 0.5 }}
           className="text-lg text-slate-400 mt-8"
         >
-          3초 후 자동으로 처음 화면으로 돌아갑니다
+          {t("complete.autoReturn")}
         </motion.p>
       </motion.div>
     </div>
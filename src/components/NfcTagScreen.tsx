@@ -1,97 +1,257 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
-import { Smartphone } from "lucide-react";
+import { Clock, QrCode, RotateCcw, Smartphone, XCircle } from "lucide-react";
 import {
   NFC_ANIMATIONS,
   NFC_TRANSITIONS,
   ANIMATION_VARIANTS,
+  TIMINGS,
 } from "../constants/animations";
-import { createNfcSession, getNfcSessionStatus } from "../lib/api";
-import { useRef } from "react";
+import { completeNfcSession, createNfcSession } from "../lib/api";
+import type { ApiError } from "../lib/apiClient";
+import { useI18n } from "../hooks/useI18n";
+import { useNfcSessionStatus } from "../hooks/useNfcSessionStatus";
+import ReceiptQrCode from "./ReceiptQrCode";
 
 interface NfcTagScreenProps {
-  receiptUrl: string;
+  // 주문 API 의 외부 영수증 링크 (자체 영수증 페이지만 있으면 null)
+  receiptUrl: string | null;
+  orderId: string;
   onTagComplete: () => void;
-  onTagFailed?: (error: string) => void;
+  // 영수증 없이 종료하거나, 만료 / 실패 후 아무 선택이 없을 때 처음 화면으로
+  onFinish: () => void;
+}
+
+// waiting: 태그 대기 / expired, failed: 재시도·QR·종료 선택 / qr: QR 로만 받기
+type TagPhase = "waiting" | "expired" | "failed" | "qr";
+
+interface CreatedSession {
+  sessionId: string;
+  qrUrl: string | null;
+  // 세션이 끝난 뒤 QR 로만 보여줄 영수증 주소
+  directReceiptUrl: string | null;
+  expiresAt?: string;
 }
 
 const LOADING_DOTS_DELAYS = [0, 0.3, 0.6] as const;
 
+const formatRemaining = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
 export default function NfcTagScreen({
   receiptUrl,
+  orderId,
   onTagComplete,
-  onTagFailed,
+  onFinish,
 }: NfcTagScreenProps) {
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const [status, setStatus] = useState<string>("pending");
-  const POLL_INTERVAL_MS = 1500;
-  const initOnceRef = useRef(false);
+  // 다시 시도할 때마다 새 세션 생성
+  const [attempt, setAttempt] = useState(0);
+  const [created, setCreated] = useState<CreatedSession | null>(null);
+  const [createError, setCreateError] = useState<ApiError | null>(null);
+  const [isQrOnly, setIsQrOnly] = useState(false);
+  const [now, setNow] = useState(0);
+  // 재시도해도 같은 주문이면 세션 ID 가 같으므로 시도 횟수로 구독을 구분
+  const session = useNfcSessionStatus(created?.sessionId ?? null, attempt);
+  const status = session?.status ?? "pending";
+  const initAttemptRef = useRef<number | null>(null);
+  const completedRef = useRef(false);
+  const { t } = useI18n();
 
   // 1. NFC 세션 생성
   useEffect(() => {
-    if (initOnceRef.current) return;
-    initOnceRef.current = true;
+    if (initAttemptRef.current === attempt) return;
+    initAttemptRef.current = attempt;
     const initSession = async () => {
-      console.log(`[NFC] Creating session for receipt URL: ${receiptUrl}`);
-      const result = await createNfcSession(receiptUrl);
-      const sid = result.sessionId || "latest";
-      console.log(`[NFC] Session ready: ${sid}`);
-      setSessionId(sid);
+      console.log(`[NFC] Creating session for order: ${orderId}`);
+      const result = await createNfcSession(receiptUrl, {
+        orderId,
+        ttlSeconds: Math.round(TIMINGS.NFC_SESSION_TTL_MS / 1000),
+      });
+      if (!result.success) {
+        console.error("[NFC] 세션 생성 실패:", result.error);
+        setCreateError(result.error);
+        return;
+      }
+      console.log(`[NFC] Session ready: ${result.sessionId}`);
+      const directReceiptUrl = result.directReceiptUrl ?? receiptUrl;
+      setCreated({
+        sessionId: result.sessionId,
+        // 세션별 QR 링크가 없으면 영수증 주소를 그대로 QR 로 표시
+        qrUrl: result.qrUrl ?? directReceiptUrl,
+        directReceiptUrl,
+        expiresAt: result.expiresAt,
+      });
     };
     initSession();
-  }, [receiptUrl, onTagFailed]);
+  }, [receiptUrl, orderId, attempt]);
 
-  // 2. 상태 폴링으로 완료 감지
+  // 2. 상태 변경(푸시 또는 폴링)으로 완료 감지
   useEffect(() => {
-    if (!sessionId) return;
-    let timer: number | undefined;
-    let stopped = false;
-
-    const pollStatus = async () => {
-      try {
-        const res = await getNfcSessionStatus(sessionId);
-        if (!res) return;
-        setStatus(res.status);
-
-        if (res.status === "scanned" || res.status === "completed") {
-          stopped = true;
-          onTagComplete();
-        }
-      } catch (error) {
-        console.error("[NFC] 폴링 중 오류:", error);
-        onTagFailed?.("NFC 상태 확인 중 오류가 발생했습니다.");
-      } finally {
-        if (!stopped) {
-          timer = window.setTimeout(pollStatus, POLL_INTERVAL_MS);
-        }
-      }
-    };
+    if (!session || completedRef.current) return;
+    if (session.status !== "scanned" && session.status !== "completed") return;
 
-    pollStatus();
+    completedRef.current = true;
+    if (session.status === "scanned") {
+      // 완료 확인은 화면 전환을 막지 않도록 기다리지 않음
+      void completeNfcSession(session.sessionId);
+    }
+    onTagComplete();
+  }, [session, onTagComplete]);
 
+  // 3. 서버 만료 시각 기준 카운트다운
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const first = window.setTimeout(tick, 0);
+    const timer = window.setInterval(tick, 1000);
     return () => {
-      stopped = true;
-      if (timer) window.clearTimeout(timer);
+      window.clearTimeout(first);
+      window.clearInterval(timer);
     };
-  }, [sessionId, onTagComplete, onTagFailed]);
+  }, []);
+
+  const expiresAt = session?.expiresAt ?? created?.expiresAt;
+  const remainingSeconds =
+    expiresAt && now > 0
+      ? Math.max(Math.ceil((new Date(expiresAt).getTime() - now) / 1000), 0)
+      : null;
+
+  let phase: TagPhase = "waiting";
+  if (isQrOnly) phase = "qr";
+  else if (createError || status === "failed") phase = "failed";
+  else if (status === "expired" || remainingSeconds === 0) phase = "expired";
+
+  // 4. 만료 / 실패 / QR 화면에서 선택이 없으면 처음 화면으로
+  useEffect(() => {
+    if (phase === "waiting") return;
+    const timer = window.setTimeout(
+      onFinish,
+      phase === "qr" ? TIMINGS.NFC_QR_FALLBACK_MS : TIMINGS.NFC_TAG_TIMEOUT_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [phase, onFinish]);
+
+  // 세션 생성에 실패했으면 외부 링크만 QR 로 보여줄 수 있음
+  const fallbackQrUrl = created?.directReceiptUrl ?? receiptUrl;
+  const waitingQrUrl = created ? created.qrUrl : receiptUrl;
+
+  const handleRetry = () => {
+    completedRef.current = false;
+    setCreated(null);
+    setCreateError(null);
+    setIsQrOnly(false);
+    setAttempt((prev) => prev + 1);
+  };
 
-  // 3. 상태별 메시지
+  // 5. 상태별 메시지
   const getStatusMessage = () => {
     switch (status) {
       case "pending":
-        return "NFC 준비 중...";
+        return t("nfc.status.pending");
       case "ready":
-        return "휴대폰을 태그해 주세요";
+        return t("nfc.status.ready");
       case "tagging":
-        return "데이터 전송 중...";
+        return t("nfc.status.tagging");
       case "scanned":
       case "completed":
-        return "전송이 완료되었습니다";
+        return t("nfc.status.done");
       default:
-        return "휴대폰을 태그해 주세요";
+        return t("nfc.status.ready");
     }
   };
 
+  if (phase === "qr" && fallbackQrUrl) {
+    return (
+      <div className="h-full flex items-center justify-center p-12">
+        <motion.div
+          {...ANIMATION_VARIANTS.scaleIn}
+          transition={{ duration: 0.5 }}
+          className="w-full max-w-xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+        >
+          <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8 text-center">
+            <QrCode className="w-16 h-16 text-white mx-auto mb-3" />
+            <h1 className="text-2xl font-bold text-white">
+              {t("nfc.qrOnly.title")}
+            </h1>
+          </div>
+          <div className="p-10 flex flex-col items-center">
+            {/* 세션 링크는 만료되었으므로 영수증 주소를 직접 표시 */}
+            <ReceiptQrCode value={fallbackQrUrl} className="w-64 h-64" />
+            <button
+              onClick={onFinish}
+              className="mt-8 w-full bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-4 rounded-xl transition-all duration-300 text-2xl font-bold"
+            >
+              {t("nfc.qrOnly.done")}
+            </button>
+            <p className="text-center text-slate-400 mt-5 text-lg">
+              {t("nfc.autoReturn", {
+                seconds: TIMINGS.NFC_QR_FALLBACK_MS / 1000,
+              })}
+            </p>
+          </div>
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (phase === "expired" || phase === "failed") {
+    const Icon = phase === "expired" ? Clock : XCircle;
+    return (
+      <div className="h-full flex items-center justify-center p-12">
+        <motion.div
+          {...ANIMATION_VARIANTS.scaleIn}
+          transition={{ duration: 0.5 }}
+          className="w-full max-w-xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+        >
+          <div className="bg-linear-to-r from-rose-500 to-orange-500 p-8 text-center">
+            <Icon className="w-16 h-16 text-white mx-auto mb-3" />
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {t(phase === "expired" ? "nfc.expired.title" : "nfc.failed.title")}
+            </h1>
+            <p className="text-xl text-white/90">
+              {t("nfc.expired.description")}
+            </p>
+            {phase === "failed" && createError && (
+              <p className="text-lg text-white/80 mt-2">
+                {t(`apiError.${createError.kind}`)}
+              </p>
+            )}
+          </div>
+          <div className="p-10">
+            <div className="flex flex-col gap-4">
+              <button
+                onClick={handleRetry}
+                className="bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-4 rounded-xl transition-all duration-300 flex items-center justify-center gap-3 text-2xl font-bold"
+              >
+                <RotateCcw className="w-7 h-7" />
+                {t("nfc.retry")}
+              </button>
+              {fallbackQrUrl && (
+                <button
+                  onClick={() => setIsQrOnly(true)}
+                  className="bg-white text-slate-800 py-4 rounded-xl border border-slate-200 hover:bg-slate-50 transition-all duration-200 flex items-center justify-center gap-3 text-2xl font-bold"
+                >
+                  <QrCode className="w-7 h-7" />
+                  {t("nfc.showQr")}
+                </button>
+              )}
+              <button
+                onClick={onFinish}
+                className="bg-white text-slate-500 py-4 rounded-xl border border-slate-200 hover:bg-slate-50 transition-all duration-200 text-2xl font-bold"
+              >
+                {t("nfc.finish")}
+              </button>
+            </div>
+            <p className="text-center text-slate-400 mt-5 text-lg">
+              {t("nfc.autoReturn", {
+                seconds: TIMINGS.NFC_TAG_TIMEOUT_MS / 1000,
+              })}
+            </p>
+          </div>
+        </motion.div>
+      </div>
+    );
+  }
+
   return (
     <div className="h-full flex items-center justify-center p-12">
       <motion.div
@@ -102,9 +262,9 @@ export default function NfcTagScreen({
         {/* 헤더 */}
         <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8 text-center">
           <h1 className="text-2xl font-bold text-white mb-2">
-            영수증 전송중
+            {t("nfc.title")}
           </h1>
-          <p className="text-xl text-white/90">NFC로 데이터를 전송합니다</p>
+          <p className="text-xl text-white/90">{t("nfc.subtitle")}</p>
         </div>
 
         {/* NFC 태그 */}
@@ -140,9 +300,14 @@ export default function NfcTagScreen({
             {getStatusMessage()}
           </h2>
           <p className="text-lg text-slate-600 mb-2">
-            키오스크 하단의 NFC 리더기에
+            {t("nfc.guide.line1")}
           </p>
-          <p className="text-lg text-slate-600">휴대폰을 가까이 대주세요</p>
+          <p className="text-lg text-slate-600">{t("nfc.guide.line2")}</p>
+          {remainingSeconds !== null && (
+            <p className="mt-4 text-xl font-semibold text-slate-500">
+              {t("nfc.remaining", { time: formatRemaining(remainingSeconds) })}
+            </p>
+          )}
 
           {/* 로딩 */}
           <div className="mt-12 flex justify-center gap-2">
@@ -157,21 +322,17 @@ export default function NfcTagScreen({
           </div>
 
           {/* NFC 미지원 사용자용 QR 코드 안내 */}
-          <div className="mt-12 bg-slate-50 border border-slate-200 rounded-2xl px-6 py-5 inline-flex items-center gap-5 text-left">
-            <div className="w-32 h-32 rounded-xl overflow-hidden border border-slate-200 bg-white shadow-sm">
-              <img
-                src="/images/qr_code.png"
-                alt="QR code for receipt"
-                className="w-full h-full object-cover"
-              />
-            </div>
-            <div className="text-slate-800">
-              <p className="text-lg font-semibold mb-2">NFC스캔이 어려우신가요?</p>
-              <p className="text-sm text-slate-600 leading-relaxed">
-                QR 스캔하여 영수증을 받아보실 수 있습니다.
-              </p>
+          {waitingQrUrl && (
+            <div className="mt-12 bg-slate-50 border border-slate-200 rounded-2xl px-6 py-5 inline-flex items-center gap-5 text-left">
+              <ReceiptQrCode value={waitingQrUrl} expiresAt={expiresAt} />
+              <div className="text-slate-800">
+                <p className="text-lg font-semibold mb-2">{t("nfc.qr.title")}</p>
+                <p className="text-sm text-slate-600 leading-relaxed">
+                  {t("nfc.qr.description")}
+                </p>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </motion.div>
     </div>
@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { Check, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { ImageWithFallback } from "./ui/ImageWithFallback";
+import type { MenuItemType, SelectedOption } from "../types";
+import { useI18n } from "../hooks/useI18n";
+import { resolveImageUrl } from "../lib/api";
+import {
+  calculateOptionsPrice,
+  getDefaultSelection,
+  getInvalidGroups,
+  toggleOption,
+  toSelectedOptions,
+} from "../utils/options";
+import {
+  ANIMATION_VARIANTS,
+  TRANSITION_DEFAULTS,
+} from "../constants/animations";
+
+interface OptionPickerModalProps {
+  item: MenuItemType;
+  onConfirm: (item: MenuItemType, options: SelectedOption[]) => void;
+  onClose: () => void;
+}
+
+export default function OptionPickerModal({
+  item,
+  onConfirm,
+  onClose,
+}: OptionPickerModalProps) {
+  const { t, price, name } = useI18n();
+  const groups = useMemo(() => item.optionGroups ?? [], [item]);
+  const [selection, setSelection] = useState(() => getDefaultSelection(item));
+
+  const selectedOptions = useMemo(
+    () => toSelectedOptions(item, selection),
+    [item, selection]
+  );
+  const invalidGroups = useMemo(
+    () => getInvalidGroups(groups, selection),
+    [groups, selection]
+  );
+  const unitPrice = item.price + calculateOptionsPrice(selectedOptions);
+
+  return (
+    <motion.div
+      {...ANIMATION_VARIANTS.fadeIn}
+      transition={TRANSITION_DEFAULTS.fast}
+      className="absolute inset-0 z-50 bg-slate-900/50 flex items-end"
+      onClick={onClose}
+    >
+      <motion.div
+        {...ANIMATION_VARIANTS.slideUp}
+        transition={TRANSITION_DEFAULTS.spring}
+        className="w-full max-h-[85%] bg-white rounded-t-3xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 헤더 */}
+        <div className="flex items-center gap-4 p-6 border-b-2 border-slate-100">
+          <div className="w-24 h-24 rounded-xl overflow-hidden bg-slate-100 shrink-0">
+            <ImageWithFallback
+              src={resolveImageUrl(item.image)}
+              alt={name(item)}
+              className="w-full h-full object-cover"
+            />
+          </div>
+          <div className="flex-1">
+            <h2 className="text-3xl font-bold text-slate-800">{name(item)}</h2>
+            <p className="text-xl font-bold text-blue-600 mt-1">
+              {price(item.price)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-full bg-slate-100 hover:bg-slate-200 flex items-center justify-center transition-colors"
+          >
+            <X className="w-7 h-7 text-slate-600" />
+          </button>
+        </div>
+
+        {/* 옵션 그룹 */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {groups.map((group) => {
+            const selected = selection[group.id] ?? [];
+            const isInvalid = invalidGroups.includes(group);
+            return (
+              <div key={group.id}>
+                <div className="flex items-baseline gap-2 mb-3">
+                  <h3 className="text-2xl font-bold text-slate-800">
+                    {name(group)}
+                  </h3>
+                  <span
+                    className={`text-base font-semibold ${
+                      group.required ? "text-red-500" : "text-slate-400"
+                    }`}
+                  >
+                    {group.required
+                      ? t("options.required")
+                      : t("options.optional")}
+                    {group.selectionType === "multi" &&
+                      ` · ${t("options.maxSelect", { max: group.maxSelect })}`}
+                  </span>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  {group.options.map((option) => {
+                    const isSelected = selected.includes(option.id);
+                    return (
+                      <button
+                        key={option.id}
+                        onClick={() =>
+                          setSelection((prev) =>
+                            toggleOption(prev, group, option.id)
+                          )
+                        }
+                        className={`relative rounded-xl border-2 px-3 py-4 text-center transition-all duration-200 ${
+                          isSelected
+                            ? "border-blue-500 bg-blue-50"
+                            : "border-slate-200 bg-white hover:bg-slate-50"
+                        }`}
+                      >
+                        {isSelected && (
+                          <Check className="absolute top-2 right-2 w-5 h-5 text-blue-600" />
+                        )}
+                        <p className="text-xl font-semibold text-slate-800">
+                          {name(option)}
+                        </p>
+                        {option.priceDelta !== 0 && (
+                          <p className="text-base text-slate-500 mt-1">
+                            +{price(option.priceDelta)}
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+                {isInvalid && (
+                  <p className="text-base text-red-500 mt-2">
+                    {t("options.pleaseSelect", { group: name(group) })}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* 담기 버튼 */}
+        <div className="p-6 border-t-2 border-slate-100">
+          <button
+            onClick={() => onConfirm(item, selectedOptions)}
+            disabled={invalidGroups.length > 0}
+            className="w-full bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 disabled:opacity-50 text-white py-5 rounded-2xl transition-all duration-300 text-3xl font-bold disabled:cursor-not-allowed"
+          >
+            {t("options.add", { price: price(unitPrice) })}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
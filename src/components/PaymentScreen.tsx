@@ -1,129 +1,491 @@
-import { useEffect, useState } from "react";
-import { CheckCircle, Loader2 } from "lucide-react";
-import type { CartItem, OrderType } from "../types";
-import { sendOrderData } from "../lib/api";
-import { TIMINGS } from "../constants/animations";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CheckCircle, CreditCard, Loader2, XCircle } from "lucide-react";
+import { motion } from "framer-motion";
+import type {
+  CartItem,
+  CartPricing,
+  LoyaltyMember,
+  OrderType,
+  PaymentResult,
+  PlacedOrder,
+  PrintFailureReason,
+} from "../types";
+import {
+  buildOrderPayload,
+  consumeInventory,
+  createOrderId,
+  issueOrderNumber,
+  type OrderPayload,
+} from "../lib/api";
+import {
+  KITCHEN_TICKET_ENABLED,
+  printKitchenTicket,
+  printReceipt,
+} from "../lib/printer";
+import { submitOrder } from "../lib/orderQueue";
+import { calculateTaxBreakdown } from "../utils/tax";
+import { buildLoyaltyStamps } from "../utils/loyalty";
+import { toInventoryLines } from "../utils/cart";
+import {
+  cancelApprovedPayment,
+  getPaymentProvider,
+  requestPaymentWithTimeout,
+} from "../lib/payment";
+import { NFC_ANIMATIONS, NFC_TRANSITIONS, TIMINGS } from "../constants/animations";
+import { useI18n } from "../hooks/useI18n";
 
 interface PaymentScreenProps {
   orderType: OrderType;
   items: CartItem[];
-  totalPrice: number;
-  onNfcTransfer: (receiptUrl: string) => void;
-  onPaperReceipt: () => void;
+  // 장바구니에서 확정한 할인 / 결제 금액
+  pricing: CartPricing;
+  // 전화번호를 입력했으면 결제 후 스탬프 적립 / 쿠폰 사용
+  loyalty?: LoyaltyMember | null;
+  onNfcTransfer: (order: PlacedOrder) => void;
+  onPaperReceipt: (order: PlacedOrder) => void;
+  onCancel: () => void;
+  // 단말 승인 대기 / 주문 전송처럼 중단하면 안 되는 구간인지 알림
+  onBusyChange?: (busy: boolean) => void;
 }
 
+// requesting: 단말 승인 대기 → submitting: 승인 후 재고 차감 / 주문 전송 → complete
+// 승인되지 않으면 failed 에서 재시도 / 주문 화면 복귀 선택
+// 승인 사이에 다른 키오스크 주문으로 재고가 모자라면 soldOut (승인 취소 후 주문 화면으로)
+type PaymentPhase = "requesting" | "submitting" | "complete" | "failed" | "soldOut";
+
+// 품절로 주문을 받지 못했을 때 승인 취소 결과 (manual: 직원이 직접 환불해야 함)
+type SoldOutRefund = "cancelled" | "manual";
+
+// 종이 영수증 출력 상태 (실패하면 이유를 안내하고 다시 시도할 수 있음)
+type PrintState = "idle" | "printing" | PrintFailureReason;
+
 export default function PaymentScreen({
   orderType,
   items,
-  totalPrice,
+  pricing,
+  loyalty = null,
   onNfcTransfer,
   onPaperReceipt,
+  onCancel,
+  onBusyChange,
 }: PaymentScreenProps) {
-  const [isPaymentComplete, setIsPaymentComplete] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [receiptUrl, setReceiptUrl] = useState<string | null>(null);
+  const [phase, setPhase] = useState<PaymentPhase>("requesting");
+  const [attempt, setAttempt] = useState(0);
+  const [payment, setPayment] = useState<PaymentResult | null>(null);
+  const [soldOutRefund, setSoldOutRefund] = useState<SoldOutRefund | null>(null);
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  const [isOrderQueued, setIsOrderQueued] = useState(false);
+  const [orderPayload, setOrderPayload] = useState<OrderPayload | null>(null);
+  const [printState, setPrintState] = useState<PrintState>("idle");
+  // 주방 주문표가 프린터에 전달되지 않았으면 직원에게 알리도록 안내
+  const [kitchenPrintFailed, setKitchenPrintFailed] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { language, t, price, name } = useI18n();
+  const taxBreakdown = useMemo(
+    () => calculateTaxBreakdown(items, pricing.lineDiscounts),
+    [items, pricing]
+  );
 
-  // 1) 결제 처리: 결제 화면 진입 시 한 번만 실행 (items/price/type 변경 시에만 재실행)
+  // 1) 결제 처리: 단말 승인 → 승인된 경우에만 주문 전송 (재시도 시 attempt 증가로 재실행)
   useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     let isActive = true;
 
     const processPayment = async () => {
-      console.log("processPayment");
-      setIsLoading(true);
+      const orderName =
+        items.length > 1
+          ? `${items[0].name} 외 ${items.length - 1}건`
+          : items[0]?.name ?? "";
+      const provider = getPaymentProvider();
+      const paymentRequest = { amount: pricing.total, orderName };
+      const result = await requestPaymentWithTimeout(provider, paymentRequest, {
+        signal: controller.signal,
+      });
+      if (!isActive) return;
+
+      setPayment(result);
+      if (result.outcome !== "approved") {
+        console.warn("결제 미승인:", result.outcome, result.message);
+        setPhase("failed");
+        return;
+      }
+
+      // 승인 이후에는 화면이 바뀌어도 주문 전송을 끝까지 진행
+      setPhase("submitting");
+      const orderId = createOrderId();
+      // 주문을 만들기 전에 재고부터 차감 (같은 주문 ID 는 서버에서 한 번만 차감)
+      const inventoryLines = toInventoryLines(items);
+      const consumed = await consumeInventory(orderId, inventoryLines);
+      if (!consumed.success && consumed.unavailable.length > 0) {
+        // 결제하는 사이 품절됨: 화면을 벗어났더라도 승인은 취소
+        console.warn("결제 후 재고 부족, 승인 취소:", consumed.unavailable);
+        const cancelled = await cancelApprovedPayment(provider, paymentRequest, result);
+        if (!isActive) return;
+        setSoldOutRefund(cancelled ? "cancelled" : "manual");
+        setPhase("soldOut");
+        return;
+      }
+      // 번호 발급에 실패해도 결제된 주문은 번호 없이 전송
+      const issued = await issueOrderNumber(orderId);
+      const placed: PlacedOrder = {
+        orderId,
+        orderNumber: issued?.orderNumber ?? null,
+        businessDate: issued?.businessDate ?? null,
+        receiptUrl: null,
+        hasReceiptPage: false,
+      };
+      const payload = buildOrderPayload(
+        items,
+        pricing,
+        orderType,
+        result,
+        placed
+      );
+      if (KITCHEN_TICKET_ENABLED) {
+        void printKitchenTicket(payload).then((printed) => {
+          if (printed.success) return;
+          console.error(
+            `주방 주문표 출력 실패 (${printed.reason}), 주문:`,
+            payload.order_id,
+            placed.orderNumber
+          );
+          if (isActive) setKitchenPrintFailed(true);
+        });
+      }
       try {
-        const result = await sendOrderData(items, totalPrice, orderType);
+        // 주방 티켓도 큐에서 주문 전송과 함께 보내고, 실패하면 재시도 (차감하지 못한 재고도 큐에서 재시도)
+        const order = await submitOrder(
+          payload,
+          buildLoyaltyStamps(loyalty, items) ?? undefined,
+          consumed.success ? undefined : inventoryLines
+        );
         if (!isActive) return;
 
-        if (result.success && result.shortUrl) {
-          console.log("주문 데이터 전송 성공 (short_url):", result.shortUrl);
-          setReceiptUrl(result.shortUrl);
+        // 매출 기록이 저장됐으면 자체 영수증 페이지, 아니면 주문 API 의 외부 링크로 전달
+        placed.hasReceiptPage = order.recorded;
+        if (order.success) {
+          console.log("주문 데이터 전송 성공 (short_url):", order.shortUrl);
+          placed.receiptUrl = order.shortUrl;
         } else {
+          // 큐에 남아 백그라운드에서 재전송됨
           console.error(
-            "주문 데이터 전송 실패:",
-            result.error ?? "알 수 없는 오류"
+            "주문 데이터 전송 실패, 재전송 대기:",
+            order.error ?? "알 수 없는 오류"
           );
+          setIsOrderQueued(true);
         }
       } catch (error) {
-        if (!isActive) return;
-        console.error("결제 처리 중 오류:", error);
-      } finally {
-        if (!isActive) return;
-        setIsPaymentComplete(true);
-        setIsLoading(false);
+        console.error("주문 전송 중 오류:", error);
+        if (isActive) setIsOrderQueued(true);
       }
+      if (!isActive) return;
+      setOrderPayload(payload);
+      setPlacedOrder(placed);
+      setPhase("complete");
     };
 
     processPayment();
 
     return () => {
       isActive = false;
+      controller.abort();
     };
-  }, [items, totalPrice, orderType]);
+  }, [items, pricing, loyalty, orderType, attempt]);
+
+  useEffect(() => {
+    onBusyChange?.(phase === "requesting" || phase === "submitting");
+  }, [phase, onBusyChange]);
+
+  useEffect(() => () => onBusyChange?.(false), [onBusyChange]);
 
-  // 2) 자동 리다이렉트: receiptUrl 이 준비된 후 일정 시간 뒤에 NFC 화면으로 전환
+  // 자체 영수증 페이지나 외부 링크 중 하나라도 있으면 모바일 영수증 전달 가능
+  const canSendMobileReceipt = Boolean(
+    placedOrder?.hasReceiptPage || placedOrder?.receiptUrl
+  );
+
+  // 2) 자동 리다이렉트: 모바일 영수증이 준비된 후 일정 시간 뒤에 NFC 화면으로 전환
+  // 종이 영수증을 선택했거나 주방 주문표 출력에 실패했다면 안내를 봐야 하므로 넘어가지 않음
   useEffect(() => {
-    if (!receiptUrl) return;
+    if (
+      !placedOrder ||
+      !canSendMobileReceipt ||
+      printState !== "idle" ||
+      kitchenPrintFailed
+    ) {
+      return;
+    }
 
     const timer = setTimeout(() => {
-      onNfcTransfer(receiptUrl);
+      onNfcTransfer(placedOrder);
     }, TIMINGS.AUTO_REDIRECT_MS);
     return () => clearTimeout(timer);
-  }, [onNfcTransfer, receiptUrl]);
+  }, [onNfcTransfer, placedOrder, canSendMobileReceipt, printState, kitchenPrintFailed]);
+
+  // 프린터에 실제로 전달된 경우에만 발급 완료로 넘어감
+  const handlePaperReceipt = async () => {
+    if (!placedOrder || !orderPayload) return;
+    setPrintState("printing");
+    const result = await printReceipt(orderPayload);
+    if (result.success) {
+      onPaperReceipt(placedOrder);
+      return;
+    }
+    setPrintState(result.reason);
+  };
+
+  const handleRetry = () => {
+    setPayment(null);
+    setKitchenPrintFailed(false);
+    setPhase("requesting");
+    setAttempt((prev) => prev + 1);
+  };
+
+  const failureTitle =
+    payment && payment.outcome !== "approved"
+      ? t(`payment.failed.${payment.outcome}`)
+      : "";
 
   return (
     <div className="h-full flex items-center justify-center p-8">
       <div className="w-full max-w-xl bg-white rounded-3xl shadow-2xl overflow-hidden">
-        {/* 결제 완료 헤더 */}
-        <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8 text-center">
-          {isLoading ? (
-            <>
-              <Loader2 className="w-16 h-16 text-white mx-auto mb-3 animate-spin" />
-              <h1 className="text-2xl font-bold text-white mb-2">
-                결제 처리중...
-              </h1>
-              <p className="text-xl text-white/90">잠시만 기다려주세요</p>
-            </>
-          ) : (
-            <>
-              <CheckCircle className="w-16 h-16 text-white mx-auto mb-3" />
-              <h1 className="text-2xl font-bold text-white mb-2">
-                결제가 완료되었습니다
-              </h1>
-              <p className="text-xl text-white/90">이용해 주셔서 감사합니다</p>
-            </>
-          )}
-        </div>
+        {/* 상태 헤더 */}
+        {phase === "requesting" && (
+          <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8 text-center">
+            <motion.div
+              animate={NFC_ANIMATIONS.phoneFloat}
+              transition={NFC_TRANSITIONS.phoneFloat}
+            >
+              <CreditCard className="w-16 h-16 text-white mx-auto mb-3" />
+            </motion.div>
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {t("payment.requesting.title")}
+            </h1>
+            <p className="text-xl text-white/90">
+              {t("payment.requesting.amount", { amount: price(pricing.total) })}
+            </p>
+          </div>
+        )}
 
-        {/* 영수증 선택 */}
-        {!isLoading && isPaymentComplete && (
+        {phase === "submitting" && (
+          <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8 text-center">
+            <Loader2 className="w-16 h-16 text-white mx-auto mb-3 animate-spin" />
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {t("payment.processing.title")}
+            </h1>
+            <p className="text-xl text-white/90">
+              {t("payment.processing.subtitle")}
+            </p>
+          </div>
+        )}
+
+        {phase === "complete" && (
+          <div className="bg-linear-to-r from-blue-500 to-purple-500 p-8 text-center">
+            <CheckCircle className="w-16 h-16 text-white mx-auto mb-3" />
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {t("payment.complete.title")}
+            </h1>
+            <p className="text-xl text-white/90">
+              {t("payment.complete.subtitle")}
+            </p>
+          </div>
+        )}
+
+        {phase === "failed" && (
+          <div className="bg-linear-to-r from-rose-500 to-orange-500 p-8 text-center">
+            <XCircle className="w-16 h-16 text-white mx-auto mb-3" />
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {failureTitle}
+            </h1>
+            {/* 단말 메시지는 한국어로만 제공됨 */}
+            {language === "ko" && payment?.message && (
+              <p className="text-xl text-white/90">{payment.message}</p>
+            )}
+          </div>
+        )}
+
+        {phase === "soldOut" && (
+          <div className="bg-linear-to-r from-rose-500 to-orange-500 p-8 text-center">
+            <XCircle className="w-16 h-16 text-white mx-auto mb-3" />
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {t("payment.soldOut.title")}
+            </h1>
+            <p className="text-xl text-white/90">
+              {t(
+                soldOutRefund === "cancelled"
+                  ? "payment.soldOut.refunded"
+                  : "payment.soldOut.refundManual"
+              )}
+            </p>
+          </div>
+        )}
+
+        {/* 단말 대기 */}
+        {phase === "requesting" && (
+          <div className="p-8">
+            <p className="text-center text-slate-400 text-base mb-6">
+              {t("payment.requesting.guide")}
+            </p>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full bg-white text-slate-800 py-4 rounded-xl border border-slate-200 hover:bg-slate-50 transition-all duration-200 text-2xl font-bold"
+            >
+              {t("payment.cancel")}
+            </button>
+          </div>
+        )}
+
+        {phase === "submitting" && (
+          <div className="p-8">
+            <p className="text-center text-slate-400 text-base">
+              {t("payment.processing.guide")}
+            </p>
+          </div>
+        )}
+
+        {/* 결제 실패: 재시도 또는 주문 화면으로 */}
+        {phase === "failed" && (
           <div className="p-10">
             <div className="flex flex-col gap-4">
               <button
-                onClick={() => receiptUrl && onNfcTransfer(receiptUrl)}
-                disabled={!receiptUrl}
-                className="flex-1 bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-4 rounded-xl transition-all duration-300 flex items-center justify-center text-2xl font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleRetry}
+                className="flex-1 bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-4 rounded-xl transition-all duration-300 flex items-center justify-center text-2xl font-bold"
               >
-                영수증 발급받기
+                {t("payment.retry")}
               </button>
               <button
-                onClick={onPaperReceipt}
+                onClick={onCancel}
                 className="flex-1 bg-white text-slate-800 py-4 rounded-xl border border-slate-200 hover:bg-slate-50 transition-all duration-200 text-2xl font-bold"
               >
-                종이 영수증 발급받기
+                {t("payment.backToMenu")}
               </button>
             </div>
+          </div>
+        )}
 
-            <p className="text-center text-slate-400 mt-5 text-lg">
-              10초 후 자동으로 화면이 전환됩니다.
-            </p>
+        {/* 품절: 장바구니를 고치도록 주문 화면으로 */}
+        {phase === "soldOut" && (
+          <div className="p-10">
+            <button
+              onClick={onCancel}
+              className="w-full bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-4 rounded-xl transition-all duration-300 flex items-center justify-center text-2xl font-bold"
+            >
+              {t("payment.backToMenu")}
+            </button>
           </div>
         )}
 
-        {isLoading && (
-          <div className="p-8">
-            <p className="text-center text-slate-400 text-base">
-              주문 정보를 서버로 전송하는 중입니다...
-            </p>
+        {/* 영수증 선택 */}
+        {phase === "complete" && (
+          <div className="p-10">
+            {/* 주문번호: 픽업 호출에 쓰이므로 가장 크게 표시 */}
+            <div className="mb-6 text-center">
+              <p className="text-xl font-semibold text-slate-500">
+                {t("order.number")}
+              </p>
+              {placedOrder?.orderNumber != null ? (
+                <p className="text-7xl font-extrabold text-slate-900 mt-1">
+                  {placedOrder.orderNumber}
+                </p>
+              ) : (
+                <p className="text-lg text-amber-700 mt-2">
+                  {t("order.numberMissing")}
+                </p>
+              )}
+            </div>
+
+            {payment?.approvalNumber && (
+              <div className="mb-6 rounded-xl bg-slate-50 px-5 py-4 text-lg text-slate-600 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t("payment.supplyPrice")}</span>
+                  <span>{price(taxBreakdown.supplyPrice)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t("payment.vat")}</span>
+                  <span>{price(taxBreakdown.vat)}</span>
+                </div>
+                {taxBreakdown.exemptTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span>{t("payment.taxFree")}</span>
+                    <span>{price(taxBreakdown.exemptTotal)}</span>
+                  </div>
+                )}
+                {pricing.discounts.map((discount) => (
+                  <div key={discount.promotionId} className="flex justify-between">
+                    <span>
+                      {t("payment.discount")} · {name(discount)}
+                    </span>
+                    <span>-{price(discount.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-b border-slate-200 pb-2 mb-2">
+                  <span className="font-semibold text-slate-800">
+                    {t("payment.total")}
+                  </span>
+                  <span className="font-semibold text-slate-800">
+                    {price(taxBreakdown.total)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{payment.cardBrand}</span>
+                  <span className="font-semibold text-slate-800">
+                    {payment.maskedCardNumber}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t("payment.approvalNumber")}</span>
+                  <span className="font-semibold text-slate-800">
+                    {payment.approvalNumber}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {isOrderQueued && (
+              <p className="mb-6 rounded-xl bg-amber-50 px-5 py-4 text-lg text-amber-700">
+                {t("payment.queued")}
+              </p>
+            )}
+
+            {kitchenPrintFailed && (
+              <p className="mb-6 rounded-xl bg-red-50 px-5 py-4 text-lg text-red-700">
+                {t("payment.kitchenPrintFailed")}
+              </p>
+            )}
+
+            {printState !== "idle" && printState !== "printing" && (
+              <p className="mb-6 rounded-xl bg-red-50 px-5 py-4 text-lg text-red-700">
+                {t(`payment.printError.${printState}`)}
+              </p>
+            )}
+
+            <div className="flex flex-col gap-4">
+              <button
+                onClick={() =>
+                  placedOrder && canSendMobileReceipt && onNfcTransfer(placedOrder)
+                }
+                disabled={!canSendMobileReceipt}
+                className="flex-1 bg-linear-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white py-4 rounded-xl transition-all duration-300 flex items-center justify-center text-2xl font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t("payment.receipt")}
+              </button>
+              <button
+                onClick={handlePaperReceipt}
+                disabled={printState === "printing"}
+                className="flex-1 bg-white text-slate-800 py-4 rounded-xl border border-slate-200 hover:bg-slate-50 transition-all duration-200 text-2xl font-bold flex items-center justify-center gap-2 disabled:opacity-60"
+              >
+                {printState === "printing" && (
+                  <Loader2 className="w-7 h-7 animate-spin" />
+                )}
+                {t(printState === "printing" ? "payment.printing" : "payment.paperReceipt")}
+              </button>
+            </div>
+
+            {!kitchenPrintFailed && (
+              <p className="text-center text-slate-400 mt-5 text-lg">
+                {t("payment.autoRedirect")}
+              </p>
+            )}
           </div>
         )}
       </div>
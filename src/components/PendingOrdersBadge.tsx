@@ -0,0 +1,31 @@
+import { CloudOff } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { usePendingOrders } from "../hooks/usePendingOrders";
+import { ANIMATION_VARIANTS } from "../constants/animations";
+
+// 서버 전송 대기 중인 주문이 있을 때만 화면 구석에 작게 표시
+export default function PendingOrdersBadge() {
+  const { pending, rejected } = usePendingOrders();
+  const total = pending + rejected;
+
+  return (
+    <AnimatePresence>
+      {total > 0 && (
+        <motion.div
+          {...ANIMATION_VARIANTS.fadeIn}
+          className={`absolute bottom-3 left-3 z-50 flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-semibold shadow ${
+            rejected > 0
+              ? "bg-red-100 text-red-700"
+              : "bg-amber-100 text-amber-700"
+          }`}
+        >
+          <CloudOff className="w-4 h-4" />
+          <span>
+            미전송 주문 {total}건
+            {rejected > 0 && ` (확인 필요 ${rejected})`}
+          </span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
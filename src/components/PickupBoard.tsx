@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { WifiOff } from "lucide-react";
+import type { KitchenTicket } from "../types";
+import { useKitchenTickets } from "../hooks/useKitchenTickets";
+import { translate, type MessageKey } from "../i18n";
+import { playChime } from "../lib/chime";
+import {
+  ANIMATION_VARIANTS,
+  TIMINGS,
+  TRANSITION_DEFAULTS,
+} from "../constants/animations";
+
+// 픽업 대기 번호가 생기면 알림음 (VITE_PICKUP_CHIME=true 일 때만)
+const CHIME_ENABLED = import.meta.env.VITE_PICKUP_CHIME === "true";
+const READY_DISPLAY_MS =
+  Number(import.meta.env.VITE_PICKUP_READY_DISPLAY_MS) ||
+  TIMINGS.PICKUP_READY_DISPLAY_MS;
+
+// 매장 벽면 모니터는 언어를 고를 수 없으므로 한국어 / 영어를 함께 표시
+const bilingual = (key: MessageKey) => ({
+  primary: translate("ko", key),
+  secondary: translate("en", key),
+});
+
+interface NumberColumnProps {
+  titleKey: MessageKey;
+  tickets: KitchenTicket[];
+  className: string;
+  numberClassName: string;
+}
+
+function NumberColumn({
+  titleKey,
+  tickets,
+  className,
+  numberClassName,
+}: NumberColumnProps) {
+  const title = bilingual(titleKey);
+  const empty = bilingual("pickup.empty");
+
+  return (
+    <section className={`flex flex-col rounded-3xl p-8 min-h-0 ${className}`}>
+      <h2 className="text-6xl font-bold">{title.primary}</h2>
+      <p className="text-3xl font-semibold opacity-70 mt-2">{title.secondary}</p>
+      <div className="flex-1 grid grid-cols-4 auto-rows-min gap-6 mt-8 overflow-hidden">
+        <AnimatePresence>
+          {tickets.map((ticket) => (
+            <motion.div
+              key={ticket.orderId}
+              layout
+              {...ANIMATION_VARIANTS.scaleIn}
+              exit={ANIMATION_VARIANTS.fadeIn.exit}
+              transition={TRANSITION_DEFAULTS.spring}
+              className={`rounded-2xl py-6 text-center text-7xl font-bold tabular-nums ${numberClassName}`}
+            >
+              {ticket.orderNumber}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+      {tickets.length === 0 && (
+        <p className="text-3xl opacity-60">
+          {empty.primary} · {empty.secondary}
+        </p>
+      )}
+    </section>
+  );
+}
+
+/**
+ * 픽업 안내 화면 (?mode=pickup): 준비 중 / 픽업 대기 주문번호를 두 열로 표시
+ * 픽업 완료되면 주방 보드에서 빠지면서 사라지고, 오래 찾아가지 않은 번호는 일정 시간 뒤 숨김
+ */
+export default function PickupBoard() {
+  const { tickets, isOnline, isLoaded } = useKitchenTickets();
+  const [now, setNow] = useState(0);
+  const announcedRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const first = window.setTimeout(tick, 0);
+    const timer = window.setInterval(tick, 1000);
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  // 번호가 없는 주문은 손님이 찾을 수 없으므로 표시하지 않음
+  const numbered = useMemo(
+    () => tickets.filter((ticket) => ticket.orderNumber !== null),
+    [tickets]
+  );
+  const preparing = numbered.filter(
+    (ticket) => ticket.status === "received" || ticket.status === "preparing"
+  );
+  const ready = numbered.filter(
+    (ticket) =>
+      ticket.status === "ready" &&
+      (now === 0 || now - ticket.updatedAt < READY_DISPLAY_MS)
+  );
+
+  // 새로 픽업 대기가 된 번호가 있으면 알림음 (처음 불러온 목록은 제외)
+  useEffect(() => {
+    if (!isLoaded) return;
+    const readyIds = numbered
+      .filter((ticket) => ticket.status === "ready")
+      .map((ticket) => ticket.orderId);
+    const announced = announcedRef.current;
+    announcedRef.current = new Set(readyIds);
+    if (!announced || !CHIME_ENABLED) return;
+    if (readyIds.some((id) => !announced.has(id))) void playChime();
+  }, [numbered, isLoaded]);
+
+  return (
+    <div className="w-full h-full flex flex-col gap-6 p-8 bg-slate-900">
+      {!isOnline && (
+        <div className="flex items-center justify-center gap-2 rounded-full bg-red-100 py-2 text-2xl font-semibold text-red-700">
+          <WifiOff className="w-7 h-7" />
+          서버 연결 끊김
+        </div>
+      )}
+      <div className="flex-1 grid grid-cols-2 gap-8 min-h-0">
+        <NumberColumn
+          titleKey="pickup.preparing"
+          tickets={preparing}
+          className="bg-slate-800 text-slate-100"
+          numberClassName="bg-slate-700 text-white"
+        />
+        <NumberColumn
+          titleKey="pickup.ready"
+          tickets={ready}
+          className="bg-emerald-600 text-white"
+          numberClassName="bg-white text-emerald-700"
+        />
+      </div>
+    </div>
+  );
+}
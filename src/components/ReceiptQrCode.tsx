@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Clock } from "lucide-react";
+import { useI18n } from "../hooks/useI18n";
+
+interface ReceiptQrCodeProps {
+  // QR 에 담을 주소 (세션 링크 또는 영수증 주소)
+  value: string;
+  // 이 시각이 지나면 QR 을 가리고 만료 표시
+  expiresAt?: string;
+  className?: string;
+}
+
+// 화면 표시용 설정: 글자 수가 적은 URL 이므로 M 레벨로 모듈을 크게 유지하고
+// 표준 여백(4모듈)을 둬서 화면 반사나 테두리에 영향을 덜 받도록 함
+const QR_OPTIONS: QRCode.QRCodeToDataURLOptions = {
+  errorCorrectionLevel: "M",
+  margin: 4,
+  width: 256,
+  color: { dark: "#0f172a", light: "#ffffff" },
+};
+
+export default function ReceiptQrCode({
+  value,
+  expiresAt,
+  className = "w-32 h-32",
+}: ReceiptQrCodeProps) {
+  const { t } = useI18n();
+  const [image, setImage] = useState<{ value: string; dataUrl: string } | null>(
+    null
+  );
+  const [expiredAt, setExpiredAt] = useState<string | null>(null);
+
+  // 세션(주소)이 바뀌면 다시 생성
+  useEffect(() => {
+    let isActive = true;
+    QRCode.toDataURL(value, QR_OPTIONS)
+      .then((dataUrl) => {
+        if (isActive) setImage({ value, dataUrl });
+      })
+      .catch((error) => {
+        console.error("[QR] QR 코드 생성 실패:", error);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [value]);
+
+  // 만료 시각에 맞춰 만료 표시로 전환
+  useEffect(() => {
+    if (!expiresAt) return;
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now(), 0);
+    const timer = window.setTimeout(() => setExpiredAt(expiresAt), delay);
+    return () => window.clearTimeout(timer);
+  }, [expiresAt]);
+
+  const expired = expiresAt !== undefined && expiredAt === expiresAt;
+  const dataUrl = image?.value === value ? image.dataUrl : null;
+
+  return (
+    <div
+      className={`relative rounded-xl overflow-hidden border border-slate-200 bg-white shadow-sm ${className}`}
+    >
+      {dataUrl && (
+        <img
+          src={dataUrl}
+          alt="QR code for receipt"
+          className={`w-full h-full object-contain ${
+            expired ? "opacity-10 blur-[2px]" : ""
+          }`}
+        />
+      )}
+      {expired && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 text-center px-2">
+          <Clock className="w-7 h-7 text-slate-500" />
+          <span className="text-sm font-bold text-slate-700 leading-tight">
+            {t("nfc.qr.expired")}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
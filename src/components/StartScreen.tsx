@@ -1,6 +1,8 @@
-import { ShoppingBag, Store } from "lucide-react";
+import { Globe, ShoppingBag, Store } from "lucide-react";
 import { motion } from "framer-motion";
 import type { OrderType } from "../types";
+import { useI18n } from "../hooks/useI18n";
+import { LANGUAGES } from "../i18n";
 
 interface StartScreenProps {
   onSelect: (type: OrderType) => void;
@@ -10,7 +12,7 @@ const ORDER_OPTIONS = [
   {
     type: "takeout" as const,
     icon: ShoppingBag,
-    label: "포장",
+    labelKey: "start.takeout" as const,
     color: "blue",
     animationDelay: 0.1,
     slideFrom: -50,
@@ -18,7 +20,7 @@ const ORDER_OPTIONS = [
   {
     type: "dinein" as const,
     icon: Store,
-    label: "매장",
+    labelKey: "start.dinein" as const,
     color: "purple",
     animationDelay: 0.1,
     slideFrom: 50,
@@ -26,8 +28,33 @@ const ORDER_OPTIONS = [
 ];
 
 export default function StartScreen({ onSelect }: StartScreenProps) {
+  const { language, setLanguage, t } = useI18n();
+
   return (
     <div className="h-full flex flex-col items-center justify-around py-16 px-8 text-center">
+      {/* 언어 선택 */}
+      <motion.div
+        className="flex items-center gap-2"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.7, ease: "easeOut" }}
+      >
+        <Globe className="w-6 h-6 text-slate-500" aria-label={t("language.label")} />
+        {LANGUAGES.map((item) => (
+          <button
+            key={item.code}
+            onClick={() => setLanguage(item.code)}
+            className={`px-4 py-2 rounded-xl text-lg font-semibold transition-all duration-300 ${
+              language === item.code
+                ? "bg-linear-to-r from-blue-500 to-purple-500 text-white shadow-lg"
+                : "bg-white text-slate-600 hover:bg-slate-50"
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </motion.div>
+
       {/* 헤더 */}
       <motion.div
         initial={{ opacity: 0, y: -30 }}
@@ -35,9 +62,9 @@ export default function StartScreen({ onSelect }: StartScreenProps) {
         transition={{ duration: 0.7, ease: "easeOut" }}
       >
         <h1 className="text-5xl font-extrabold text-slate-800 mb-4 tracking-tight">
-          주문을 시작하시려면
+          {t("start.title")}
         </h1>
-        <p className="text-2xl text-slate-600">이용 방법을 선택해주세요</p>
+        <p className="text-2xl text-slate-600">{t("start.subtitle")}</p>
       </motion.div>
 
       {/* 선택 버튼 */}
@@ -69,7 +96,7 @@ export default function StartScreen({ onSelect }: StartScreenProps) {
                   />
                 </div>
                 <h2 className="text-4xl font-bold text-slate-800">
-                  {option.label}
+                  {t(option.labelKey)}
                 </h2>
               </div>
             </motion.button>
@@ -84,9 +111,7 @@ export default function StartScreen({ onSelect }: StartScreenProps) {
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.7, delay: 0.4, ease: "easeOut" }}
       >
-        <p className="text-lg text-slate-500">
-          도움이 필요하시면 직원을 호출해주세요
-        </p>
+        <p className="text-lg text-slate-500">{t("start.help")}</p>
       </motion.div>
     </div>
   );
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, LogOut, RotateCcw, Save, Settings } from "lucide-react";
+import type { AdminSession } from "../../types";
+import {
+  clearAdminSession,
+  loadAdminSession,
+  saveAdminSession,
+} from "../../lib/admin";
+import {
+  useAdminCatalog,
+  type AdminSaveState,
+} from "../../hooks/useAdminCatalog";
+import AdminLogin from "./AdminLogin";
+import CategoryEditor from "./CategoryEditor";
+import InventoryManager from "./InventoryManager";
+import KioskKeyManager from "./KioskKeyManager";
+import MenuItemList from "./MenuItemList";
+import SalesReportView from "./SalesReportView";
+
+type AdminTab = "items" | "categories" | "inventory" | "sales" | "kiosks";
+
+/**
+ * 매장 관리자 화면 (?mode=admin): 로그인 후 메뉴 / 카테고리 편집, 재고 / 품절 관리, 매출 조회, 키오스크 키 관리
+ */
+export default function AdminConsole() {
+  const [session, setSession] = useState<AdminSession | null>(loadAdminSession);
+
+  const handleLogin = (next: AdminSession) => {
+    saveAdminSession(next);
+    setSession(next);
+  };
+
+  const handleLogout = useCallback(() => {
+    clearAdminSession();
+    setSession(null);
+  }, []);
+
+  if (!session) return <AdminLogin onLogin={handleLogin} />;
+  return <CatalogEditor token={session.token} onLogout={handleLogout} />;
+}
+
+interface CatalogEditorProps {
+  token: string;
+  onLogout: () => void;
+}
+
+function CatalogEditor({ token, onLogout }: CatalogEditorProps) {
+  const [tab, setTab] = useState<AdminTab>("items");
+  const editor = useAdminCatalog(token, onLogout);
+  const { draft, isDirty, saveState } = editor;
+
+  // 저장하지 않은 변경이 있으면 창을 닫기 전에 확인
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isDirty]);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-100">
+      <header className="flex items-center gap-4 px-6 py-4 bg-white border-b-2 border-slate-200">
+        <Settings className="w-7 h-7 text-slate-700" />
+        <h1 className="text-2xl font-bold text-slate-800">매장 관리</h1>
+        {editor.baseVersion !== null && (
+          <span className="text-sm text-slate-400">버전 {editor.baseVersion}</span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {isDirty && (
+            <span className="text-sm font-semibold text-amber-600">저장 안 됨</span>
+          )}
+          <button
+            onClick={() => {
+              if (!isDirty || window.confirm("변경 내용을 버리고 다시 불러올까요?")) {
+                editor.reload();
+              }
+            }}
+            className="flex items-center gap-1 rounded-lg bg-slate-100 px-4 py-2 text-base font-semibold text-slate-700"
+          >
+            <RotateCcw className="w-5 h-5" />
+            다시 불러오기
+          </button>
+          <button
+            onClick={editor.save}
+            disabled={!isDirty || saveState.status === "saving"}
+            className="flex items-center gap-1 rounded-lg bg-blue-600 px-4 py-2 text-base font-bold text-white disabled:opacity-40"
+          >
+            {saveState.status === "saving" ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <Save className="w-5 h-5" />
+            )}
+            저장
+          </button>
+          <button
+            onClick={onLogout}
+            className="rounded-lg bg-slate-100 p-2 text-slate-600"
+            title="로그아웃"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <SaveStatus state={saveState} />
+
+      <nav className="flex gap-2 px-6 pt-4">
+        {(
+          [
+            ["items", "메뉴"],
+            ["categories", "카테고리"],
+            ["inventory", "재고"],
+            ["sales", "매출"],
+            ["kiosks", "키오스크"],
+          ] as const
+        ).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`rounded-t-xl px-6 py-3 text-lg font-bold ${
+              tab === id ? "bg-white text-slate-800" : "text-slate-500"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </nav>
+
+      <main className="flex-1 overflow-y-auto bg-white mx-6 mb-6 rounded-b-xl rounded-tr-xl p-6">
+        {tab === "sales" && (
+          <SalesReportView token={token} onUnauthorized={onLogout} />
+        )}
+        {tab === "kiosks" && (
+          <KioskKeyManager token={token} onUnauthorized={onLogout} />
+        )}
+        {tab !== "sales" && tab !== "kiosks" && !draft && editor.loadError && (
+          <p className="py-10 text-center text-red-600">
+            카탈로그를 불러오지 못했습니다. 서버 연결을 확인하고 다시 불러오세요.
+          </p>
+        )}
+        {tab !== "sales" && tab !== "kiosks" && !draft && !editor.loadError && (
+          <Loader2 className="mx-auto my-10 w-8 h-8 animate-spin text-slate-400" />
+        )}
+        {draft && tab === "items" && (
+          <MenuItemList
+            categories={draft.categories}
+            items={draft.items}
+            token={token}
+            onChange={editor.upsertItem}
+            onRemove={editor.removeItem}
+            onMove={editor.moveItem}
+          />
+        )}
+        {draft && tab === "inventory" && (
+          <InventoryManager
+            categories={draft.categories}
+            items={draft.items}
+            token={token}
+            onUnauthorized={onLogout}
+          />
+        )}
+        {draft && tab === "categories" && (
+          <CategoryEditor
+            categories={draft.categories}
+            items={draft.items}
+            onChange={editor.upsertCategory}
+            onRemove={editor.removeCategory}
+            onMove={editor.moveCategory}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+function SaveStatus({ state }: { state: AdminSaveState }) {
+  switch (state.status) {
+    case "saved":
+      return (
+        <p className="bg-emerald-50 px-6 py-2 text-base text-emerald-700">
+          저장했습니다 (버전 {state.version}). 키오스크에 1분 안에 반영됩니다.
+        </p>
+      );
+    case "invalid":
+      return (
+        <ul className="bg-red-50 px-6 py-2 text-sm text-red-700 list-disc list-inside">
+          {state.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      );
+    case "conflict":
+      return (
+        <p className="bg-amber-50 px-6 py-2 text-base text-amber-700">
+          다른 곳에서 메뉴가 먼저 저장되었습니다. 다시 불러온 뒤 수정해 주세요.
+        </p>
+      );
+    case "failed":
+      return (
+        <p className="bg-red-50 px-6 py-2 text-base text-red-700">
+          저장하지 못했습니다. 서버 연결을 확인해 주세요.
+        </p>
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,67 @@
+import { useState, type FormEvent } from "react";
+import { Loader2, Lock } from "lucide-react";
+import type { AdminSession } from "../../types";
+import { adminLogin } from "../../lib/api";
+import { describeApiError } from "../../lib/admin";
+
+interface AdminLoginProps {
+  onLogin: (session: AdminSession) => void;
+}
+
+export default function AdminLogin({ onLogin }: AdminLoginProps) {
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!password || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const session = await adminLogin(password);
+      if (session) {
+        onLogin(session);
+        return;
+      }
+      setError("비밀번호가 올바르지 않습니다.");
+    } catch (error) {
+      console.error("[Admin] 로그인 실패:", error);
+      setError(describeApiError(error));
+    } finally {
+      setIsSubmitting(false);
+      setPassword("");
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex items-center justify-center bg-slate-100">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-2xl bg-white p-8 shadow-lg space-y-5"
+      >
+        <div className="flex items-center gap-3">
+          <Lock className="w-7 h-7 text-slate-700" />
+          <h1 className="text-2xl font-bold text-slate-800">매장 관리자</h1>
+        </div>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="관리자 비밀번호"
+          autoFocus
+          className="w-full rounded-xl border-2 border-slate-200 px-4 py-3 text-lg focus:border-blue-500 focus:outline-none"
+        />
+        {error && <p className="text-base text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!password || isSubmitting}
+          className="w-full flex items-center justify-center gap-2 rounded-xl bg-slate-800 hover:bg-slate-700 disabled:opacity-50 py-3 text-lg font-bold text-white transition-colors"
+        >
+          {isSubmitting && <Loader2 className="w-5 h-5 animate-spin" />}
+          로그인
+        </button>
+      </form>
+    </div>
+  );
+}
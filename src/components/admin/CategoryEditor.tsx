@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import type { Category, Language, MenuItemType } from "../../types";
+
+interface CategoryEditorProps {
+  categories: Category[];
+  items: MenuItemType[];
+  onChange: (originalId: string | null, category: Category) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, delta: -1 | 1) => void;
+}
+
+// 한국어 이름(name) 외에 편집할 번역
+const TRANSLATIONS: { code: Exclude<Language, "ko">; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "zh", label: "中文" },
+  { code: "ja", label: "日本語" },
+];
+
+const inputClassName =
+  "w-full rounded-lg border-2 border-slate-200 px-3 py-2 text-base focus:border-blue-500 focus:outline-none";
+
+export default function CategoryEditor({
+  categories,
+  items,
+  onChange,
+  onRemove,
+  onMove,
+}: CategoryEditorProps) {
+  const [newId, setNewId] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const isNewIdTaken = categories.some((category) => category.id === newId);
+
+  const handleAdd = () => {
+    if (!newId || !newName || isNewIdTaken) return;
+    onChange(null, { id: newId.trim(), name: newName.trim() });
+    setNewId("");
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-4">
+      {categories.map((category, index) => {
+        const itemCount = items.filter(
+          (item) => item.category === category.id
+        ).length;
+        return (
+          <div
+            key={category.id}
+            className="rounded-xl border-2 border-slate-200 bg-white p-4 space-y-3"
+          >
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-sm text-slate-500">
+                {category.id}
+              </span>
+              <span className="text-sm text-slate-400">메뉴 {itemCount}개</span>
+              <div className="ml-auto flex gap-2">
+                <button
+                  onClick={() => onMove(category.id, -1)}
+                  disabled={index === 0}
+                  className="rounded-lg bg-slate-100 p-2 disabled:opacity-30"
+                  title="위로"
+                >
+                  <ArrowUp className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => onMove(category.id, 1)}
+                  disabled={index === categories.length - 1}
+                  className="rounded-lg bg-slate-100 p-2 disabled:opacity-30"
+                  title="아래로"
+                >
+                  <ArrowDown className="w-5 h-5" />
+                </button>
+                {/* 메뉴가 남아 있는 카테고리는 삭제할 수 없음 (서버 검증과 동일) */}
+                <button
+                  onClick={() => {
+                    if (window.confirm(`'${category.name}' 카테고리를 삭제할까요?`)) {
+                      onRemove(category.id);
+                    }
+                  }}
+                  disabled={itemCount > 0}
+                  className="rounded-lg bg-red-50 p-2 text-red-600 disabled:opacity-30"
+                  title={itemCount > 0 ? "메뉴를 먼저 옮기거나 삭제하세요" : "삭제"}
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <input
+                value={category.name}
+                onChange={(e) =>
+                  onChange(category.id, { ...category, name: e.target.value })
+                }
+                placeholder="이름 (한국어)"
+                className={inputClassName}
+              />
+              {TRANSLATIONS.map(({ code, label }) => (
+                <input
+                  key={code}
+                  value={category.names?.[code] ?? ""}
+                  onChange={(e) =>
+                    onChange(category.id, {
+                      ...category,
+                      names: { ...category.names, [code]: e.target.value },
+                    })
+                  }
+                  placeholder={label}
+                  className={inputClassName}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="rounded-xl border-2 border-dashed border-slate-300 p-4 space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={newId}
+            onChange={(e) => setNewId(e.target.value)}
+            placeholder="ID (영문, 예: tea)"
+            className={inputClassName}
+          />
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="이름 (한국어)"
+            className={inputClassName}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newId || !newName || isNewIdTaken}
+            className="shrink-0 flex items-center gap-1 rounded-lg bg-slate-800 px-4 text-white disabled:opacity-40"
+          >
+            <Plus className="w-5 h-5" />
+            추가
+          </button>
+        </div>
+        {isNewIdTaken && (
+          <p className="text-sm text-red-600">이미 있는 카테고리 ID 입니다.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { Ban, Check, Loader2, PackageCheck } from "lucide-react";
+import type {
+  Category,
+  Inventory,
+  InventoryStatus,
+  MenuItemType,
+} from "../../types";
+import { fetchAdminInventory, updateInventory } from "../../lib/api";
+import { describeApiError } from "../../lib/admin";
+
+interface InventoryManagerProps {
+  categories: Category[];
+  items: MenuItemType[];
+  token: string;
+  onUnauthorized: () => void;
+}
+
+type InventoryState =
+  | { status: "loading" }
+  | { status: "loaded"; inventory: Inventory }
+  | { status: "failed" };
+
+// 재고 기록이 없는 메뉴는 수량을 추적하지 않고 판매 중
+const EMPTY_STATUS: InventoryStatus = { stock: null, soldOut: false };
+
+/**
+ * 재고 관리: 메뉴별 재고 수량 입력 / 수동 품절 (저장 버튼 없이 바로 키오스크에 반영)
+ */
+export default function InventoryManager({
+  categories,
+  items,
+  token,
+  onUnauthorized,
+}: InventoryManagerProps) {
+  const [state, setState] = useState<InventoryState>({ status: "loading" });
+  const [categoryId, setCategoryId] = useState(categories[0]?.id ?? "");
+  // 입력 중인 재고 수량 (빈 칸이면 재고를 추적하지 않음)
+  const [stockDrafts, setStockDrafts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const inventory = await fetchAdminInventory(token);
+      if (!inventory) {
+        onUnauthorized();
+        return;
+      }
+      setState({ status: "loaded", inventory });
+      setStockDrafts({});
+    } catch (error) {
+      console.error("[Admin] 재고를 불러오지 못했습니다:", error);
+      setState({ status: "failed" });
+    }
+  }, [token, onUnauthorized]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const apply = async (item: MenuItemType, changes: Partial<InventoryStatus>) => {
+    setBusyId(item.id);
+    setMessage(null);
+    try {
+      const next = await updateInventory(token, item.id, changes);
+      if (!next) {
+        onUnauthorized();
+        return;
+      }
+      setState((current) =>
+        current.status === "loaded"
+          ? { ...current, inventory: { ...current.inventory, [item.id]: next } }
+          : current
+      );
+      setStockDrafts((drafts) => {
+        const rest = { ...drafts };
+        delete rest[item.id];
+        return rest;
+      });
+    } catch (error) {
+      console.error("[Admin] 재고 변경 실패:", error);
+      setMessage(`'${item.name}' 재고를 바꾸지 못했습니다. ${describeApiError(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApplyStock = (item: MenuItemType, draft: string) => {
+    const trimmed = draft.trim();
+    const stock = trimmed === "" ? null : Number(trimmed);
+    if (stock !== null && !(Number.isInteger(stock) && stock >= 0)) {
+      setMessage("재고 수량은 0 이상의 정수로 입력하거나, 추적하지 않으려면 비워 두세요.");
+      return;
+    }
+    // 재고를 다시 채우면 자동 품절도 해제
+    void apply(item, stock !== null && stock > 0 ? { stock, soldOut: false } : { stock });
+  };
+
+  if (state.status === "loading") {
+    return <Loader2 className="mx-auto my-10 w-8 h-8 animate-spin text-slate-400" />;
+  }
+  if (state.status === "failed") {
+    return (
+      <p className="py-10 text-center text-red-600">
+        재고를 불러오지 못했습니다. 서버 연결을 확인하고 다시 시도해 주세요.
+      </p>
+    );
+  }
+
+  const visibleItems = items.filter((item) => item.category === categoryId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {categories.map((category) => (
+          <button
+            key={category.id}
+            onClick={() => setCategoryId(category.id)}
+            className={`rounded-full px-4 py-2 text-base font-semibold ${
+              category.id === categoryId
+                ? "bg-slate-800 text-white"
+                : "bg-white text-slate-600"
+            }`}
+          >
+            {category.name}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-slate-500">
+        재고 변경은 위의 저장 버튼 없이 바로 키오스크에 반영됩니다.
+      </p>
+      {message && <p className="text-base text-red-600">{message}</p>}
+
+      {visibleItems.length === 0 && (
+        <p className="py-10 text-center text-slate-400">이 카테고리에 메뉴가 없습니다.</p>
+      )}
+
+      {visibleItems.map((item) => {
+        const current = state.inventory[item.id] ?? EMPTY_STATUS;
+        const draft = stockDrafts[item.id] ?? (current.stock === null ? "" : String(current.stock));
+        const isBusy = busyId === item.id;
+        return (
+          <div
+            key={item.id}
+            className="flex items-center gap-4 rounded-xl border-2 border-slate-200 bg-white p-3"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-lg font-semibold text-slate-800">
+                {item.name}
+                {current.soldOut && (
+                  <span className="ml-2 text-sm font-bold text-red-600">품절</span>
+                )}
+              </p>
+              <p className="text-base text-slate-500">
+                {current.stock === null ? "재고 추적 안 함" : `재고 ${current.stock}개`}
+              </p>
+            </div>
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={draft}
+              placeholder="추적 안 함"
+              onChange={(event) =>
+                setStockDrafts((drafts) => ({ ...drafts, [item.id]: event.target.value }))
+              }
+              className="w-32 rounded-lg border-2 border-slate-200 px-3 py-2 text-base"
+            />
+            <button
+              onClick={() => handleApplyStock(item, draft)}
+              disabled={isBusy || stockDrafts[item.id] === undefined}
+              className="flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-2 text-base font-bold text-white disabled:opacity-40"
+            >
+              <Check className="w-5 h-5" />
+              수량 적용
+            </button>
+            <button
+              onClick={() => apply(item, { soldOut: !current.soldOut })}
+              disabled={isBusy}
+              className={`flex w-32 items-center justify-center gap-1 rounded-lg px-3 py-2 text-base font-semibold disabled:opacity-40 ${
+                current.soldOut ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-600"
+              }`}
+            >
+              {isBusy ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : current.soldOut ? (
+                <PackageCheck className="w-5 h-5" />
+              ) : (
+                <Ban className="w-5 h-5" />
+              )}
+              {current.soldOut ? "판매 재개" : "품절 처리"}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
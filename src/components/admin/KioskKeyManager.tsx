@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, Loader2, ShieldOff, Trash2 } from "lucide-react";
+import type { KioskSummary } from "../../types";
+import {
+  KIOSK_ID,
+  fetchKiosks,
+  issueKioskKey,
+  revokeKioskKey,
+} from "../../lib/api";
+import {
+  clearKioskCredential,
+  loadKioskCredential,
+  saveKioskCredential,
+} from "../../lib/kioskAuth";
+import { describeApiError } from "../../lib/admin";
+
+interface KioskKeyManagerProps {
+  token: string;
+  onUnauthorized: () => void;
+}
+
+type ListState =
+  | { status: "loading" }
+  | { status: "loaded"; kiosks: KioskSummary[] }
+  | { status: "failed" };
+
+const formatTime = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleString("ko-KR");
+
+/**
+ * 키오스크 키 관리: 이 기기 등록 / 키 교체, 키오스크별 · 키별 폐기
+ */
+export default function KioskKeyManager({
+  token,
+  onUnauthorized,
+}: KioskKeyManagerProps) {
+  const [list, setList] = useState<ListState>({ status: "loading" });
+  const [ownKeyId, setOwnKeyId] = useState(
+    () => loadKioskCredential()?.keyId ?? null
+  );
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const kiosks = await fetchKiosks(token);
+      if (!kiosks) {
+        onUnauthorized();
+        return;
+      }
+      setList({ status: "loaded", kiosks });
+    } catch (error) {
+      console.error("[Admin] 키오스크 목록을 불러오지 못했습니다:", error);
+      setList({ status: "failed" });
+    }
+  }, [token, onUnauthorized]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await action());
+      await load();
+    } catch (error) {
+      console.error("[Admin] 키오스크 키 처리 실패:", error);
+      setMessage(`처리하지 못했습니다. ${describeApiError(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegister = () =>
+    run(async () => {
+      const credential = await issueKioskKey(token, KIOSK_ID);
+      saveKioskCredential(credential);
+      setOwnKeyId(credential.keyId);
+      return `이 기기(${KIOSK_ID})에 새 키 ${credential.keyId} 를 저장했습니다. 이전 키는 잠시 뒤 만료됩니다.`;
+    });
+
+  const handleRevoke = (kioskId: string, keyId?: string) => {
+    const target = keyId ? `'${kioskId}' 의 키 ${keyId}` : `'${kioskId}' 의 모든 키`;
+    if (!window.confirm(`${target} 를 폐기할까요? 폐기한 키로는 주문할 수 없습니다.`)) {
+      return;
+    }
+    return run(async () => {
+      await revokeKioskKey(token, kioskId, keyId);
+      // 이 기기의 키를 폐기했으면 기기에 남은 키도 지움
+      if (kioskId === KIOSK_ID && (!keyId || keyId === ownKeyId)) {
+        clearKioskCredential();
+        setOwnKeyId(null);
+      }
+      return `${target} 를 폐기했습니다.`;
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-xl border-2 border-slate-200 p-4 flex items-center gap-4">
+        <KeyRound className="w-8 h-8 text-slate-600" />
+        <div className="flex-1">
+          <p className="text-lg font-bold text-slate-800">이 기기: {KIOSK_ID}</p>
+          <p className="text-sm text-slate-500">
+            {ownKeyId ? `저장된 키 ${ownKeyId}` : "저장된 키 없음 (주문 요청이 거절됩니다)"}
+          </p>
+        </div>
+        <button
+          onClick={handleRegister}
+          disabled={busy}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-base font-bold text-white disabled:opacity-40"
+        >
+          {ownKeyId ? "키 교체" : "이 기기 등록"}
+        </button>
+      </section>
+
+      {message && <p className="text-base text-slate-700">{message}</p>}
+
+      {list.status === "loading" && (
+        <Loader2 className="mx-auto my-10 w-8 h-8 animate-spin text-slate-400" />
+      )}
+      {list.status === "failed" && (
+        <p className="py-10 text-center text-red-600">
+          키오스크 목록을 불러오지 못했습니다.
+        </p>
+      )}
+      {list.status === "loaded" && list.kiosks.length === 0 && (
+        <p className="py-10 text-center text-slate-400">등록된 키오스크가 없습니다.</p>
+      )}
+      {list.status === "loaded" &&
+        list.kiosks.map((kiosk) => (
+          <section
+            key={kiosk.kioskId}
+            className="rounded-xl border-2 border-slate-200 p-4 space-y-3"
+          >
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-lg font-bold text-slate-800">
+                {kiosk.kioskId}
+              </span>
+              <span className="text-sm text-slate-500">{kiosk.storeId}</span>
+              {kiosk.revokedAt && (
+                <span className="text-sm font-semibold text-red-600">
+                  폐기됨 ({formatTime(kiosk.revokedAt)})
+                </span>
+              )}
+              <button
+                onClick={() => handleRevoke(kiosk.kioskId)}
+                disabled={busy || Boolean(kiosk.revokedAt)}
+                className="ml-auto flex items-center gap-1 rounded-lg bg-red-50 px-3 py-2 text-sm font-semibold text-red-600 disabled:opacity-40"
+              >
+                <ShieldOff className="w-4 h-4" />
+                키오스크 폐기
+              </button>
+            </div>
+            <table className="w-full text-base">
+              <tbody>
+                {kiosk.keys.map((key) => (
+                  <tr key={key.keyId} className="border-b border-slate-100">
+                    <td className="py-2 font-mono text-slate-700">
+                      {key.keyId}
+                      {kiosk.kioskId === KIOSK_ID && key.keyId === ownKeyId && (
+                        <span className="ml-2 text-sm text-blue-600">이 기기</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-slate-500">
+                      발급 {formatTime(key.createdAt)}
+                    </td>
+                    <td className="py-2 text-slate-500">
+                      {key.expiresAt ? `만료 ${formatTime(key.expiresAt)}` : "사용 중"}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleRevoke(kiosk.kioskId, key.keyId)}
+                        disabled={busy}
+                        className="rounded-lg bg-slate-100 p-2 text-slate-600 disabled:opacity-30"
+                        title="이 키 폐기"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {kiosk.keys.length === 0 && (
+                  <tr>
+                    <td className="py-2 text-slate-400">사용할 수 있는 키 없음</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </section>
+        ))}
+    </div>
+  );
+}
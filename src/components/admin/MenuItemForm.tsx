@@ -0,0 +1,263 @@
+import { useState, type ChangeEvent } from "react";
+import { Loader2, Upload, X } from "lucide-react";
+import type { Category, Language, MenuItemType } from "../../types";
+import { resolveImageUrl, uploadMenuImage } from "../../lib/api";
+import { describeApiError } from "../../lib/admin";
+import { resizeImage } from "../../lib/image";
+import { ImageWithFallback } from "../ui/ImageWithFallback";
+
+interface MenuItemFormProps {
+  // null 이면 새 메뉴
+  item: MenuItemType | null;
+  categories: Category[];
+  // 다른 메뉴가 이미 쓰고 있는 ID (중복 확인용)
+  takenIds: string[];
+  token: string;
+  onSubmit: (originalId: string | null, item: MenuItemType) => void;
+  onClose: () => void;
+}
+
+const TRANSLATIONS: { code: Exclude<Language, "ko">; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "zh", label: "中文" },
+  { code: "ja", label: "日本語" },
+];
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const inputClassName =
+  "w-full rounded-lg border-2 border-slate-200 px-3 py-2 text-base focus:border-blue-500 focus:outline-none";
+
+// 저장 전 입력 확인 (서버에서도 같은 규칙으로 다시 검증)
+const validate = (
+  form: MenuItemType,
+  categories: Category[],
+  takenIds: string[]
+): string[] => {
+  const errors: string[] = [];
+  if (!ID_PATTERN.test(form.id)) errors.push("ID 는 영문, 숫자, -, _ 만 사용할 수 있습니다.");
+  if (takenIds.includes(form.id)) errors.push("이미 있는 메뉴 ID 입니다.");
+  if (!form.name.trim()) errors.push("이름을 입력하세요.");
+  if (!Number.isInteger(form.price) || form.price < 0) {
+    errors.push("가격은 0 이상의 정수여야 합니다.");
+  }
+  if (!categories.some((category) => category.id === form.category)) {
+    errors.push("카테고리를 선택하세요.");
+  }
+  return errors;
+};
+
+export default function MenuItemForm({
+  item,
+  categories,
+  takenIds,
+  token,
+  onSubmit,
+  onClose,
+}: MenuItemFormProps) {
+  const [form, setForm] = useState<MenuItemType>(
+    () =>
+      item ?? {
+        id: "",
+        name: "",
+        price: 0,
+        image: "",
+        category: categories[0]?.id ?? "",
+      }
+  );
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = validate(form, categories, takenIds);
+
+  const handleImage = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const image = await uploadMenuImage(token, await resizeImage(file));
+      setForm((prev) => ({ ...prev, image }));
+    } catch (error) {
+      console.error("[Admin] 이미지 업로드 실패:", error);
+      setUploadError(`이미지를 업로드하지 못했습니다. ${describeApiError(error)}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (errors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSubmit(item?.id ?? null, { ...form, name: form.name.trim() });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-6"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-full overflow-y-auto rounded-2xl bg-white p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800">
+            {item ? "메뉴 수정" : "메뉴 추가"}
+          </h2>
+          <button onClick={onClose} className="rounded-full bg-slate-100 p-2">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex gap-5">
+          <div className="w-40 shrink-0 space-y-2">
+            <div className="aspect-square overflow-hidden rounded-xl bg-slate-100">
+              {form.image && (
+                <ImageWithFallback
+                  src={resolveImageUrl(form.image)}
+                  alt={form.name}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            <label className="flex cursor-pointer items-center justify-center gap-2 rounded-lg bg-slate-100 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-200">
+              {isUploading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              이미지 업로드
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                disabled={isUploading}
+                onChange={handleImage}
+              />
+            </label>
+            {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+          </div>
+
+          <div className="flex-1 grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-sm text-slate-500">ID</span>
+              <input
+                value={form.id}
+                disabled={item !== null}
+                onChange={(e) => setForm((prev) => ({ ...prev, id: e.target.value }))}
+                className={`${inputClassName} disabled:bg-slate-50`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-sm text-slate-500">카테고리</span>
+              <select
+                value={form.category}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, category: e.target.value }))
+                }
+                className={inputClassName}
+              >
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-sm text-slate-500">이름 (한국어)</span>
+              <input
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-sm text-slate-500">가격 (원, 부가세 포함)</span>
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={form.price}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, price: Number(e.target.value) }))
+                }
+                className={inputClassName}
+              />
+            </label>
+            {TRANSLATIONS.map(({ code, label }) => (
+              <label key={code} className="space-y-1">
+                <span className="text-sm text-slate-500">이름 ({label})</span>
+                <input
+                  value={form.names?.[code] ?? ""}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      names: { ...prev.names, [code]: e.target.value },
+                    }))
+                  }
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+            <label className="col-span-2 space-y-1">
+              <span className="text-sm text-slate-500">이미지 경로</span>
+              <input
+                value={form.image}
+                onChange={(e) => setForm((prev) => ({ ...prev, image: e.target.value }))}
+                placeholder="/images/americano.jpg"
+                className={inputClassName}
+              />
+            </label>
+            <label className="col-span-2 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.taxExempt ?? false}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, taxExempt: e.target.checked }))
+                }
+                className="w-5 h-5"
+              />
+              <span className="text-base text-slate-700">면세 품목</span>
+            </label>
+          </div>
+        </div>
+
+        {(form.optionGroups?.length ?? 0) > 0 && (
+          <p className="text-sm text-slate-500">
+            옵션 그룹 {form.optionGroups?.length}개는 그대로 유지됩니다.
+          </p>
+        )}
+
+        {showErrors && errors.length > 0 && (
+          <ul className="rounded-lg bg-red-50 p-3 text-sm text-red-700 list-disc list-inside">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="rounded-xl bg-slate-100 px-6 py-3 text-lg font-semibold text-slate-700"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isUploading}
+            className="rounded-xl bg-blue-600 px-6 py-3 text-lg font-bold text-white disabled:opacity-50"
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
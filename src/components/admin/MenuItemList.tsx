@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Category, MenuItemType } from "../../types";
+import { resolveImageUrl } from "../../lib/api";
+import { ImageWithFallback } from "../ui/ImageWithFallback";
+import MenuItemForm from "./MenuItemForm";
+
+interface MenuItemListProps {
+  categories: Category[];
+  items: MenuItemType[];
+  token: string;
+  onChange: (originalId: string | null, item: MenuItemType) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, delta: -1 | 1) => void;
+}
+
+// 편집 중인 메뉴 (null 이면 새 메뉴 추가)
+type EditingState = { item: MenuItemType | null } | null;
+
+export default function MenuItemList({
+  categories,
+  items,
+  token,
+  onChange,
+  onRemove,
+  onMove,
+}: MenuItemListProps) {
+  const [categoryId, setCategoryId] = useState(categories[0]?.id ?? "");
+  const [editing, setEditing] = useState<EditingState>(null);
+
+  const visibleItems = items.filter((item) => item.category === categoryId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {categories.map((category) => (
+          <button
+            key={category.id}
+            onClick={() => setCategoryId(category.id)}
+            className={`rounded-full px-4 py-2 text-base font-semibold ${
+              category.id === categoryId
+                ? "bg-slate-800 text-white"
+                : "bg-white text-slate-600"
+            }`}
+          >
+            {category.name}
+          </button>
+        ))}
+        <button
+          onClick={() => setEditing({ item: null })}
+          disabled={categories.length === 0}
+          className="ml-auto flex items-center gap-1 rounded-lg bg-blue-600 px-4 py-2 text-base font-bold text-white disabled:opacity-40"
+        >
+          <Plus className="w-5 h-5" />
+          메뉴 추가
+        </button>
+      </div>
+
+      {visibleItems.length === 0 && (
+        <p className="py-10 text-center text-slate-400">이 카테고리에 메뉴가 없습니다.</p>
+      )}
+
+      {visibleItems.map((item, index) => (
+        <div
+          key={item.id}
+          className="flex items-center gap-4 rounded-xl border-2 border-slate-200 bg-white p-3"
+        >
+          <div className="w-16 h-16 shrink-0 overflow-hidden rounded-lg bg-slate-100">
+            <ImageWithFallback
+              src={resolveImageUrl(item.image)}
+              alt={item.name}
+              className="w-full h-full object-cover"
+            />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="truncate text-lg font-semibold text-slate-800">
+              {item.name}
+              {item.taxExempt && (
+                <span className="ml-2 text-sm text-slate-400">면세</span>
+              )}
+            </p>
+            <p className="text-base text-slate-500">
+              {item.price.toLocaleString("ko-KR")}원 ·{" "}
+              <span className="font-mono text-sm">{item.id}</span>
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onMove(item.id, -1)}
+              disabled={index === 0}
+              className="rounded-lg bg-slate-100 p-2 disabled:opacity-30"
+              title="위로"
+            >
+              <ArrowUp className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => onMove(item.id, 1)}
+              disabled={index === visibleItems.length - 1}
+              className="rounded-lg bg-slate-100 p-2 disabled:opacity-30"
+              title="아래로"
+            >
+              <ArrowDown className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setEditing({ item })}
+              className="rounded-lg bg-slate-100 p-2"
+              title="수정"
+            >
+              <Pencil className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(`'${item.name}' 메뉴를 삭제할까요?`)) {
+                  onRemove(item.id);
+                }
+              }}
+              className="rounded-lg bg-red-50 p-2 text-red-600"
+              title="삭제"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {editing && (
+        <MenuItemForm
+          item={editing.item}
+          categories={categories}
+          takenIds={items
+            .map((item) => item.id)
+            .filter((id) => id !== editing.item?.id)}
+          token={token}
+          onSubmit={(originalId, item) => {
+            onChange(originalId, item);
+            setCategoryId(item.category);
+            setEditing(null);
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
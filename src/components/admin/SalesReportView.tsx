@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import type { SalesBreakdownRow, SalesReportSection } from "../../types";
+import { downloadSalesCsv } from "../../lib/api";
+import { useSalesReport } from "../../hooks/useSalesReport";
+
+interface SalesReportViewProps {
+  token: string;
+  onUnauthorized: () => void;
+}
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+  takeout: "포장",
+  dinein: "매장",
+};
+
+const CSV_SECTIONS: { section: SalesReportSection; label: string }[] = [
+  { section: "days", label: "일별" },
+  { section: "items", label: "메뉴별" },
+  { section: "categories", label: "카테고리별" },
+  { section: "orderTypes", label: "주문 유형별" },
+  { section: "hours", label: "시간대별" },
+  { section: "orders", label: "주문 내역" },
+];
+
+const won = (amount: number) => `${amount.toLocaleString("ko-KR")}원`;
+
+// 로컬 날짜 (YYYY-MM-DD)
+const toDateInput = (date: Date) => date.toLocaleDateString("en-CA");
+
+const getDefaultRange = () => {
+  const today = new Date();
+  const weekAgo = new Date(today);
+  weekAgo.setDate(today.getDate() - 6);
+  return { from: toDateInput(weekAgo), to: toDateInput(today) };
+};
+
+function BreakdownTable({
+  title,
+  rows,
+  label,
+  showQty,
+}: {
+  title: string;
+  rows: SalesBreakdownRow[];
+  label: (row: SalesBreakdownRow) => string;
+  showQty: boolean;
+}) {
+  return (
+    <section>
+      <h3 className="mb-2 text-lg font-bold text-slate-800">{title}</h3>
+      <table className="w-full text-base">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.id} className="border-b border-slate-100">
+              <td className="py-2 text-slate-700">{label(row)}</td>
+              <td className="py-2 text-right text-slate-500">
+                {showQty ? `${row.qty}개` : `${row.count}건`}
+              </td>
+              <td className="py-2 text-right font-semibold text-slate-800">
+                {won(row.total)}
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td className="py-2 text-slate-400">판매 내역 없음</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+export default function SalesReportView({
+  token,
+  onUnauthorized,
+}: SalesReportViewProps) {
+  const [range, setRange] = useState(getDefaultRange);
+  const [downloading, setDownloading] = useState<SalesReportSection | null>(null);
+  const result = useSalesReport(token, range.from, range.to, onUnauthorized);
+
+  const handleDownload = async (section: SalesReportSection) => {
+    setDownloading(section);
+    try {
+      const blob = await downloadSalesCsv(token, range.from, range.to, section);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `sales-${section}-${range.from}_${range.to}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("[Admin] CSV 내려받기 실패:", error);
+      window.alert("CSV 를 내려받지 못했습니다. 주문 내역은 31일까지 내려받을 수 있습니다.");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const report = result.status === "loaded" ? result.report : null;
+  const maxHourTotal = Math.max(1, ...(report?.hours.map((hour) => hour.total) ?? []));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={range.from}
+          max={range.to}
+          onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, from: e.target.value }))}
+          className="rounded-lg border-2 border-slate-200 px-3 py-2"
+        />
+        <span className="text-slate-500">~</span>
+        <input
+          type="date"
+          value={range.to}
+          min={range.from}
+          onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, to: e.target.value }))}
+          className="rounded-lg border-2 border-slate-200 px-3 py-2"
+        />
+        <div className="ml-auto flex flex-wrap gap-2">
+          {CSV_SECTIONS.map(({ section, label }) => (
+            <button
+              key={section}
+              onClick={() => handleDownload(section)}
+              disabled={downloading !== null}
+              className="flex items-center gap-1 rounded-lg bg-slate-100 px-3 py-2 text-sm font-semibold text-slate-700 disabled:opacity-50"
+            >
+              {downloading === section ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+              {label} CSV
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {result.status === "loading" && (
+        <Loader2 className="mx-auto my-10 w-8 h-8 animate-spin text-slate-400" />
+      )}
+      {result.status === "failed" && (
+        <p className="py-10 text-center text-red-600">
+          매출 보고서를 불러오지 못했습니다. 기간(최대 366일)과 서버 연결을 확인해 주세요.
+        </p>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-5 gap-4">
+            {[
+              ["매출", won(report.summary.total)],
+              ["주문 수", `${report.summary.orderCount}건`],
+              ["객단가", won(report.summary.averageTicket)],
+              ["부가세", won(report.summary.tax)],
+              ["할인", won(report.summary.discount)],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl bg-slate-50 p-4">
+                <p className="text-sm text-slate-500">{label}</p>
+                <p className="text-2xl font-bold text-slate-800">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <section>
+            <h3 className="mb-2 text-lg font-bold text-slate-800">일별 매출</h3>
+            <table className="w-full text-base">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-sm text-slate-500">
+                  <th className="py-2 text-left">영업일</th>
+                  <th className="py-2 text-right">주문 수</th>
+                  <th className="py-2 text-right">매출</th>
+                  <th className="py-2 text-right">공급가액</th>
+                  <th className="py-2 text-right">부가세</th>
+                  <th className="py-2 text-right">면세</th>
+                  <th className="py-2 text-right">할인</th>
+                  <th className="py-2 text-right">객단가</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.days.map((day) => (
+                  <tr key={day.date} className="border-b border-slate-100">
+                    <td className="py-2">{day.date}</td>
+                    <td className="py-2 text-right">{day.orderCount}</td>
+                    <td className="py-2 text-right font-semibold">{won(day.total)}</td>
+                    <td className="py-2 text-right">{won(day.supplyPrice)}</td>
+                    <td className="py-2 text-right">{won(day.tax)}</td>
+                    <td className="py-2 text-right">{won(day.taxFree)}</td>
+                    <td className="py-2 text-right">{won(day.discount)}</td>
+                    <td className="py-2 text-right">{won(day.averageTicket)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <div className="grid grid-cols-3 gap-6">
+            <BreakdownTable
+              title="메뉴별"
+              rows={report.items}
+              label={(row) => row.name ?? row.id}
+              showQty
+            />
+            <BreakdownTable
+              title="카테고리별"
+              rows={report.categories}
+              label={(row) => row.name ?? row.id}
+              showQty
+            />
+            <BreakdownTable
+              title="주문 유형별"
+              rows={report.orderTypes}
+              label={(row) =>
+                `${ORDER_TYPE_LABELS[row.id] ?? row.id} (객단가 ${won(row.averageTicket ?? 0)})`
+              }
+              showQty={false}
+            />
+          </div>
+
+          <section>
+            <h3 className="mb-2 text-lg font-bold text-slate-800">시간대별 매출</h3>
+            <div className="flex h-40 items-end gap-1">
+              {report.hours.map((hour) => (
+                <div
+                  key={hour.hour}
+                  className="flex flex-1 flex-col items-center justify-end h-full"
+                  title={`${hour.hour}시 · ${hour.count}건 · ${won(hour.total)}`}
+                >
+                  <div
+                    className="w-full rounded-t bg-blue-500"
+                    style={{ height: `${(hour.total / maxHourTotal) * 100}%` }}
+                  />
+                  <span className="mt-1 text-xs text-slate-500">{hour.hour}</span>
+                </div>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import type { ScreenType } from "../types";
+
 export const ANIMATION_VARIANTS = {
   fadeIn: {
     initial: { opacity: 0 },
@@ -42,13 +44,44 @@ export const TRANSITION_DEFAULTS = {
   fast: { duration: 0.3 },
 };
 
+// 접근성 모드: 이동·확대 애니메이션은 끄고(투명도 전환만 유지) 기본 전환도 짧게
+export const ACCESSIBLE_MOTION = {
+  reducedMotion: "always" as const,
+  transition: { duration: 0.15 },
+};
+
 export const TIMINGS = {
   AUTO_REDIRECT_MS: 10000,
   PAYMENT_DELAY_MS: 3000,
+  PAYMENT_TIMEOUT_MS: 60000,
+  // NFC 세션 유효 시간 (서버 최대값 SESSION_TTL_SECONDS 안에서 적용)
+  NFC_SESSION_TTL_MS: 120000,
+  // 세션 만료 / 실패 화면에서 아무 선택이 없을 때 처음 화면으로 돌아가기까지
   NFC_TAG_TIMEOUT_MS: 10000,
+  // "QR 코드로 받기" 화면 유지 시간
+  NFC_QR_FALLBACK_MS: 30000,
   NFC_COMPLETE_TIMEOUT_MS: 3000,
+  IDLE_PROMPT_MS: 15000,
+  // 주방 화면: 티켓 목록 갱신 주기와 경과 시간 강조 기준
+  KITCHEN_POLL_MS: 3000,
+  KITCHEN_WARNING_MS: 5 * 60 * 1000,
+  KITCHEN_CRITICAL_MS: 10 * 60 * 1000,
+  // 픽업 안내 화면: 픽업 대기 번호를 계속 보여줄 시간 (VITE_PICKUP_READY_DISPLAY_MS 로 변경)
+  PICKUP_READY_DISPLAY_MS: 10 * 60 * 1000,
 } as const;
 
+// 화면별 무입력 허용 시간 (null 이면 감시하지 않음)
+// 결제 진행 중에는 화면과 관계없이 감시를 멈춤 (App 참고)
+export const IDLE_TIMEOUTS_MS: Record<ScreenType, number | null> = {
+  start: null,
+  menu: 60000,
+  payment: 45000,
+  // 태그 화면은 세션 만료 카운트다운으로 스스로 처음 화면으로 돌아감
+  nfcTag: null,
+  // 완료 화면은 스스로 처음 화면으로 돌아감
+  nfcComplete: null,
+};
+
 // NFC 화면 전용
 export const NFC_ANIMATIONS = {
   pulse: {
@@ -1,3 +1,3 @@
-export * from "./menu";
 export * from "./animations";
 
+export * from "./loyalty";
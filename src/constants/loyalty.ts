@@ -0,0 +1,13 @@
+import type { LocalizedText } from "../types";
+
+// 스탬프가 적립되는 카테고리 (음료)
+export const LOYALTY_CATEGORY_IDS = ["coffee"];
+
+// 무료 음료 쿠폰은 장바구니에서 프로모션 할인 한 건으로 표시
+export const LOYALTY_REWARD_PROMOTION_ID = "loyalty-reward";
+export const LOYALTY_REWARD_NAME = "스탬프 무료 음료";
+export const LOYALTY_REWARD_NAMES: LocalizedText = {
+  en: "Stamp reward: free drink",
+  zh: "集章奖励: 免费饮品",
+  ja: "スタンプ特典: ドリンク無料",
+};
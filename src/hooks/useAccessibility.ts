@@ -0,0 +1,9 @@
+import { useContext } from "react";
+import { AccessibilityContext } from "../accessibility/context";
+
+/**
+ * 배리어프리 모드 (낮은 위치 배치, 큰 글자, 고대비, 애니메이션 축소) 여부
+ */
+export function useAccessibility() {
+  return useContext(AccessibilityContext);
+}
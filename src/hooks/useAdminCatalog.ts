@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import type { CatalogDraft, Category, MenuItemType } from "../types";
+import { fetchCatalog, saveCatalog } from "../lib/api";
+
+export type AdminSaveState =
+  | { status: "idle" }
+  | { status: "saving" }
+  | { status: "saved"; version: number }
+  | { status: "invalid"; errors: string[] }
+  | { status: "conflict" }
+  | { status: "failed" };
+
+interface EditorState {
+  baseVersion: number;
+  draft: CatalogDraft;
+  isDirty: boolean;
+}
+
+// 배열에서 index 위치 항목을 target 위치와 맞바꿈
+const swap = <T>(list: T[], index: number, target: number): T[] => {
+  if (index < 0 || target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * 관리자 카탈로그 편집: 서버 카탈로그를 받아 로컬에서 고친 뒤 한 번에 저장
+ * onUnauthorized: 토큰이 만료되어 다시 로그인해야 할 때
+ */
+export function useAdminCatalog(token: string, onUnauthorized: () => void) {
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [saveState, setSaveState] = useState<AdminSaveState>({ status: "idle" });
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const load = async () => {
+      try {
+        const { catalog } = await fetchCatalog();
+        if (!isActive || !catalog) return;
+        setEditor({
+          baseVersion: catalog.version,
+          draft: { categories: catalog.categories, items: catalog.items },
+          isDirty: false,
+        });
+        setLoadError(false);
+      } catch (error) {
+        console.error("[Admin] 카탈로그를 불러오지 못했습니다:", error);
+        if (isActive) setLoadError(true);
+      }
+    };
+
+    load();
+    return () => {
+      isActive = false;
+    };
+  }, [reloadKey]);
+
+  const update = useCallback((change: (draft: CatalogDraft) => CatalogDraft) => {
+    setEditor((prev) =>
+      prev ? { ...prev, draft: change(prev.draft), isDirty: true } : prev
+    );
+    setSaveState({ status: "idle" });
+  }, []);
+
+  // ---- 카테고리 ----
+
+  const upsertCategory = useCallback(
+    (originalId: string | null, category: Category) =>
+      update((draft) => {
+        const exists = draft.categories.some((c) => c.id === originalId);
+        return {
+          ...draft,
+          categories: exists
+            ? draft.categories.map((c) => (c.id === originalId ? category : c))
+            : [...draft.categories, category],
+        };
+      }),
+    [update]
+  );
+
+  const removeCategory = useCallback(
+    (id: string) =>
+      update((draft) => ({
+        ...draft,
+        categories: draft.categories.filter((c) => c.id !== id),
+      })),
+    [update]
+  );
+
+  const moveCategory = useCallback(
+    (id: string, delta: -1 | 1) =>
+      update((draft) => {
+        const index = draft.categories.findIndex((c) => c.id === id);
+        return { ...draft, categories: swap(draft.categories, index, index + delta) };
+      }),
+    [update]
+  );
+
+  // ---- 메뉴 ----
+
+  const upsertItem = useCallback(
+    (originalId: string | null, item: MenuItemType) =>
+      update((draft) => {
+        const exists = draft.items.some((i) => i.id === originalId);
+        return {
+          ...draft,
+          items: exists
+            ? draft.items.map((i) => (i.id === originalId ? item : i))
+            : [...draft.items, item],
+        };
+      }),
+    [update]
+  );
+
+  const removeItem = useCallback(
+    (id: string) =>
+      update((draft) => ({
+        ...draft,
+        items: draft.items.filter((i) => i.id !== id),
+      })),
+    [update]
+  );
+
+  // 키오스크는 카테고리 안에서 items 순서대로 보여주므로 같은 카테고리의 이웃과 교환
+  const moveItem = useCallback(
+    (id: string, delta: -1 | 1) =>
+      update((draft) => {
+        const index = draft.items.findIndex((i) => i.id === id);
+        const category = draft.items[index]?.category;
+        let target = index + delta;
+        while (
+          target >= 0 &&
+          target < draft.items.length &&
+          draft.items[target].category !== category
+        ) {
+          target += delta;
+        }
+        return { ...draft, items: swap(draft.items, index, target) };
+      }),
+    [update]
+  );
+
+  // ---- 저장 ----
+
+  const save = useCallback(async () => {
+    if (!editor) return;
+    setSaveState({ status: "saving" });
+    try {
+      const result = await saveCatalog(token, editor.draft, editor.baseVersion);
+      switch (result.status) {
+        case "saved":
+          setEditor({
+            baseVersion: result.catalog.version,
+            draft: {
+              categories: result.catalog.categories,
+              items: result.catalog.items,
+            },
+            isDirty: false,
+          });
+          setSaveState({ status: "saved", version: result.catalog.version });
+          return;
+        case "invalid":
+          setSaveState({ status: "invalid", errors: result.errors });
+          return;
+        case "conflict":
+          setSaveState({ status: "conflict" });
+          return;
+        case "unauthorized":
+          setSaveState({ status: "idle" });
+          onUnauthorized();
+          return;
+      }
+    } catch (error) {
+      console.error("[Admin] 카탈로그 저장 실패:", error);
+      setSaveState({ status: "failed" });
+    }
+  }, [editor, token, onUnauthorized]);
+
+  // 편집 내용을 버리고 서버의 최신 카탈로그로 다시 시작
+  const reload = useCallback(() => {
+    setSaveState({ status: "idle" });
+    setReloadKey((key) => key + 1);
+  }, []);
+
+  return {
+    draft: editor?.draft ?? null,
+    baseVersion: editor?.baseVersion ?? null,
+    isDirty: editor?.isDirty ?? false,
+    loadError,
+    saveState,
+    upsertCategory,
+    removeCategory,
+    moveCategory,
+    upsertItem,
+    removeItem,
+    moveItem,
+    save,
+    reload,
+  };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState } from "react";
+import type { CartItem, CartPricing, Promotion } from "../types";
+import { evaluatePromotions } from "../utils/promotions";
+
+// 시간대 프로모션의 시작 / 종료를 반영하기 위한 재계산 주기
+const CLOCK_INTERVAL_MS = 30000;
+
+const NO_PROMOTIONS: Promotion[] = [];
+
+/**
+ * 장바구니에 현재 시각 기준으로 프로모션을 적용한 금액
+ */
+export function useCartPricing(
+  items: CartItem[],
+  promotions: Promotion[] = NO_PROMOTIONS
+): CartPricing {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return useMemo(
+    () => evaluatePromotions(items, promotions, now),
+    [items, promotions, now]
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import type { Catalog, CatalogSource } from "../types";
+import { fetchCatalog } from "../lib/api";
+import {
+  BUNDLED_CATALOG,
+  loadCachedCatalog,
+  saveCachedCatalog,
+} from "../lib/catalog";
+
+// 관리자 화면에서 바꾼 메뉴를 재시작 없이 반영하기 위한 확인 주기 (같은 버전이면 본문 없이 응답)
+const REFRESH_INTERVAL_MS = 60000;
+
+interface CatalogState {
+  catalog: Catalog;
+  source: CatalogSource;
+}
+
+const getInitialState = (): CatalogState => {
+  const cached = loadCachedCatalog();
+  return cached
+    ? { catalog: cached, source: "cache" }
+    : { catalog: BUNDLED_CATALOG, source: "bundled" };
+};
+
+/**
+ * 캐시(없으면 번들 메뉴)로 먼저 그리고, 백엔드 카탈로그를 받아오면 교체
+ * 이후에도 주기적으로 새 버전이 있는지 확인
+ */
+export function useCatalog() {
+  const [state, setState] = useState<CatalogState>(getInitialState);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isActive = true;
+    let knownVersion = loadCachedCatalog()?.version;
+
+    const load = async () => {
+      try {
+        const { catalog, notModified } = await fetchCatalog(knownVersion);
+        if (!isActive) return;
+        if (catalog) {
+          knownVersion = catalog.version;
+          saveCachedCatalog(catalog);
+          setState({ catalog, source: "remote" });
+        } else if (notModified) {
+          setState((prev) => ({ ...prev, source: "remote" }));
+        }
+      } catch (error) {
+        // 백엔드에 연결할 수 없으면 캐시/번들 메뉴를 그대로 사용
+        console.warn("[Catalog] 카탈로그를 불러오지 못했습니다:", error);
+      } finally {
+        if (isActive) setIsLoading(false);
+      }
+    };
+
+    load();
+    const timer = window.setInterval(load, REFRESH_INTERVAL_MS);
+
+    return () => {
+      isActive = false;
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  return { ...state, isLoading };
+}
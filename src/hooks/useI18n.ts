@@ -0,0 +1,40 @@
+import { useCallback, useContext } from "react";
+import type { LocalizedText } from "../types";
+import { LanguageContext } from "../i18n/context";
+import {
+  formatPrice,
+  localizeName,
+  localizeText,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from "../i18n";
+
+/**
+ * 현재 선택된 언어 기준 번역 / 가격 표시 / 메뉴 이름 헬퍼
+ */
+export function useI18n() {
+  const { language, setLanguage } = useContext(LanguageContext);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) =>
+      translate(language, key, params),
+    [language]
+  );
+  const price = useCallback(
+    (amount: number) => formatPrice(amount, language),
+    [language]
+  );
+  const name = useCallback(
+    (entity: { name: string; names?: LocalizedText }) =>
+      localizeName(entity, language),
+    [language]
+  );
+  const text = useCallback(
+    (fallback: string, names?: LocalizedText) =>
+      localizeText(fallback, names, language),
+    [language]
+  );
+
+  return { language, setLanguage, t, price, name, text };
+}
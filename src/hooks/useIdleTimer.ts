@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "touchstart", "keydown"] as const;
+const TICK_MS = 250;
+
+interface IdleTimerOptions {
+  // 이 시간 동안 입력이 없으면 안내창 표시 (null 이면 감시 중지)
+  timeoutMs: number | null;
+  // 안내창 표시 후 초기화까지 남은 시간
+  promptMs: number;
+  onTimeout: () => void;
+}
+
+/**
+ * 터치/키 입력이 없는 시간을 감시
+ * 안내창이 떠 있는 동안에는 화면을 건드려도 연장되지 않고 reset() 으로만 연장
+ */
+export function useIdleTimer({ timeoutMs, promptMs, onTimeout }: IdleTimerOptions) {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const lastActivityRef = useRef(0);
+  const promptingRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    if (timeoutMs === null) return;
+
+    // 화면이 바뀌거나 감시가 다시 시작되면 그 시점부터 계산
+    lastActivityRef.current = Date.now();
+    promptingRef.current = false;
+
+    const handleActivity = () => {
+      if (!promptingRef.current) lastActivityRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((name) =>
+      window.addEventListener(name, handleActivity, { passive: true })
+    );
+
+    const timer = window.setInterval(() => {
+      const elapsed = Date.now() - lastActivityRef.current;
+      if (elapsed >= timeoutMs + promptMs) {
+        promptingRef.current = false;
+        lastActivityRef.current = Date.now();
+        setRemainingMs(null);
+        onTimeoutRef.current();
+      } else if (elapsed >= timeoutMs) {
+        promptingRef.current = true;
+        setRemainingMs(timeoutMs + promptMs - elapsed);
+      } else {
+        setRemainingMs(null);
+      }
+    }, TICK_MS);
+
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((name) =>
+        window.removeEventListener(name, handleActivity)
+      );
+    };
+  }, [timeoutMs, promptMs]);
+
+  const reset = () => {
+    promptingRef.current = false;
+    lastActivityRef.current = Date.now();
+    setRemainingMs(null);
+  };
+
+  const isPrompting = timeoutMs !== null && remainingMs !== null;
+  return {
+    isPrompting,
+    remainingSeconds: isPrompting ? Math.ceil(remainingMs / 1000) : 0,
+    reset,
+  };
+}
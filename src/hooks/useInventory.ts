@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Inventory, UnavailableItem } from "../types";
+import { fetchInventory } from "../lib/api";
+
+const REFRESH_INTERVAL_MS = 30000;
+
+/**
+ * 재고 / 품절 상태를 주기적으로 갱신 (조회 실패 시 마지막 상태 유지)
+ */
+export function useInventory() {
+  const [inventory, setInventory] = useState<Inventory>({});
+
+  useEffect(() => {
+    let isActive = true;
+
+    const load = async () => {
+      try {
+        const next = await fetchInventory();
+        if (isActive) setInventory(next);
+      } catch (error) {
+        console.warn("[Inventory] 재고 정보를 불러오지 못했습니다:", error);
+      }
+    };
+
+    load();
+    const timer = window.setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      isActive = false;
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  // 결제 직전 검증에서 받은 결과를 화면에 바로 반영
+  const applyUnavailable = useCallback((unavailable: UnavailableItem[]) => {
+    setInventory((prev) => {
+      const next = { ...prev };
+      for (const item of unavailable) {
+        next[item.id] = {
+          stock: item.available,
+          soldOut: item.available === 0,
+        };
+      }
+      return next;
+    });
+  }, []);
+
+  return { inventory, applyUnavailable };
+}
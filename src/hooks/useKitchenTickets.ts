@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import type { KitchenTicket } from "../types";
+import { fetchKitchenTickets, updateKitchenTicketStatus } from "../lib/api";
+import { TIMINGS } from "../constants/animations";
+import { getNextTicketStatus } from "../utils/kitchen";
+
+/**
+ * 주방 티켓 목록을 주기적으로 갱신 (조회 실패 시 마지막 목록 유지)
+ * advance: 화면에 먼저 반영한 뒤 서버에 저장, 실패하면 목록을 다시 불러와 서버 상태로 복구
+ */
+export function useKitchenTickets() {
+  const [tickets, setTickets] = useState<KitchenTicket[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  // 첫 조회가 끝났는지 (빈 목록과 아직 불러오지 않은 상태를 구분)
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const load = async () => {
+      try {
+        const next = await fetchKitchenTickets();
+        if (!isActive) return;
+        setTickets(next);
+        setIsOnline(true);
+        setIsLoaded(true);
+      } catch (error) {
+        console.warn("[Kitchen] 티켓 목록을 불러오지 못했습니다:", error);
+        if (isActive) setIsOnline(false);
+      }
+    };
+
+    load();
+    const timer = window.setInterval(load, TIMINGS.KITCHEN_POLL_MS);
+    return () => {
+      isActive = false;
+      window.clearInterval(timer);
+    };
+  }, [refreshKey]);
+
+  const advance = useCallback(async (ticket: KitchenTicket) => {
+    const status = getNextTicketStatus(ticket.status);
+    if (!status) return;
+
+    setTickets((prev) =>
+      status === "pickedUp"
+        ? prev.filter((item) => item.orderId !== ticket.orderId)
+        : prev.map((item) =>
+            item.orderId === ticket.orderId ? { ...item, status } : item
+          )
+    );
+
+    const result = await updateKitchenTicketStatus(ticket.orderId, status);
+    if (!result.success) {
+      console.warn("[Kitchen] 상태 변경 실패, 목록 다시 불러옴:", result.status);
+      setRefreshKey((key) => key + 1);
+    }
+  }, []);
+
+  return { tickets, isOnline, isLoaded, advance };
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import type { NfcSession } from "../types";
+import {
+  getNfcSessionStatus,
+  getSessionEventsUrl,
+  toNfcSession,
+} from "../lib/api";
+import { sessionEventSchema } from "../lib/apiSchemas";
+
+// 푸시 채널이 끊겨 있는 동안의 폴링 주기
+const POLL_INTERVAL_MS = 1500;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * NFC 세션 상태 구독: WebSocket 푸시를 우선 사용하고,
+ * 연결되지 않았거나 끊긴 동안에는 자동으로 폴링하면서 재연결을 시도
+ * (같은 세션을 다시 만든 경우 attempt 를 바꾸면 이전 상태를 버리고 새로 구독)
+ */
+export function useNfcSessionStatus(sessionId: string | null, attempt = 0) {
+  const subscriptionKey = sessionId ? `${sessionId}#${attempt}` : null;
+  const [state, setState] = useState<{
+    key: string;
+    session: NfcSession;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!sessionId || !subscriptionKey) return;
+    let isActive = true;
+    const setSession = (update: (prev: NfcSession | null) => NfcSession) =>
+      setState((prev) => ({
+        key: subscriptionKey,
+        session: update(prev?.key === subscriptionKey ? prev.session : null),
+      }));
+    let socket: WebSocket | null = null;
+    let pollTimer: number | undefined;
+    // 폴링 루프는 하나만 유지: 새로 시작하면 이전 루프는 응답을 받아도 다음 폴링을 예약하지 않음
+    let pollLoop = 0;
+    let isPolling = false;
+    let reconnectTimer: number | undefined;
+    let reconnectAttempts = 0;
+
+    const isPushConnected = () => socket?.readyState === WebSocket.OPEN;
+
+    const poll = async (loop: number) => {
+      const res = await getNfcSessionStatus(sessionId);
+      if (!isActive || loop !== pollLoop) return;
+      if (res) setSession(() => res);
+      if (isPushConnected()) {
+        isPolling = false;
+        return;
+      }
+      pollTimer = window.setTimeout(() => void poll(loop), POLL_INTERVAL_MS);
+    };
+
+    const startPolling = () => {
+      window.clearTimeout(pollTimer);
+      pollLoop += 1;
+      isPolling = true;
+      void poll(pollLoop);
+    };
+
+    const scheduleReconnect = () => {
+      const delay = Math.min(
+        RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+        RECONNECT_MAX_DELAY_MS
+      );
+      reconnectAttempts += 1;
+      reconnectTimer = window.setTimeout(() => void connect(), delay);
+    };
+
+    const connect = async () => {
+      try {
+        // 연결할 때마다 새로 서명한 주소 사용 (서명은 nonce 가 있어 재사용 불가)
+        const url = await getSessionEventsUrl(sessionId);
+        if (!url || !isActive) return;
+        socket = new WebSocket(url);
+      } catch (error) {
+        // 서명 실패(crypto.subtle 미지원 등)나 잘못된 주소: 폴링을 유지하면서 나중에 다시 시도
+        console.warn("[NFC] 상태 푸시 연결 실패, 폴링 유지:", error);
+        if (!isActive) return;
+        if (!isPolling) startPolling();
+        scheduleReconnect();
+        return;
+      }
+
+      socket.onopen = () => {
+        console.log("[NFC] 상태 푸시 연결됨, 폴링 중지");
+        reconnectAttempts = 0;
+        // 연결 전에 바뀐 상태를 놓치지 않도록 한 번 동기화 (푸시가 연결돼 있으면 이후 예약하지 않음)
+        startPolling();
+      };
+      socket.onmessage = (event) => {
+        try {
+          const message = sessionEventSchema.parse(JSON.parse(event.data));
+          if (
+            message.type === "session-status" &&
+            message.session?.sessionId === sessionId
+          ) {
+            const next = toNfcSession(message.session, sessionId);
+            setSession((prev) => ({ ...prev, ...next }));
+          }
+        } catch (error) {
+          console.warn("[NFC] 알 수 없는 푸시 메시지:", error);
+        }
+      };
+      socket.onclose = () => {
+        socket = null;
+        if (!isActive) return;
+        console.warn("[NFC] 상태 푸시 끊김, 폴링으로 전환");
+        if (!isPolling) startPolling();
+        scheduleReconnect();
+      };
+    };
+
+    void connect();
+    startPolling();
+
+    return () => {
+      isActive = false;
+      window.clearTimeout(pollTimer);
+      window.clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [sessionId, subscriptionKey]);
+
+  return state?.key === subscriptionKey ? state.session : null;
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import {
+  subscribePendingOrders,
+  type PendingOrderCounts,
+} from "../lib/orderQueue";
+
+/**
+ * 아직 서버에 전달되지 않은 주문 건수 (직원 확인용)
+ */
+export function usePendingOrders() {
+  const [counts, setCounts] = useState<PendingOrderCounts>({
+    pending: 0,
+    rejected: 0,
+  });
+
+  useEffect(() => subscribePendingOrders(setCounts), []);
+
+  return counts;
+}
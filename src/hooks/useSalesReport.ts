@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import type { SalesReport } from "../types";
+import { fetchSalesReport } from "../lib/api";
+
+type ReportState =
+  | { status: "loaded"; key: string; report: SalesReport }
+  | { status: "failed"; key: string };
+
+/**
+ * 관리자 매출 보고서: 기간이 바뀔 때마다 다시 조회
+ */
+export function useSalesReport(
+  token: string,
+  from: string,
+  to: string,
+  onUnauthorized: () => void
+) {
+  const key = `${from}~${to}`;
+  const [state, setState] = useState<ReportState | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const load = async () => {
+      try {
+        const report = await fetchSalesReport(token, from, to);
+        if (!isActive) return;
+        if (!report) {
+          onUnauthorized();
+          return;
+        }
+        setState({ status: "loaded", key, report });
+      } catch (error) {
+        console.error("[Admin] 매출 보고서를 불러오지 못했습니다:", error);
+        if (isActive) setState({ status: "failed", key });
+      }
+    };
+
+    load();
+    return () => {
+      isActive = false;
+    };
+  }, [token, from, to, key, onUnauthorized]);
+
+  // 기간을 바꾼 직후에는 이전 기간의 결과를 보여주지 않음
+  if (!state || state.key !== key) return { status: "loading" as const };
+  return state;
+}
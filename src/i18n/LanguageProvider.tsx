@@ -0,0 +1,18 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import type { Language } from "../types";
+import { DEFAULT_LANGUAGE } from ".";
+import { LanguageContext } from "./context";
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo(() => ({ language, setLanguage }), [language]);
+
+  return (
+    <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>
+  );
+}
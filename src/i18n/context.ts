@@ -0,0 +1,13 @@
+import { createContext } from "react";
+import type { Language } from "../types";
+import { DEFAULT_LANGUAGE } from ".";
+
+export interface LanguageContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+}
+
+export const LanguageContext = createContext<LanguageContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+});
@@ -0,0 +1,60 @@
+import type { Language, LocalizedText } from "../types";
+import { ko, type MessageKey, type Messages } from "./messages/ko";
+import { en } from "./messages/en";
+import { zh } from "./messages/zh";
+import { ja } from "./messages/ja";
+
+export type { MessageKey };
+
+export const DEFAULT_LANGUAGE: Language = "ko";
+
+export const LANGUAGES: { code: Language; label: string; locale: string }[] = [
+  { code: "ko", label: "한국어", locale: "ko-KR" },
+  { code: "en", label: "English", locale: "en-US" },
+  { code: "zh", label: "中文", locale: "zh-CN" },
+  { code: "ja", label: "日本語", locale: "ja-JP" },
+];
+
+const CATALOGS: Record<Language, Messages> = { ko, en, zh, ja };
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 메시지 키를 번역 ("{name}" 자리표시자를 params 값으로 치환)
+ */
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  params?: MessageParams
+): string => {
+  const template = CATALOGS[language][key] ?? ko[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+const getLocale = (language: Language) =>
+  LANGUAGES.find((item) => item.code === language)?.locale ?? "ko-KR";
+
+/**
+ * 원화 금액 표시: 한국어는 "4,500원", 그 외 언어는 "₩4,500"
+ */
+export const formatPrice = (amount: number, language: Language): string => {
+  if (language === "ko") return `${amount.toLocaleString("ko-KR")}원`;
+  return new Intl.NumberFormat(getLocale(language), {
+    style: "currency",
+    currency: "KRW",
+  }).format(amount);
+};
+
+export const localizeText = (
+  fallback: string,
+  names: LocalizedText | undefined,
+  language: Language
+): string => names?.[language] ?? fallback;
+
+export const localizeName = (
+  entity: { name: string; names?: LocalizedText },
+  language: Language
+): string => localizeText(entity.name, entity.names, language);
@@ -0,0 +1,130 @@
+import type { Messages } from "./ko";
+
+export const en: Messages = {
+  "language.label": "Language",
+
+  "start.title": "Start your order",
+  "start.subtitle": "Please choose how you'd like to eat",
+  "start.takeout": "Take out",
+  "start.dinein": "Eat in",
+  "start.help": "Need help? Please call a staff member",
+
+  "menu.back": "Home",
+  "menu.soldOut": "Sold out",
+  "menu.stockShortage": "Some items are out of stock: {names}",
+  "common.confirm": "OK",
+
+  "options.required": "Required",
+  "options.optional": "Optional",
+  "options.maxSelect": "Up to {max}",
+  "options.pleaseSelect": "Please choose a {group}",
+  "options.add": "Add for {price}",
+
+  "cart.title": "Your order",
+  "cart.empty": "No items selected",
+  "cart.totalQuantity": "Items",
+  "cart.quantityUnit": "{count}",
+  "cart.subtotal": "Subtotal",
+  "cart.savings": "You saved {amount}",
+  "cart.totalPrice": "Total",
+  "cart.checkout": "Pay",
+
+  "loyalty.button": "Collect stamps",
+  "loyalty.title": "Enter your mobile number",
+  "loyalty.subtitle": "Earn 1 stamp for every drink",
+  "loyalty.lookup": "Look up",
+  "loyalty.clear": "Clear",
+  "loyalty.invalid": "Please check your mobile number",
+  "loyalty.failed": "Stamps are unavailable right now. Please try again later",
+  "loyalty.balance": "Stamps {stamps} / {threshold}",
+  "loyalty.rewardAvailable": "You have {count} free drink reward(s)",
+  "loyalty.useReward": "Use a free drink reward on this order",
+  "loyalty.noDrink": "Add a drink to use your free drink reward",
+  "loyalty.apply": "Apply",
+  "loyalty.cancel": "Cancel",
+  "loyalty.linked": "{phone} · {count} stamp(s) to earn",
+  "loyalty.remove": "Remove",
+
+  "order.number": "Order number",
+  "order.numberMissing":
+    "We couldn't issue an order number. Please show your receipt to staff",
+
+  "payment.requesting.title": "Please insert or tap your card",
+  "payment.requesting.amount": "Amount due {amount}",
+  "payment.requesting.guide": "Follow the instructions on the card terminal",
+  "payment.cancel": "Cancel payment",
+  "payment.processing.title": "Processing payment...",
+  "payment.processing.subtitle": "Please wait a moment",
+  "payment.processing.guide": "Sending your order...",
+  "payment.complete.title": "Payment complete",
+  "payment.complete.subtitle": "Thank you for your order",
+  "payment.failed.declined": "Payment was declined",
+  "payment.failed.cancelled": "Payment was cancelled",
+  "payment.failed.timeout": "Payment timed out",
+  "payment.retry": "Try again",
+  "payment.backToMenu": "Back to menu",
+  "payment.soldOut.title": "An item sold out while you were paying",
+  "payment.soldOut.refunded": "Your payment has been cancelled. Please change your order and try again",
+  "payment.soldOut.refundManual": "We could not cancel your payment automatically. Please ask a staff member for a refund",
+  "payment.supplyPrice": "Subtotal (excl. VAT)",
+  "payment.vat": "VAT",
+  "payment.taxFree": "Tax-exempt items",
+  "payment.discount": "Discount",
+  "payment.total": "Total",
+  "payment.approvalNumber": "Approval no.",
+  "payment.queued":
+    "Your order has been received. The network is unstable, so a mobile receipt is not available. Please take a paper receipt.",
+  "payment.receipt": "Get mobile receipt",
+  "payment.paperReceipt": "Print paper receipt",
+  "payment.printing": "Printing receipt...",
+  "payment.printError.offline": "The receipt printer is not available. Please use the mobile receipt or ask a staff member",
+  "payment.printError.paperOut": "The receipt printer is out of paper. Please ask a staff member",
+  "payment.printError.failed": "The receipt could not be printed. Please try again or ask a staff member",
+  "payment.kitchenPrintFailed": "The kitchen ticket could not be printed. Please tell a staff member your order number",
+  "payment.autoRedirect": "This screen will change in 10 seconds.",
+
+  "nfc.title": "Sending receipt",
+  "nfc.subtitle": "Your receipt is sent via NFC",
+  "nfc.status.pending": "Preparing NFC...",
+  "nfc.status.ready": "Tap your phone",
+  "nfc.status.tagging": "Sending...",
+  "nfc.status.done": "Sent successfully",
+  "nfc.guide.line1": "Hold your phone close to",
+  "nfc.guide.line2": "the NFC reader below the screen",
+  "nfc.qr.title": "Can't use NFC?",
+  "nfc.qr.description": "Scan the QR code to get your receipt.",
+  "nfc.qr.expired": "QR code expired",
+  "nfc.remaining": "Time remaining {time}",
+  "nfc.expired.title": "Receipt transfer timed out",
+  "nfc.failed.title": "We couldn't send your receipt",
+  "nfc.expired.description": "Try again or get your receipt with the QR code",
+  "nfc.retry": "Try again",
+  "nfc.showQr": "Get it by QR code",
+  "nfc.finish": "Finish without receipt",
+  "nfc.qrOnly.title": "Scan the QR code",
+  "nfc.qrOnly.done": "Done",
+  "nfc.autoReturn": "Returning to the start screen in {seconds} seconds",
+
+  "complete.sent": "Sent",
+  "complete.issued": "Printed",
+  "complete.autoReturn": "Returning to the start screen in 3 seconds",
+
+  "accessibility.on": "Accessible mode",
+  "accessibility.off": "Standard mode",
+  "accessibility.notice": "You can order using the lower part of the screen",
+
+  "pickup.preparing": "Preparing",
+  "pickup.ready": "Ready for pickup",
+  "pickup.empty": "No orders waiting",
+
+  "idle.title": "Are you still there?",
+  "idle.description": "seconds until your order is cleared and the kiosk restarts",
+  "idle.continue": "Continue",
+
+  "apiError.network": "Cannot reach the server. Please ask a staff member",
+  "apiError.timeout": "The server is taking too long. Please try again shortly",
+  "apiError.auth": "This kiosk could not be verified. Please ask a staff member",
+  "apiError.validation": "The request could not be processed. Please check your input",
+  "apiError.server": "The server is having a temporary problem. Please try again shortly",
+  "apiError.schema": "We could not confirm the result. Please ask a staff member",
+};
@@ -0,0 +1,129 @@
+import type { Messages } from "./ko";
+
+export const ja: Messages = {
+  "language.label": "言語",
+
+  "start.title": "ご注文を始めるには",
+  "start.subtitle": "ご利用方法をお選びください",
+  "start.takeout": "お持ち帰り",
+  "start.dinein": "店内",
+  "start.help": "お困りの際はスタッフをお呼びください",
+
+  "menu.back": "最初へ",
+  "menu.soldOut": "売り切れ",
+  "menu.stockShortage": "在庫が不足しているメニューがあります：{names}",
+  "common.confirm": "OK",
+
+  "options.required": "必須",
+  "options.optional": "任意",
+  "options.maxSelect": "最大{max}個",
+  "options.pleaseSelect": "{group}を選択してください",
+  "options.add": "{price} カートに入れる",
+
+  "cart.title": "ご注文内容",
+  "cart.empty": "選択されたメニューはありません",
+  "cart.totalQuantity": "合計数量",
+  "cart.quantityUnit": "{count}点",
+  "cart.subtotal": "小計",
+  "cart.savings": "{amount} お得になりました",
+  "cart.totalPrice": "お支払い金額",
+  "cart.checkout": "お会計",
+
+  "loyalty.button": "スタンプを貯める",
+  "loyalty.title": "携帯電話番号を入力してください",
+  "loyalty.subtitle": "ドリンク1杯ごとにスタンプが1つ貯まります",
+  "loyalty.lookup": "照会",
+  "loyalty.clear": "クリア",
+  "loyalty.invalid": "携帯電話番号をご確認ください",
+  "loyalty.failed": "現在スタンプを照会できません。しばらくしてからもう一度お試しください",
+  "loyalty.balance": "スタンプ {stamps} / {threshold}",
+  "loyalty.rewardAvailable": "ドリンク無料券が {count} 枚あります",
+  "loyalty.useReward": "今回の注文でドリンク無料券を使う",
+  "loyalty.noDrink": "ドリンクを追加すると無料券を使えます",
+  "loyalty.apply": "適用",
+  "loyalty.cancel": "キャンセル",
+  "loyalty.linked": "{phone} · スタンプ {count} 個獲得予定",
+  "loyalty.remove": "解除",
+
+  "order.number": "注文番号",
+  "order.numberMissing": "注文番号を発行できませんでした。レシートをスタッフにお見せください",
+
+  "payment.requesting.title": "カードを挿入またはタッチしてください",
+  "payment.requesting.amount": "お支払い金額 {amount}",
+  "payment.requesting.guide": "決済端末の案内に従ってお支払いください",
+  "payment.cancel": "お支払いをキャンセル",
+  "payment.processing.title": "決済処理中...",
+  "payment.processing.subtitle": "少々お待ちください",
+  "payment.processing.guide": "ご注文を送信しています...",
+  "payment.complete.title": "お支払いが完了しました",
+  "payment.complete.subtitle": "ご利用ありがとうございました",
+  "payment.failed.declined": "お支払いが承認されませんでした",
+  "payment.failed.cancelled": "お支払いがキャンセルされました",
+  "payment.failed.timeout": "お支払いの時間が過ぎました",
+  "payment.retry": "もう一度支払う",
+  "payment.backToMenu": "注文画面に戻る",
+  "payment.soldOut.title": "お支払い中に品切れになったメニューがあります",
+  "payment.soldOut.refunded": "お支払いを取り消しました。ご注文内容を変更してもう一度ご注文ください",
+  "payment.soldOut.refundManual": "お支払いを自動で取り消せませんでした。スタッフに返金をお申し付けください",
+  "payment.supplyPrice": "税抜金額",
+  "payment.vat": "付加価値税",
+  "payment.taxFree": "免税品金額",
+  "payment.discount": "割引",
+  "payment.total": "合計",
+  "payment.approvalNumber": "承認番号",
+  "payment.queued":
+    "ご注文を受け付けました。ネットワークが不安定なため、モバイルレシートは発行できません。紙のレシートをご利用ください。",
+  "payment.receipt": "レシートを受け取る",
+  "payment.paperReceipt": "紙のレシートを発行",
+  "payment.printing": "レシート印刷中...",
+  "payment.printError.offline": "レシートプリンターに接続できません。モバイルレシートをご利用いただくか、スタッフをお呼びください",
+  "payment.printError.paperOut": "レシート用紙がありません。スタッフをお呼びください",
+  "payment.printError.failed": "レシートを印刷できませんでした。もう一度お試しいただくか、スタッフをお呼びください",
+  "payment.kitchenPrintFailed": "キッチン伝票を印刷できませんでした。スタッフに注文番号をお伝えください",
+  "payment.autoRedirect": "10秒後に自動で画面が切り替わります。",
+
+  "nfc.title": "レシート送信中",
+  "nfc.subtitle": "NFCでレシートを送信します",
+  "nfc.status.pending": "NFC準備中...",
+  "nfc.status.ready": "スマートフォンをタッチしてください",
+  "nfc.status.tagging": "送信中...",
+  "nfc.status.done": "送信が完了しました",
+  "nfc.guide.line1": "画面下のNFCリーダーに",
+  "nfc.guide.line2": "スマートフォンを近づけてください",
+  "nfc.qr.title": "NFCが使えませんか？",
+  "nfc.qr.description": "QRコードを読み取ってレシートを受け取れます。",
+  "nfc.qr.expired": "QRコードの有効期限が切れました",
+  "nfc.remaining": "残り時間 {time}",
+  "nfc.expired.title": "レシート送信の時間が過ぎました",
+  "nfc.failed.title": "レシートを送信できませんでした",
+  "nfc.expired.description": "もう一度お試しいただくか、QRコードでレシートを受け取ってください",
+  "nfc.retry": "もう一度試す",
+  "nfc.showQr": "QRコードで受け取る",
+  "nfc.finish": "レシートなしで終了",
+  "nfc.qrOnly.title": "QRコードを読み取ってください",
+  "nfc.qrOnly.done": "完了",
+  "nfc.autoReturn": "{seconds}秒後に最初の画面に戻ります",
+
+  "complete.sent": "送信完了",
+  "complete.issued": "発行完了",
+  "complete.autoReturn": "3秒後に最初の画面に戻ります",
+
+  "accessibility.on": "かんたん画面",
+  "accessibility.off": "標準画面",
+  "accessibility.notice": "画面の下側でご注文いただけます",
+
+  "pickup.preparing": "準備中",
+  "pickup.ready": "お受け取りください",
+  "pickup.empty": "お待ちの注文はありません",
+
+  "idle.title": "まだご利用中ですか？",
+  "idle.description": "秒後にご注文内容が削除され、最初の画面に戻ります",
+  "idle.continue": "利用を続ける",
+
+  "apiError.network": "サーバーに接続できません。スタッフにお声がけください",
+  "apiError.timeout": "応答に時間がかかっています。しばらくしてからもう一度お試しください",
+  "apiError.auth": "キオスクの認証に失敗しました。スタッフにお声がけください",
+  "apiError.validation": "リクエストを処理できません。入力内容をご確認ください",
+  "apiError.server": "サーバーに一時的な問題が発生しています。しばらくしてからもう一度お試しください",
+  "apiError.schema": "処理結果を確認できません。スタッフにお声がけください",
+};
@@ -0,0 +1,131 @@
+// 기준 언어: 키 목록과 문구의 원본
+export const ko = {
+  "language.label": "언어",
+
+  "start.title": "주문을 시작하시려면",
+  "start.subtitle": "이용 방법을 선택해주세요",
+  "start.takeout": "포장",
+  "start.dinein": "매장",
+  "start.help": "도움이 필요하시면 직원을 호출해주세요",
+
+  "menu.back": "처음으로",
+  "menu.soldOut": "품절",
+  "menu.stockShortage": "재고가 부족한 메뉴가 있습니다: {names}",
+  "common.confirm": "확인",
+
+  "options.required": "필수",
+  "options.optional": "선택",
+  "options.maxSelect": "최대 {max}개",
+  "options.pleaseSelect": "{group}을(를) 선택해주세요",
+  "options.add": "{price} 담기",
+
+  "cart.title": "주문 내역",
+  "cart.empty": "선택된 메뉴가 없습니다",
+  "cart.totalQuantity": "총 수량",
+  "cart.quantityUnit": "{count}개",
+  "cart.subtotal": "주문 금액",
+  "cart.savings": "{amount} 할인되었습니다",
+  "cart.totalPrice": "총 결제금액",
+  "cart.checkout": "결제하기",
+
+  "loyalty.button": "스탬프 적립",
+  "loyalty.title": "휴대폰 번호를 입력해주세요",
+  "loyalty.subtitle": "음료 1잔마다 스탬프 1개가 적립됩니다",
+  "loyalty.lookup": "조회",
+  "loyalty.clear": "지우기",
+  "loyalty.invalid": "휴대폰 번호를 다시 확인해주세요",
+  "loyalty.failed": "지금은 스탬프를 조회할 수 없습니다. 잠시 후 다시 시도해주세요",
+  "loyalty.balance": "스탬프 {stamps} / {threshold}",
+  "loyalty.rewardAvailable": "무료 음료 쿠폰 {count}장이 있습니다",
+  "loyalty.useReward": "이번 주문에 무료 음료 쿠폰 사용",
+  "loyalty.noDrink": "음료를 담으면 무료 음료 쿠폰을 사용할 수 있습니다",
+  "loyalty.apply": "적용",
+  "loyalty.cancel": "취소",
+  "loyalty.linked": "{phone} · 스탬프 {count}개 적립 예정",
+  "loyalty.remove": "해제",
+
+  "order.number": "주문번호",
+  "order.numberMissing": "주문번호를 발급하지 못했습니다. 영수증을 직원에게 보여주세요",
+
+  "payment.requesting.title": "카드를 투입하거나 태그해주세요",
+  "payment.requesting.amount": "결제 금액 {amount}",
+  "payment.requesting.guide": "결제 단말기의 안내에 따라 결제를 진행해주세요",
+  "payment.cancel": "결제 취소",
+  "payment.processing.title": "결제 처리중...",
+  "payment.processing.subtitle": "잠시만 기다려주세요",
+  "payment.processing.guide": "주문 정보를 서버로 전송하는 중입니다...",
+  "payment.complete.title": "결제가 완료되었습니다",
+  "payment.complete.subtitle": "이용해 주셔서 감사합니다",
+  "payment.failed.declined": "결제가 거절되었습니다",
+  "payment.failed.cancelled": "결제가 취소되었습니다",
+  "payment.failed.timeout": "결제 시간이 초과되었습니다",
+  "payment.retry": "다시 결제하기",
+  "payment.backToMenu": "주문 화면으로 돌아가기",
+  "payment.soldOut.title": "결제하는 사이 품절된 메뉴가 있습니다",
+  "payment.soldOut.refunded": "결제를 취소했습니다. 주문 내용을 바꿔 다시 주문해주세요",
+  "payment.soldOut.refundManual": "결제를 자동으로 취소하지 못했습니다. 직원에게 환불을 요청해주세요",
+  "payment.supplyPrice": "공급가액",
+  "payment.vat": "부가세",
+  "payment.taxFree": "면세물품가액",
+  "payment.discount": "할인",
+  "payment.total": "합계",
+  "payment.approvalNumber": "승인번호",
+  "payment.queued":
+    "주문이 접수되었습니다. 네트워크가 불안정하여 모바일 영수증은 발급할 수 없으니 종이 영수증을 이용해주세요.",
+  "payment.receipt": "영수증 발급받기",
+  "payment.paperReceipt": "종이 영수증 발급받기",
+  "payment.printing": "영수증 출력 중...",
+  "payment.printError.offline": "영수증 프린터에 연결할 수 없습니다. 모바일 영수증을 이용하시거나 직원을 불러주세요",
+  "payment.printError.paperOut": "영수증 용지가 없습니다. 직원을 불러주세요",
+  "payment.printError.failed": "영수증을 출력하지 못했습니다. 다시 시도하시거나 직원을 불러주세요",
+  "payment.kitchenPrintFailed": "주방 주문표를 출력하지 못했습니다. 주문이 누락되지 않도록 직원에게 주문번호를 알려주세요",
+  "payment.autoRedirect": "10초 후 자동으로 화면이 전환됩니다.",
+
+  "nfc.title": "영수증 전송중",
+  "nfc.subtitle": "NFC로 데이터를 전송합니다",
+  "nfc.status.pending": "NFC 준비 중...",
+  "nfc.status.ready": "휴대폰을 태그해 주세요",
+  "nfc.status.tagging": "데이터 전송 중...",
+  "nfc.status.done": "전송이 완료되었습니다",
+  "nfc.guide.line1": "키오스크 하단의 NFC 리더기에",
+  "nfc.guide.line2": "휴대폰을 가까이 대주세요",
+  "nfc.qr.title": "NFC스캔이 어려우신가요?",
+  "nfc.qr.description": "QR 스캔하여 영수증을 받아보실 수 있습니다.",
+  "nfc.qr.expired": "QR 코드가 만료되었습니다",
+  "nfc.remaining": "남은 시간 {time}",
+  "nfc.expired.title": "영수증 전송 시간이 지났습니다",
+  "nfc.failed.title": "영수증을 전송하지 못했습니다",
+  "nfc.expired.description": "다시 시도하거나 QR 코드로 영수증을 받아보세요",
+  "nfc.retry": "다시 시도",
+  "nfc.showQr": "QR 코드로 받기",
+  "nfc.finish": "영수증 없이 종료",
+  "nfc.qrOnly.title": "QR 코드를 스캔해주세요",
+  "nfc.qrOnly.done": "완료",
+  "nfc.autoReturn": "{seconds}초 후 처음 화면으로 돌아갑니다",
+
+  "complete.sent": "전송 완료",
+  "complete.issued": "발급 완료",
+  "complete.autoReturn": "3초 후 자동으로 처음 화면으로 돌아갑니다",
+
+  "accessibility.on": "쉬운 화면",
+  "accessibility.off": "기본 화면",
+  "accessibility.notice": "화면 아래쪽에서 주문하실 수 있습니다",
+
+  "pickup.preparing": "준비 중",
+  "pickup.ready": "픽업해 주세요",
+  "pickup.empty": "대기 중인 주문이 없습니다",
+
+  "idle.title": "아직 이용 중이신가요?",
+  "idle.description": "초 후 주문 내역이 삭제되고 처음 화면으로 돌아갑니다",
+  "idle.continue": "계속 이용하기",
+
+  "apiError.network": "서버에 연결할 수 없습니다. 직원에게 문의해주세요",
+  "apiError.timeout": "응답이 늦어지고 있습니다. 잠시 후 다시 시도해주세요",
+  "apiError.auth": "키오스크 인증에 실패했습니다. 직원에게 문의해주세요",
+  "apiError.validation": "요청을 처리할 수 없습니다. 입력 내용을 확인해주세요",
+  "apiError.server": "서버에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요",
+  "apiError.schema": "처리 결과를 확인할 수 없습니다. 직원에게 문의해주세요",
+} as const;
+
+export type MessageKey = keyof typeof ko;
+export type Messages = Record<MessageKey, string>;
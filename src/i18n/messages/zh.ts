@@ -0,0 +1,128 @@
+import type { Messages } from "./ko";
+
+export const zh: Messages = {
+  "language.label": "语言",
+
+  "start.title": "开始点餐",
+  "start.subtitle": "请选择用餐方式",
+  "start.takeout": "打包",
+  "start.dinein": "堂食",
+  "start.help": "如需帮助，请呼叫店员",
+
+  "menu.back": "首页",
+  "menu.soldOut": "售罄",
+  "menu.stockShortage": "以下商品库存不足：{names}",
+  "common.confirm": "确定",
+
+  "options.required": "必选",
+  "options.optional": "可选",
+  "options.maxSelect": "最多{max}项",
+  "options.pleaseSelect": "请选择{group}",
+  "options.add": "加入 {price}",
+
+  "cart.title": "订单明细",
+  "cart.empty": "尚未选择商品",
+  "cart.totalQuantity": "总数量",
+  "cart.quantityUnit": "{count}件",
+  "cart.subtotal": "商品金额",
+  "cart.savings": "已优惠 {amount}",
+  "cart.totalPrice": "应付金额",
+  "cart.checkout": "去支付",
+
+  "loyalty.button": "集章",
+  "loyalty.title": "请输入手机号码",
+  "loyalty.subtitle": "每杯饮品可获得1个印章",
+  "loyalty.lookup": "查询",
+  "loyalty.clear": "清除",
+  "loyalty.invalid": "请确认手机号码",
+  "loyalty.failed": "暂时无法查询印章，请稍后再试",
+  "loyalty.balance": "印章 {stamps} / {threshold}",
+  "loyalty.rewardAvailable": "您有 {count} 张免费饮品券",
+  "loyalty.useReward": "本次订单使用免费饮品券",
+  "loyalty.noDrink": "加入饮品后即可使用免费饮品券",
+  "loyalty.apply": "应用",
+  "loyalty.cancel": "取消",
+  "loyalty.linked": "{phone} · 将获得 {count} 个印章",
+  "loyalty.remove": "解除",
+
+  "order.number": "订单号",
+  "order.numberMissing": "未能生成订单号，请向店员出示收据",
+
+  "payment.requesting.title": "请插入或感应银行卡",
+  "payment.requesting.amount": "支付金额 {amount}",
+  "payment.requesting.guide": "请按照刷卡机的提示进行支付",
+  "payment.cancel": "取消支付",
+  "payment.processing.title": "支付处理中...",
+  "payment.processing.subtitle": "请稍候",
+  "payment.processing.guide": "正在提交订单...",
+  "payment.complete.title": "支付成功",
+  "payment.complete.subtitle": "感谢您的光临",
+  "payment.failed.declined": "支付被拒绝",
+  "payment.failed.cancelled": "支付已取消",
+  "payment.failed.timeout": "支付超时",
+  "payment.retry": "重新支付",
+  "payment.backToMenu": "返回点餐",
+  "payment.soldOut.title": "支付期间有菜品已售罄",
+  "payment.soldOut.refunded": "已取消支付，请修改订单后重新下单",
+  "payment.soldOut.refundManual": "无法自动取消支付，请联系工作人员退款",
+  "payment.supplyPrice": "不含税金额",
+  "payment.vat": "增值税",
+  "payment.taxFree": "免税商品金额",
+  "payment.discount": "优惠",
+  "payment.total": "合计",
+  "payment.approvalNumber": "授权号",
+  "payment.queued": "订单已受理。由于网络不稳定，无法发送电子收据，请领取纸质收据。",
+  "payment.receipt": "领取电子收据",
+  "payment.paperReceipt": "打印纸质收据",
+  "payment.printing": "正在打印小票...",
+  "payment.printError.offline": "无法连接小票打印机，请使用电子小票或联系工作人员",
+  "payment.printError.paperOut": "小票打印纸已用完，请联系工作人员",
+  "payment.printError.failed": "小票打印失败，请重试或联系工作人员",
+  "payment.kitchenPrintFailed": "厨房订单未能打印，请将订单号告知工作人员",
+  "payment.autoRedirect": "10秒后自动跳转。",
+
+  "nfc.title": "正在发送收据",
+  "nfc.subtitle": "通过NFC发送收据",
+  "nfc.status.pending": "NFC准备中...",
+  "nfc.status.ready": "请将手机靠近感应",
+  "nfc.status.tagging": "正在发送...",
+  "nfc.status.done": "发送完成",
+  "nfc.guide.line1": "请将手机靠近",
+  "nfc.guide.line2": "屏幕下方的NFC感应区",
+  "nfc.qr.title": "无法使用NFC？",
+  "nfc.qr.description": "扫描二维码即可获取收据。",
+  "nfc.qr.expired": "二维码已过期",
+  "nfc.remaining": "剩余时间 {time}",
+  "nfc.expired.title": "收据发送已超时",
+  "nfc.failed.title": "收据发送失败",
+  "nfc.expired.description": "请重试或通过二维码获取收据",
+  "nfc.retry": "重试",
+  "nfc.showQr": "通过二维码获取",
+  "nfc.finish": "不要收据，结束",
+  "nfc.qrOnly.title": "请扫描二维码",
+  "nfc.qrOnly.done": "完成",
+  "nfc.autoReturn": "{seconds}秒后返回首页",
+
+  "complete.sent": "发送完成",
+  "complete.issued": "打印完成",
+  "complete.autoReturn": "3秒后自动返回首页",
+
+  "accessibility.on": "无障碍模式",
+  "accessibility.off": "标准模式",
+  "accessibility.notice": "您可以在屏幕下方完成点餐",
+
+  "pickup.preparing": "准备中",
+  "pickup.ready": "请取餐",
+  "pickup.empty": "暂无等待中的订单",
+
+  "idle.title": "您还在吗？",
+  "idle.description": "秒后将清空订单并返回首页",
+  "idle.continue": "继续使用",
+
+  "apiError.network": "无法连接服务器，请联系工作人员",
+  "apiError.timeout": "服务器响应超时，请稍后再试",
+  "apiError.auth": "自助终端验证失败，请联系工作人员",
+  "apiError.validation": "无法处理该请求，请检查输入内容",
+  "apiError.server": "服务器暂时出现问题，请稍后再试",
+  "apiError.schema": "无法确认处理结果，请联系工作人员",
+};
@@ -0,0 +1,48 @@
+import type { AdminSession } from "../types";
+import { isApiError } from "./apiClient";
+
+// 탭을 닫으면 로그아웃되도록 sessionStorage 사용
+const SESSION_KEY = "kiosk.adminSession";
+
+export const loadAdminSession = (): AdminSession | null => {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AdminSession;
+    if (!session?.token || new Date(session.expiresAt).getTime() <= Date.now()) {
+      sessionStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.warn("[Admin] 세션을 읽지 못했습니다:", error);
+    return null;
+  }
+};
+
+export const saveAdminSession = (session: AdminSession) => {
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const clearAdminSession = () => {
+  sessionStorage.removeItem(SESSION_KEY);
+};
+
+// 관리자 화면에 보여줄 API 오류 안내
+export const describeApiError = (error: unknown): string => {
+  if (!isApiError(error)) return "알 수 없는 오류가 발생했습니다.";
+  switch (error.kind) {
+    case "network":
+      return "서버에 연결할 수 없습니다. 네트워크를 확인해 주세요.";
+    case "timeout":
+      return "서버 응답이 너무 늦습니다. 잠시 후 다시 시도해 주세요.";
+    case "auth":
+      return "권한이 없습니다. 다시 로그인해 주세요.";
+    case "validation":
+      return `서버가 요청을 거부했습니다. (${error.message})`;
+    case "server":
+      return "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요.";
+    case "schema":
+      return "서버 응답을 읽을 수 없습니다. 새로고침해서 반영되었는지 확인해 주세요.";
+  }
+};
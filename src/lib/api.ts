@@ -1,85 +1,208 @@
-import axios from "axios";
-import type { CartItem, NfcSession } from "../types";
+import type {
+  AdminSession,
+  CartItem,
+  CartPricing,
+  Catalog,
+  CatalogDraft,
+  Inventory,
+  InventoryLine,
+  InventoryStatus,
+  KioskCredential,
+  KioskSummary,
+  KitchenTicket,
+  KitchenTicketStatus,
+  LoyaltyAccount,
+  LoyaltyStamps,
+  NfcSession,
+  PaymentResult,
+  PlacedOrder,
+  SalesReport,
+  SalesReportSection,
+  UnavailableItem,
+} from "../types";
+import { getUnitPrice, toInventoryLines } from "../utils/cart";
+import { calculateTaxBreakdown } from "../utils/tax";
+import { signKioskRequest } from "./kioskAuth";
+import {
+  apiRequest,
+  isApiError,
+  readErrorBody,
+  toApiError,
+  type ApiCallOptions,
+  type ApiError,
+  type RetryPolicy,
+} from "./apiClient";
+import {
+  adminSessionSchema,
+  blobSchema,
+  catalogRejectionSchema,
+  catalogResponseSchema,
+  catalogSchema,
+  createdSessionSchema,
+  imageUploadSchema,
+  inventoryCheckSchema,
+  inventoryResponseSchema,
+  inventoryStatusSchema,
+  kioskCredentialSchema,
+  kioskListSchema,
+  kioskSummarySchema,
+  kitchenStatusSchema,
+  kitchenTicketsSchema,
+  loyaltyAccountSchema,
+  loyaltyStampsResultSchema,
+  orderCreatedSchema,
+  orderNumberSchema,
+  salesReportSchema,
+  sessionResponseSchema,
+  type SessionResponse,
+} from "./apiSchemas";
+import * as s from "./schema";
+import type { Schema } from "./schema";
 
-interface OrderPayload {
+export interface OrderPayload {
+  // 재전송 시 서버가 중복 주문을 걸러낼 수 있도록 키오스크에서 발급하는 ID
+  order_id: string;
+  // 손님에게 안내하는 영업일별 주문번호 (발급 실패 시 null)
+  order_number: number | null;
+  business_date: string | null;
   store_name: string;
   payment_time: string;
   order_type: "takeout" | "dinein";
   items: {
+    // 매출 집계용 메뉴 ID / 카테고리 ID
+    menu_id: string;
+    category: string | null;
     name: string;
     qty: number;
+    // 옵션 추가금이 포함된 단가
     price: number;
+    base_price: number;
+    options: {
+      group: string;
+      name: string;
+      price_delta: number;
+    }[];
+    // 이 라인에 배분된 할인액
+    discount: number;
+    // 할인 후 라인 금액(price × qty - discount) 기준 공급가액 / 부가세
+    supply_price: number;
+    vat: number;
+    tax_exempt: boolean;
   }[];
+  // 과세 물품 공급가액
+  supply_price: number;
+  // 부가세 (과세 합계 기준, 메뉴 가격에 이미 포함된 금액)
   tax: number;
+  // 면세 물품 합계
+  tax_free_amount: number;
+  // 할인 전 합계
+  subtotal: number;
+  discount_total: number;
+  // 적용된 프로모션 (영수증 / 매출 집계용)
+  discounts: {
+    promotion_id: string;
+    name: string;
+    amount: number;
+  }[];
+  // 실제 결제 금액 (할인 후)
   total: number;
+  payment: {
+    method: "card";
+    approval_number?: string;
+    card_brand?: string;
+    masked_card_number?: string;
+    approved_at?: string;
+  };
 }
 
-export const sendOrderData = async (
+export const createOrderId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const buildOrderPayload = (
   cartItems: CartItem[],
-  totalPrice: number,
-  orderType: "takeout" | "dinein"
-) => {
+  pricing: CartPricing,
+  orderType: "takeout" | "dinein",
+  payment: PaymentResult,
+  order: Pick<PlacedOrder, "orderId" | "orderNumber" | "businessDate">
+): OrderPayload => {
   const paymentTime = new Date().toISOString().slice(0, 19).replace("T", " ");
+  const breakdown = calculateTaxBreakdown(cartItems, pricing.lineDiscounts);
 
-  const payload: OrderPayload = {
+  return {
+    order_id: order.orderId,
+    order_number: order.orderNumber,
+    business_date: order.businessDate,
     store_name: "집장인들",
     payment_time: paymentTime,
     order_type: orderType,
-    items: cartItems.map((item) => ({
+    items: cartItems.map((item, index) => ({
+      menu_id: item.id,
+      category: item.category ?? null,
       name: item.name,
       qty: item.quantity,
-      price: item.price,
+      price: getUnitPrice(item),
+      base_price: item.price,
+      options: item.options.map((option) => ({
+        group: option.groupName,
+        name: option.optionName,
+        price_delta: option.priceDelta,
+      })),
+      discount: pricing.lineDiscounts[item.lineId] ?? 0,
+      supply_price: breakdown.lines[index].supplyPrice,
+      vat: breakdown.lines[index].vat,
+      tax_exempt: breakdown.lines[index].taxExempt,
+    })),
+    supply_price: breakdown.supplyPrice,
+    tax: breakdown.vat,
+    tax_free_amount: breakdown.exemptTotal,
+    subtotal: pricing.subtotal,
+    discount_total: pricing.discountTotal,
+    discounts: pricing.discounts.map((discount) => ({
+      promotion_id: discount.promotionId,
+      name: discount.name,
+      amount: discount.amount,
     })),
-    // 세금 대충 10%로 설정
-    tax: Math.round(totalPrice * 0.1),
-    total: totalPrice,
+    total: pricing.total,
+    payment: {
+      method: "card",
+      approval_number: payment.approvalNumber,
+      card_brand: payment.cardBrand,
+      masked_card_number: payment.maskedCardNumber,
+      approved_at: payment.approvedAt,
+    },
   };
+};
+
+export type SendOrderResult =
+  | { success: true; shortUrl: string }
+  // 다시 보낼지는 error.retryable 로 판단 (4xx 는 다시 보내도 성공할 수 없음)
+  | { success: false; error: ApiError };
 
+// 같은 요청을 여러 번 보내도 결과가 같은 호출(조회, 주문 ID 로 중복을 거르는 등록)의 기본 재시도
+const SAFE_RETRY: RetryPolicy = { retries: 2 };
+
+export const sendOrderData = async (
+  payload: OrderPayload,
+  options: ApiCallOptions = {}
+): Promise<SendOrderResult> => {
   try {
     console.log("API Request:", payload);
-    const response = await axios.post("/api/create", payload, {
-      headers: {
-        "Content-Type": "application/json",
-      },
+    const { short_url: shortUrl } = await apiRequest({
+      method: "POST",
+      url: "/api/create",
+      body: payload,
+      headers: () => ({ "Content-Type": "application/json" }),
+      schema: orderCreatedSchema,
+      timeout: 10000,
+      ...options,
     });
-    console.log("API Response:", response.data);
-
-    const rawData = response.data as any;
-    // 1차: 최상위에 short_url 있는 경우
-    let shortUrl: string | undefined = rawData?.short_url;
-
-    // 2차: Lambda/API Gateway 형태로 body 안에 JSON 문자열로 들어있는 경우
-    if (!shortUrl && rawData?.body) {
-      try {
-        const body =
-          typeof rawData.body === "string"
-            ? JSON.parse(rawData.body)
-            : rawData.body;
-        shortUrl = body?.short_url;
-      } catch (e) {
-        console.error("API Error: body JSON 파싱 실패", e, rawData.body);
-      }
-    }
-
-    if (!shortUrl) {
-      console.error("API Error: 응답에 short_url이 없습니다.", response.data);
-      return {
-        success: false,
-        error: new Error("응답에 영수증 URL(short_url)이 없습니다."),
-      };
-    }
-
-    return {
-      success: true,
-      shortUrl,
-      data: response.data,
-    };
+    console.log("API Response short_url:", shortUrl);
+    return { success: true, shortUrl };
   } catch (error) {
     console.error("API Error:", error);
-    if (axios.isAxiosError(error)) {
-      console.error("Error response:", error.response?.data);
-    }
-    return { success: false, error };
+    return { success: false, error: toApiError(error) };
   }
 };
 
@@ -90,9 +213,6 @@ const LAMBDA_BASE_URL = (
   import.meta.env.VITE_LAMBDA_BASE_URL ||
   "https://example.lambda-url.ap-northeast-2.on.aws"
 ).replace(/\/$/, "");
-// Lambda에서 검사할 API 키
-const LAMBDA_API_KEY =
-  import.meta.env.VITE_LAMBDA_API_KEY || "set-me";
 
 // 개발 환경에서는 프록시 사용, 프로덕션에서는 직접 Lambda URL 사용
 const isDevelopment = import.meta.env.DEV;
@@ -106,120 +226,688 @@ const getLambdaUrl = (path: string) => {
   }
 };
 
+// 키오스크 요청 서명: 프로덕션은 이 기기의 키오스크 키로 직접, 개발 환경은 Vite 프록시가 서명
+const getKioskHeaders = async (
+  method: "GET" | "POST",
+  target: string,
+  body = ""
+): Promise<Record<string, string>> =>
+  isDevelopment ? {} : signKioskRequest(method, target, body);
+
+// 서명 대상과 실제 요청 주소가 같도록 쿼리도 직접 만듦
+const withQuery = (path: string, params: Record<string, string | number>) =>
+  `${path}?${new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  )}`;
+
+const kioskGet = <T>(target: string, schema: Schema<T>, options: ApiCallOptions = {}) =>
+  apiRequest({
+    method: "GET",
+    url: getLambdaUrl(target),
+    headers: () => getKioskHeaders("GET", target),
+    schema,
+    ...options,
+  });
+
+const kioskPost = <T>(
+  path: string,
+  payload: unknown,
+  schema: Schema<T>,
+  options: ApiCallOptions = {}
+) => {
+  // 서명한 본문 문자열을 그대로 보냄
+  const body = JSON.stringify(payload);
+  return apiRequest({
+    method: "POST",
+    url: getLambdaUrl(path),
+    body,
+    headers: async () => ({
+      "Content-Type": "application/json",
+      ...(await getKioskHeaders("POST", path, body)),
+    }),
+    schema,
+    ...options,
+  });
+};
+
+// 키오스크 식별자: 물리 NFC 태그는 /r/{KIOSK_ID} 로 프로그래밍되어 있어야 함
+export const KIOSK_ID = import.meta.env.VITE_KIOSK_ID || "kiosk-01";
+// 매장 식별자: 키오스크 요청의 매장은 서버가 키오스크 키로 정하므로 관리자 요청(보고서 / 키 발급)에만 사용
+export const STORE_ID = import.meta.env.VITE_STORE_ID || "store-01";
+
+// Lambda 가 경로만 돌려준 링크(PUBLIC_BASE_URL 미설정)는 손님 휴대폰에서 열 수 있도록 Lambda 주소를 붙임
+// 개발 환경에서도 프록시가 아닌 Lambda 주소 사용
+const toPublicLambdaUrl = (url: string) =>
+  url.startsWith("/") ? `${LAMBDA_BASE_URL}${url}` : url;
+
+export type { SessionResponse };
+
+export type CreateSessionResult =
+  | {
+      success: true;
+      sessionId: string;
+      // 세션별 QR 링크 (없으면 영수증 주소를 QR 로 표시)
+      qrUrl: string | null;
+      directReceiptUrl: string | null;
+      expiresAt?: string;
+    }
+  | { success: false; error: ApiError };
+
 /**
  * NFC 세션 생성
  */
 export const createNfcSession = async (
-  receiptUrl: string
-): Promise<{ success: boolean; sessionId?: string; error?: any }> => {
-  try {
-    console.log("[NFC API] Environment:", isDevelopment ? "development (using proxy)" : "production (direct)");
-    console.log("[NFC API] LAMBDA_BASE_URL:", LAMBDA_BASE_URL);
-    console.log("[NFC API] LAMBDA_API_KEY:", LAMBDA_API_KEY ? "***" : "NOT SET");
-    // Lambda에 최신 주문 URL 저장
-    const orderId = `order-${Date.now()}`;
-    const url = getLambdaUrl("/api/redirect");
-    const payload = { orderId, receiptUrl };
-    console.log(`[NFC API] Sending POST to: ${url}`);
-    console.log(`[NFC API] Payload:`, payload);
-    
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
+  // 자체 영수증 페이지를 쓸 수 없을 때 보낼 외부 영수증 링크
+  receiptUrl: string | null,
+  { orderId, ttlSeconds }: { orderId: string; ttlSeconds?: number },
+  options: ApiCallOptions = {}
+): Promise<CreateSessionResult> => {
+  // Lambda에 이 키오스크의 현재 주문 세션 저장
+  const payload = { kioskId: KIOSK_ID, orderId, receiptUrl, ttlSeconds };
+  console.log(`[NFC API] Sending POST to: ${getLambdaUrl("/api/redirect")}`, payload);
+  try {
+    // 개발 환경에서는 프록시가 키오스크 서명을 대신 붙임
+    // 같은 주문은 같은 세션을 다시 만들므로 재시도해도 안전
+    const data = await kioskPost("/api/redirect", payload, createdSessionSchema, {
+      timeout: 10000,
+      retry: SAFE_RETRY,
+      ...options,
+    });
+    console.log("[NFC API] Session created:", data.sessionId);
+
+    return {
+      success: true,
+      sessionId: data.sessionId,
+      qrUrl: data.qrUrl,
+      directReceiptUrl: data.directReceiptUrl
+        ? toPublicLambdaUrl(data.directReceiptUrl)
+        : null,
+      expiresAt: toNfcSession(data, data.sessionId).expiresAt,
     };
-    
-    // 프로덕션 환경에서만 직접 헤더에 API 키 추가
-    // 개발 환경에서는 프록시가 자동으로 추가함
-    if (!isDevelopment) {
-      headers["x-api-key"] = LAMBDA_API_KEY;
-    }
-    
-    const response = await axios.post(
-      url,
-      payload,
-      {
-        headers,
-        timeout: 10000, // 10초 timeout
-        validateStatus: (status) => status < 500, // 5xx 에러만 throw
-      }
-    );
-    
-    console.log(`[NFC API] Response status: ${response.status}`);
-    console.log(`[NFC API] Response data:`, response.data);
-    
-    // 물리 태그는 고정 URL(예: /r)로 리다이렉트되므로 sessionId는 의미 없음
-    return { success: true, sessionId: "latest" };
-  } catch (error) {
-    console.error("[NFC API] Lambda redirect save error:", error);
-    if (axios.isAxiosError(error)) {
-      console.error("[NFC API] Error code:", error.code);
-      console.error("[NFC API] Error message:", error.message);
-      console.error("[NFC API] Error response status:", error.response?.status);
-      console.error("[NFC API] Error response data:", error.response?.data);
-      console.error("[NFC API] Error response headers:", error.response?.headers);
-      
-      // CORS 에러인지 확인
-      if (error.code === "ERR_NETWORK" || error.message === "Network Error") {
-        console.error("[NFC API] Network Error - 가능한 원인:");
-        console.error("  1. CORS 설정 문제 (Lambda Function URL의 CORS 설정 확인 필요)");
-        console.error("  2. 네트워크 연결 문제");
-        console.error("  3. Lambda Function URL이 올바르지 않음");
-        console.error("  4. 개발 환경에서는 Vite 프록시를 사용하도록 설정되어 있습니다.");
-      }
+  } catch (error) {
+    const apiError = toApiError(error);
+    console.error(`[NFC API] Session was not created (${apiError.kind}):`, apiError);
+    if (apiError.kind === "network") {
+      console.error("[NFC API] Network Error - 가능한 원인:");
+      console.error("  1. CORS 설정 문제 (Lambda Function URL의 CORS 설정 확인 필요)");
+      console.error("  2. 네트워크 연결 문제");
+      console.error("  3. Lambda Function URL이 올바르지 않음");
+      console.error("  4. 개발 환경에서는 Vite 프록시를 사용하도록 설정되어 있습니다.");
     }
-    // 네트워크 실패 시에도 UI 에러를 띄우지 않고 진행
-    return { success: true, sessionId: "latest", error };
+    return { success: false, error: apiError };
   }
 };
 
 /**
- * NFC 세션 상태 조회
+ * Lambda 세션 응답(초 단위 시각)을 NfcSession 으로 변환 (상태 조회 / 푸시 메시지 공용)
  */
-export const getNfcSessionStatus = async (
+export const toNfcSession = (
+  data: Pick<SessionResponse, "sessionId" | "expiresAt"> & Partial<SessionResponse>,
   sessionId: string
+): NfcSession => {
+  const toIso = (ts?: number) =>
+    typeof ts === "number" ? new Date(ts * 1000).toISOString() : undefined;
+
+  return {
+    sessionId: data.sessionId || sessionId,
+    status: data.status ?? "pending",
+    orderId: data.orderId,
+    receiptUrl: data.receiptUrl,
+    scannedAt: toIso(data.scannedAt),
+    updatedAt: toIso(data.updatedAt),
+    expiresAt: toIso(data.expiresAt),
+  };
+};
+
+// 세션 상태 푸시 채널 (운영: API Gateway WebSocket API 의 wss 주소)
+const SESSION_EVENTS_URL = (
+  import.meta.env.VITE_SESSION_EVENTS_URL || ""
+).replace(/\/$/, "");
+
+/**
+ * 세션 상태 푸시 채널 주소 (설정이 없으면 null → 폴링만 사용)
+ */
+export const getSessionEventsUrl = async (
+  sessionId: string
+): Promise<string | null> => {
+  const params = new URLSearchParams({ sessionId });
+  if (isDevelopment) {
+    // 개발 환경: Vite 프록시(/lambda, ws)를 통해 로컬 Lambda 서버로 연결 (서명은 프록시가 붙임)
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    return `${protocol}://${window.location.host}/lambda/ws?${params}`;
+  }
+  if (!SESSION_EVENTS_URL) return null;
+  // 브라우저 WebSocket 은 헤더를 지정할 수 없어 서명을 쿼리로 전달
+  const headers = await signKioskRequest("GET", `/ws?${params}`);
+  const signed = new URLSearchParams({
+    sessionId,
+    kioskId: headers["x-kiosk-id"] ?? "",
+    keyId: headers["x-kiosk-key-id"] ?? "",
+    timestamp: headers["x-kiosk-timestamp"] ?? "",
+    nonce: headers["x-kiosk-nonce"] ?? "",
+    signature: headers["x-kiosk-signature"] ?? "",
+  });
+  return `${SESSION_EVENTS_URL}?${signed}`;
+};
+
+/**
+ * NFC 세션 상태 조회 (실패하면 null: 다음 폴링에서 다시 조회)
+ */
+export const getNfcSessionStatus = async (
+  sessionId: string,
+  options: ApiCallOptions = {}
 ): Promise<NfcSession | null> => {
   try {
-    const url = getLambdaUrl("/api/session-status");
-    const headers: Record<string, string> = {};
-    if (!isDevelopment) {
-      headers["x-api-key"] = LAMBDA_API_KEY;
-    }
+    const data = await kioskGet(
+      withQuery("/api/session-status", { sessionId }),
+      sessionResponseSchema,
+      { timeout: 8000, ...options }
+    );
+    return toNfcSession(data, sessionId);
+  } catch (error) {
+    console.warn("[NFC API] Session status not ready:", error);
+    return null;
+  }
+};
 
-    const response = await axios.get(url, {
-      headers,
+/**
+ * NFC 세션 완료 처리 (키오스크가 태그 스캔을 확인한 뒤 호출)
+ */
+export const completeNfcSession = async (
+  sessionId: string,
+  options: ApiCallOptions = {}
+): Promise<boolean> => {
+  try {
+    // 이미 완료된 세션도 성공으로 응답하므로 재시도해도 안전
+    await kioskPost("/api/scan-complete", { sessionId }, s.unknown(), {
       timeout: 8000,
-      validateStatus: (status) => status < 500,
+      retry: SAFE_RETRY,
+      ...options,
     });
+    return true;
+  } catch (error) {
+    console.error("[NFC API] Session complete error:", error);
+    return false;
+  }
+};
 
-    console.log("[NFC API] Session status response:", response.status, response.data);
+/**
+ * 메뉴 카탈로그 조회 (knownVersion 과 같으면 null 반환)
+ */
+export const fetchCatalog = async (
+  knownVersion?: number,
+  options: ApiCallOptions = {}
+): Promise<{ catalog: Catalog | null; notModified: boolean }> => {
+  const target = knownVersion
+    ? withQuery("/api/catalog", { version: knownVersion })
+    : "/api/catalog";
+  const catalog = await kioskGet(target, catalogResponseSchema, {
+    retry: SAFE_RETRY,
+    ...options,
+  });
+  return { catalog, notModified: catalog === null };
+};
+
+/**
+ * 메뉴별 재고 / 품절 상태 조회
+ */
+export const fetchInventory = (options: ApiCallOptions = {}): Promise<Inventory> =>
+  kioskGet("/api/inventory", inventoryResponseSchema, {
+    retry: SAFE_RETRY,
+    ...options,
+  });
+
+/**
+ * 결제 전 장바구니 재고 재검증
+ */
+export const checkInventory = async (
+  cartItems: CartItem[],
+  options: ApiCallOptions = {}
+): Promise<{ ok: boolean; unavailable: UnavailableItem[] }> => {
+  const { ok, unavailable } = await kioskPost(
+    "/api/inventory/check",
+    { items: toInventoryLines(cartItems) },
+    inventoryCheckSchema,
+    { retry: SAFE_RETRY, ...options }
+  );
+  return { ok: Boolean(ok), unavailable };
+};
+
+export type ConsumeInventoryResult =
+  | { success: true }
+  // 재고가 모자라면 unavailable 에 부족한 메뉴 (그 외 실패는 빈 배열)
+  | { success: false; error: ApiError; unavailable: UnavailableItem[] };
+
+/**
+ * 결제 승인 후 재고 차감 (같은 orderId 는 서버에서 한 번만 차감하므로 다시 보내도 됨)
+ * 재고가 모자라면 409 와 함께 부족한 메뉴
+ */
+export const consumeInventory = async (
+  orderId: string,
+  lines: InventoryLine[],
+  options: ApiCallOptions = {}
+): Promise<ConsumeInventoryResult> => {
+  try {
+    await kioskPost(
+      "/api/inventory/consume",
+      { orderId, items: lines },
+      s.unknown(),
+      { retry: SAFE_RETRY, ...options }
+    );
+    return { success: true };
+  } catch (error) {
+    const apiError = toApiError(error);
+    console.error("[Inventory API] 재고 차감 실패:", apiError);
+    const rejection = readErrorBody(apiError, inventoryCheckSchema);
+    return { success: false, error: apiError, unavailable: rejection?.unavailable ?? [] };
+  }
+};
+
+/**
+ * 영업일별 주문번호 발급 (같은 orderId 로 다시 요청하면 같은 번호)
+ * 실패하면 null: 주문 자체는 번호 없이 진행
+ */
+export const issueOrderNumber = async (
+  orderId: string,
+  options: ApiCallOptions = {}
+): Promise<{ orderNumber: number; businessDate: string } | null> => {
+  try {
+    return await kioskPost(
+      "/api/order-number",
+      { orderId },
+      orderNumberSchema,
+      { retry: SAFE_RETRY, ...options }
+    );
+  } catch (error) {
+    console.error("[Order API] 주문번호 발급 실패:", error);
+    return null;
+  }
+};
+
+// ---- 매출 ----
+
+/**
+ * 결제 완료된 주문을 매출로 기록 (같은 주문은 서버에서 한 번만 집계)
+ * 다시 보내도 성공할 수 없는 요청(400 등)은 기록된 것으로 보고 재시도하지 않음
+ * 인증 오류는 키를 다시 등록하면 성공하므로 재시도 대상
+ */
+export const recordSale = async (
+  order: OrderPayload,
+  options: ApiCallOptions = {}
+): Promise<boolean> => {
+  try {
+    await kioskPost("/api/sales", { order }, s.unknown(), options);
+    return true;
+  } catch (error) {
+    const apiError = toApiError(error);
+    console.error("[Sales API] 매출 기록 실패:", apiError);
+    return apiError.kind === "validation";
+  }
+};
 
-    if (response.status !== 200) {
-      console.warn("[NFC API] Session status not ready:", response.status, response.data);
+// ---- 주방 티켓 ----
+
+/**
+ * 결제된 주문을 주방 티켓으로 등록 (같은 주문은 서버에서 한 번만 등록)
+ * 주문 큐가 true 가 될 때까지 재시도하므로, 다시 보내도 성공할 수 없는 요청(400 등)은 등록된 것으로 봄
+ */
+export const createKitchenTicket = async (
+  order: OrderPayload,
+  options: ApiCallOptions = {}
+): Promise<boolean> => {
+  try {
+    await kioskPost(
+      "/api/kitchen/tickets",
+      { order },
+      s.unknown(),
+      { retry: SAFE_RETRY, ...options }
+    );
+    return true;
+  } catch (error) {
+    const apiError = toApiError(error);
+    console.error("[Kitchen API] 주방 티켓 등록 실패:", apiError);
+    return apiError.kind === "validation";
+  }
+};
+
+/**
+ * 진행 중인 주방 티켓 목록 (접수 순)
+ */
+export const fetchKitchenTickets = (
+  options: ApiCallOptions = {}
+): Promise<KitchenTicket[]> =>
+  kioskGet("/api/kitchen/tickets", kitchenTicketsSchema, options);
+
+export type UpdateTicketResult =
+  | { success: true; status: KitchenTicketStatus }
+  // 다른 화면에서 먼저 바꿨다면(409) status 는 서버의 현재 단계
+  | { success: false; status?: KitchenTicketStatus; error: ApiError };
+
+/**
+ * 주방 티켓을 다음 단계로 변경
+ */
+export const updateKitchenTicketStatus = async (
+  orderId: string,
+  status: KitchenTicketStatus,
+  options: ApiCallOptions = {}
+): Promise<UpdateTicketResult> => {
+  try {
+    const { ticket } = await kioskPost(
+      "/api/kitchen/tickets/status",
+      { orderId, status },
+      kitchenStatusSchema,
+      options
+    );
+    return { success: true, status: ticket?.status ?? status };
+  } catch (error) {
+    const apiError = toApiError(error);
+    console.error("[Kitchen API] 티켓 상태 변경 실패:", apiError);
+    const current = readErrorBody(apiError, kitchenStatusSchema);
+    return { success: false, status: current?.status, error: apiError };
+  }
+};
+
+// ---- 스탬프 ----
+
+/**
+ * 전화번호로 스탬프 잔액 조회 (번호 형식이 맞지 않으면 null)
+ */
+export const lookupLoyalty = async (
+  phone: string,
+  options: ApiCallOptions = {}
+): Promise<LoyaltyAccount | null> => {
+  try {
+    return await kioskPost(
+      "/api/loyalty/lookup",
+      { phone },
+      loyaltyAccountSchema,
+      { retry: SAFE_RETRY, ...options }
+    );
+  } catch (error) {
+    if (isApiError(error) && error.status === 400) return null;
+    throw error;
+  }
+};
+
+// recorded: 반영됨 (다시 보내도 성공할 수 없는 요청 포함) / redeemRejected: 적립만 반영되고 쿠폰 사용은 거부됨
+// failed: 다시 보내면 성공할 수 있는 실패
+export type LoyaltyRecordResult = "recorded" | "redeemRejected" | "failed";
+
+/**
+ * 결제된 주문의 스탬프 적립 / 무료 음료 사용 (같은 주문은 서버에서 한 번만 반영)
+ * 잔액이 모자라면 서버는 적립만 반영하고 redeemRejected 로 알려 줌
+ */
+export const recordLoyaltyStamps = async (
+  orderId: string,
+  loyalty: LoyaltyStamps,
+  options: ApiCallOptions = {}
+): Promise<LoyaltyRecordResult> => {
+  try {
+    const { redeemRejected } = await kioskPost(
+      "/api/loyalty/stamps",
+      { ...loyalty, orderId },
+      loyaltyStampsResultSchema,
+      options
+    );
+    if (redeemRejected) {
+      console.error("[Loyalty API] 쿠폰 사용 거부 (스탬프 부족), 적립만 반영:", orderId);
+      return "redeemRejected";
+    }
+    return "recorded";
+  } catch (error) {
+    const apiError = toApiError(error);
+    console.error("[Loyalty API] 스탬프 반영 실패:", apiError);
+    return apiError.kind === "validation" || apiError.kind === "schema" ? "recorded" : "failed";
+  }
+};
+
+// ---- 매장 관리자 ----
+
+// 관리자 업로드 이미지는 Lambda 에서 제공 (/api/images/...), 그 외는 앱의 정적 파일
+export const resolveImageUrl = (src: string) =>
+  src.startsWith("/api/images/") ? getLambdaUrl(src) : src;
+
+// 관리자 요청은 키오스크 키 없이 토큰만으로 확인 (키를 발급받기 전 기기에서도 사용)
+const adminRequest = <T>(
+  token: string,
+  method: "GET" | "POST",
+  path: string,
+  schema: Schema<T>,
+  { body, ...options }: ApiCallOptions & {
+    body?: unknown;
+    responseType?: "json" | "blob";
+  } = {}
+) =>
+  apiRequest({
+    method,
+    url: getLambdaUrl(path),
+    body,
+    headers: () => ({
+      "Content-Type": "application/json",
+      "x-admin-token": token,
+    }),
+    schema,
+    ...options,
+  });
+
+/**
+ * 관리자 로그인 (비밀번호가 틀리면 null)
+ */
+export const adminLogin = async (
+  password: string,
+  options: ApiCallOptions = {}
+): Promise<AdminSession | null> => {
+  try {
+    return await apiRequest({
+      method: "POST",
+      url: getLambdaUrl("/api/admin/login"),
+      body: { password },
+      headers: () => ({ "Content-Type": "application/json" }),
+      schema: adminSessionSchema,
+      ...options,
+    });
+  } catch (error) {
+    if (isApiError(error) && (error.kind === "auth" || error.kind === "validation")) {
       return null;
     }
+    throw error;
+  }
+};
 
-    const data = response.data as {
-      orderId?: string;
-      receiptUrl?: string;
-      status?: string;
-      scannedAt?: number;
-      updatedAt?: number;
-    };
+export type SaveCatalogResult =
+  | { status: "saved"; catalog: Catalog }
+  // 서버 검증 실패 (항목별 메시지)
+  | { status: "invalid"; errors: string[] }
+  // 다른 관리자가 먼저 저장함
+  | { status: "conflict"; version: number }
+  // 토큰 만료 → 다시 로그인
+  | { status: "unauthorized" };
 
-    const status = (data.status || "pending") as NfcSession["status"];
-    const toIso = (ts?: number) =>
-      typeof ts === "number" ? new Date(ts * 1000).toISOString() : undefined;
+/**
+ * 관리자: 카탈로그 저장 (baseVersion 은 편집을 시작한 카탈로그 버전)
+ * 서버에 닿지 못했거나 서버 오류면 ApiError 를 던짐
+ */
+export const saveCatalog = async (
+  token: string,
+  draft: CatalogDraft,
+  baseVersion: number,
+  options: ApiCallOptions = {}
+): Promise<SaveCatalogResult> => {
+  try {
+    const catalog = await adminRequest(token, "POST", "/api/admin/catalog", catalogSchema, {
+      body: { baseVersion, categories: draft.categories, items: draft.items },
+      timeout: 10000,
+      ...options,
+    });
+    return { status: "saved", catalog };
+  } catch (error) {
+    if (!isApiError(error)) throw error;
+    if (error.kind === "auth") return { status: "unauthorized" };
+    if (error.kind !== "validation") throw error;
 
+    const rejection = readErrorBody(error, catalogRejectionSchema);
+    if (error.status === 409) {
+      return { status: "conflict", version: rejection?.version ?? 0 };
+    }
     return {
-      sessionId,
-      status,
-      orderId: data.orderId,
-      receiptUrl: data.receiptUrl,
-      scannedAt: toIso(data.scannedAt),
-      updatedAt: toIso(data.updatedAt),
-      expiresAt: new Date(Date.now() + 1000 * 60 * 5).toISOString(),
+      status: "invalid",
+      errors: rejection?.errors ?? [rejection?.error ?? "invalid"],
     };
+  }
+};
+
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+/**
+ * 관리자: 메뉴 이미지 업로드 → 카탈로그 item.image 에 넣을 경로 반환
+ */
+export const uploadMenuImage = async (
+  token: string,
+  image: Blob,
+  options: ApiCallOptions = {}
+): Promise<string> => {
+  const { url } = await adminRequest(token, "POST", "/api/admin/images", imageUploadSchema, {
+    body: { contentType: image.type, data: await toBase64(image) },
+    timeout: 15000,
+    ...options,
+  });
+  return url;
+};
+
+/**
+ * 관리자: 기간 매출 보고서 (from / to 는 영업일 YYYY-MM-DD)
+ * 토큰이 만료되었으면 null
+ */
+export const fetchSalesReport = async (
+  token: string,
+  from: string,
+  to: string,
+  options: ApiCallOptions = {}
+): Promise<SalesReport | null> => {
+  try {
+    return await adminRequest(
+      token,
+      "GET",
+      withQuery("/api/reports/sales", { from, to, storeId: STORE_ID }),
+      salesReportSchema,
+      { timeout: 15000, retry: SAFE_RETRY, ...options }
+    );
   } catch (error) {
-    console.error("[NFC API] Session status fetch error:", error);
-    return null;
+    if (isApiError(error) && error.kind === "auth") return null;
+    throw error;
+  }
+};
+
+/**
+ * 관리자: 매출 보고서 CSV 내려받기 (엑셀용 UTF-8 BOM 포함)
+ */
+export const downloadSalesCsv = (
+  token: string,
+  from: string,
+  to: string,
+  section: SalesReportSection,
+  options: ApiCallOptions = {}
+): Promise<Blob> =>
+  adminRequest(
+    token,
+    "GET",
+    withQuery("/api/reports/sales", {
+      from,
+      to,
+      storeId: STORE_ID,
+      format: "csv",
+      section,
+    }),
+    blobSchema,
+    { responseType: "blob", timeout: 30000, ...options }
+  );
+
+/**
+ * 관리자: 메뉴별 재고 / 품절 상태 (토큰이 만료되었으면 null)
+ */
+export const fetchAdminInventory = async (
+  token: string,
+  options: ApiCallOptions = {}
+): Promise<Inventory | null> => {
+  try {
+    return await adminRequest(token, "GET", "/api/admin/inventory", inventoryResponseSchema, {
+      retry: SAFE_RETRY,
+      ...options,
+    });
+  } catch (error) {
+    if (isApiError(error) && error.kind === "auth") return null;
+    throw error;
+  }
+};
+
+/**
+ * 관리자: 재고 수량 / 수동 품절 변경 (stock 이 null 이면 재고를 추적하지 않음)
+ * 변경된 상태를 반환하며, 토큰이 만료되었으면 null
+ */
+export const updateInventory = async (
+  token: string,
+  itemId: string,
+  changes: Partial<InventoryStatus>,
+  options: ApiCallOptions = {}
+): Promise<InventoryStatus | null> => {
+  try {
+    return await adminRequest(token, "POST", "/api/admin/inventory", inventoryStatusSchema, {
+      body: { itemId, ...changes },
+      ...options,
+    });
+  } catch (error) {
+    if (isApiError(error) && error.kind === "auth") return null;
+    throw error;
+  }
+};
+
+/**
+ * 관리자: 키오스크 목록과 키 상태 (토큰이 만료되었으면 null)
+ */
+export const fetchKiosks = async (
+  token: string,
+  options: ApiCallOptions = {}
+): Promise<KioskSummary[] | null> => {
+  try {
+    return await adminRequest(token, "GET", "/api/admin/kiosks", kioskListSchema, {
+      retry: SAFE_RETRY,
+      ...options,
+    });
+  } catch (error) {
+    if (isApiError(error) && error.kind === "auth") return null;
+    throw error;
   }
 };
+
+/**
+ * 관리자: 키오스크 키 발급 / 교체 (비밀 키는 이 응답에서만 받을 수 있음)
+ */
+export const issueKioskKey = (
+  token: string,
+  kioskId: string,
+  options: ApiCallOptions = {}
+): Promise<KioskCredential> =>
+  adminRequest(token, "POST", "/api/admin/kiosks/keys", kioskCredentialSchema, {
+    // 키오스크의 매장은 키를 발급할 때 정해지고, 이후 요청의 매장은 이 값으로 결정됨
+    body: { kioskId, storeId: STORE_ID },
+    ...options,
+  });
+
+/**
+ * 관리자: 키오스크 키 폐기 (keyId 가 없으면 그 키오스크의 모든 키)
+ */
+export const revokeKioskKey = (
+  token: string,
+  kioskId: string,
+  keyId?: string,
+  options: ApiCallOptions = {}
+): Promise<KioskSummary> =>
+  adminRequest(token, "POST", "/api/admin/kiosks/revoke", kioskSummarySchema, {
+    body: { kioskId, keyId },
+    ...options,
+  });
@@ -0,0 +1,195 @@
+import axios from "axios";
+import { SchemaError, type Schema } from "./schema";
+
+/**
+ * API 오류 종류
+ * network: 서버에 닿지 못함 / timeout: 응답 시간 초과 / auth: 인증 거부 (401, 403)
+ * validation: 서버가 요청을 거부함 (그 외 4xx) / server: 서버 오류 (5xx, 408, 429)
+ * schema: 서버는 요청을 처리했지만(2xx) 응답 형식이 다름 (다시 보내면 같은 요청이 두 번 처리될 수 있음)
+ */
+export type ApiErrorKind = "network" | "timeout" | "auth" | "validation" | "server" | "schema";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  // HTTP 상태 코드 (응답을 받지 못했으면 null)
+  readonly status: number | null;
+  // 서버가 돌려준 오류 본문 (409 의 현재 버전처럼 호출한 쪽에서 필요한 경우 readErrorBody 로 읽음)
+  readonly body: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number | null; body?: unknown; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status ?? null;
+    this.body = options.body;
+  }
+
+  // 같은 요청을 다시 보내면 성공할 수 있는지 (인증 / 요청 / 응답 형식 오류는 다시 보내도 같음)
+  get retryable() {
+    return this.kind === "network" || this.kind === "timeout" || this.kind === "server";
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+/**
+ * 오류 본문을 스키마로 읽기 (형식이 다르면 null)
+ */
+export const readErrorBody = <T>(error: ApiError, schema: Schema<T>): T | null => {
+  try {
+    return schema.parse(error.body);
+  } catch {
+    return null;
+  }
+};
+
+export interface RetryPolicy {
+  // 첫 요청 외에 다시 보낼 횟수
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// 호출하는 쪽에서 API 함수마다 바꿀 수 있는 설정
+export interface ApiCallOptions {
+  retry?: RetryPolicy;
+  timeout?: number;
+}
+
+export interface ApiRequest<T> extends ApiCallOptions {
+  method: "GET" | "POST";
+  url: string;
+  // 문자열이면 그대로 전송 (서명한 본문이 바뀌지 않도록)
+  body?: unknown;
+  // 시도할 때마다 새로 만드는 헤더 (키오스크 서명은 nonce 가 있어 재사용할 수 없음)
+  headers?: () => Record<string, string> | Promise<Record<string, string>>;
+  schema: Schema<T>;
+  responseType?: "json" | "blob";
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms));
+
+// API Gateway 프록시 형식({ statusCode, body: "<JSON 문자열>" }) 으로 감싸진 응답의 키
+const ENVELOPE_KEYS = new Set(["statusCode", "headers", "multiValueHeaders", "body", "isBase64Encoded"]);
+
+const isEnvelope = (data: unknown): data is { statusCode?: number; body: unknown } =>
+  typeof data === "object" &&
+  data !== null &&
+  "body" in data &&
+  Object.keys(data).every((key) => ENVELOPE_KEYS.has(key));
+
+const isSuccess = (status: number) => status >= 200 && status < 300;
+
+const kindForStatus = (status: number): ApiErrorKind => {
+  if (status === 401 || status === 403) return "auth";
+  if (status >= 500 || status === 408 || status === 429) return "server";
+  return "validation";
+};
+
+const unwrapEnvelope = (status: number, data: unknown) => {
+  if (!isEnvelope(data)) return { status, data };
+  const innerStatus = typeof data.statusCode === "number" ? data.statusCode : status;
+  if (typeof data.body !== "string") return { status: innerStatus, data: data.body };
+  try {
+    return { status: innerStatus, data: data.body ? JSON.parse(data.body) : null };
+  } catch (error) {
+    const kind = isSuccess(innerStatus) ? "schema" : kindForStatus(innerStatus);
+    throw new ApiError(kind, "응답 본문을 JSON 으로 읽을 수 없습니다", {
+      status: innerStatus,
+      body: data.body,
+      cause: error,
+    });
+  }
+};
+
+const serverMessage = (status: number, data: unknown) => {
+  const message =
+    typeof data === "object" && data !== null && "error" in data ? data.error : null;
+  return typeof message === "string" ? `HTTP ${status}: ${message}` : `HTTP ${status}`;
+};
+
+/**
+ * 어떤 오류든 ApiError 로 (apiRequest 밖에서 잡은 오류를 결과에 담을 때 사용)
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+  if (error instanceof SchemaError) {
+    return new ApiError("schema", `응답 형식 오류 (${error.message})`, { cause: error });
+  }
+  if (axios.isAxiosError(error)) {
+    const isTimeout = error.code === "ECONNABORTED" || error.code === "ETIMEDOUT";
+    return new ApiError(isTimeout ? "timeout" : "network", error.message, { cause: error });
+  }
+  // 요청을 보내기 전에 실패함 (서명 등)
+  return new ApiError("network", String(error), { cause: error });
+};
+
+const sendOnce = async <T>(request: ApiRequest<T>): Promise<T> => {
+  const response = await axios.request({
+    method: request.method,
+    url: request.url,
+    data: request.body,
+    headers: request.headers ? await request.headers() : undefined,
+    timeout: request.timeout ?? DEFAULT_TIMEOUT_MS,
+    responseType: request.responseType ?? "json",
+    // 상태 코드는 아래에서 오류 종류로 나눔
+    validateStatus: () => true,
+  });
+
+  const { status, data } =
+    request.responseType === "blob"
+      ? { status: response.status, data: response.data as unknown }
+      : unwrapEnvelope(response.status, response.data);
+  if (!isSuccess(status)) {
+    throw new ApiError(kindForStatus(status), serverMessage(status, data), {
+      status,
+      body: data,
+    });
+  }
+  try {
+    return request.schema.parse(data);
+  } catch (error) {
+    // 상태 코드를 남겨 호출한 쪽에서 서버가 처리한 요청인지 알 수 있도록 함
+    if (!(error instanceof SchemaError)) throw error;
+    throw new ApiError("schema", `응답 형식 오류 (${error.message})`, {
+      status,
+      body: data,
+      cause: error,
+    });
+  }
+};
+
+/**
+ * 요청을 보내고 응답을 스키마로 검증해 반환
+ * 실패하면 항상 ApiError 를 던지며, 다시 보내서 성공할 수 있는 오류만 retry 설정대로 재시도 (지수 백오프)
+ */
+export const apiRequest = async <T>(request: ApiRequest<T>): Promise<T> => {
+  const {
+    retries,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = request.retry ?? { retries: 0 };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendOnce(request);
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (!apiError.retryable || attempt >= retries) throw apiError;
+      const delay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      console.warn(
+        `[API] ${request.method} ${request.url} 실패 (${apiError.kind}), ${attempt + 1}번째 재시도 대기`
+      );
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+};
@@ -0,0 +1,329 @@
+import type {
+  AdminSession,
+  Catalog,
+  Category,
+  Inventory,
+  InventoryStatus,
+  KioskCredential,
+  KioskSummary,
+  KitchenTicket,
+  KitchenTicketStatus,
+  LoyaltyAccount,
+  MenuItemType,
+  NfcSession,
+  Promotion,
+  SalesBreakdownRow,
+  SalesReport,
+  SalesTotals,
+  UnavailableItem,
+} from "../types";
+import * as s from "./schema";
+
+// ---- 주문 ----
+
+// 주문 서버 응답 (API Gateway 형식으로 감싸져 와도 apiRequest 가 풀어서 검증)
+export const orderCreatedSchema = s.object({ short_url: s.string() });
+
+export const orderNumberSchema = s.object({
+  orderNumber: s.number(),
+  businessDate: s.string(),
+});
+
+// ---- 메뉴 카탈로그 ----
+
+const localizedTextSchema = s.optional(s.record(s.string()));
+
+const menuOptionGroupSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  names: localizedTextSchema,
+  required: s.boolean(),
+  selectionType: s.literal("single", "multi"),
+  minSelect: s.number(),
+  maxSelect: s.number(),
+  options: s.array(
+    s.object({
+      id: s.string(),
+      name: s.string(),
+      names: localizedTextSchema,
+      priceDelta: s.number(),
+    })
+  ),
+  defaultOptionIds: s.optional(s.array(s.string())),
+});
+
+const menuItemSchema: s.Schema<MenuItemType> = s.object({
+  id: s.string(),
+  name: s.string(),
+  names: localizedTextSchema,
+  price: s.number(),
+  image: s.string(),
+  category: s.string(),
+  optionGroups: s.optional(s.array(menuOptionGroupSchema)),
+  taxExempt: s.optional(s.boolean()),
+});
+
+const categorySchema: s.Schema<Category> = s.object({
+  id: s.string(),
+  name: s.string(),
+  names: localizedTextSchema,
+});
+
+const promotionSchema: s.Schema<Promotion> = s.object({
+  id: s.string(),
+  name: s.string(),
+  names: localizedTextSchema,
+  type: s.literal("percent", "fixed", "buyXGetY"),
+  value: s.optional(s.number()),
+  buyQuantity: s.optional(s.number()),
+  getQuantity: s.optional(s.number()),
+  target: s.optional(
+    s.object({
+      itemIds: s.optional(s.array(s.string())),
+      categoryIds: s.optional(s.array(s.string())),
+    })
+  ),
+  schedule: s.optional(
+    s.object({
+      startDate: s.optional(s.string()),
+      endDate: s.optional(s.string()),
+      startTime: s.optional(s.string()),
+      endTime: s.optional(s.string()),
+      daysOfWeek: s.optional(s.array(s.number())),
+    })
+  ),
+  minAmount: s.optional(s.number()),
+});
+
+export const catalogSchema: s.Schema<Catalog> = s.object({
+  version: s.number(),
+  updatedAt: s.optional(s.string()),
+  categories: s.array(categorySchema),
+  items: s.array(menuItemSchema),
+  promotions: s.optional(s.array(promotionSchema)),
+});
+
+// knownVersion 과 같으면 { notModified: true } 만 내려옴 → null
+const notModifiedSchema = s.object({ notModified: s.optional(s.boolean()) });
+
+export const catalogResponseSchema: s.Schema<Catalog | null> = {
+  parse: (value, path) =>
+    notModifiedSchema.parse(value, path).notModified
+      ? null
+      : catalogSchema.parse(value, path),
+};
+
+// 관리자 저장 실패 응답 (400: 항목별 오류 / 409: 서버의 현재 버전)
+export const catalogRejectionSchema = s.object({
+  error: s.optional(s.string()),
+  errors: s.optional(s.array(s.string())),
+  version: s.optional(s.number()),
+});
+
+// ---- 재고 ----
+
+// 관리자 재고 변경 응답에도 사용
+export const inventoryStatusSchema: s.Schema<InventoryStatus> = s.object({
+  stock: s.nullable(s.number()),
+  soldOut: s.boolean(),
+});
+
+export const inventorySchema: s.Schema<Inventory> = s.record(inventoryStatusSchema);
+
+export const inventoryResponseSchema = s.transform(
+  s.object({ items: s.optional(inventorySchema) }),
+  ({ items }) => items ?? {}
+);
+
+const unavailableItemSchema: s.Schema<UnavailableItem> = s.object({
+  id: s.string(),
+  requested: s.number(),
+  available: s.nullable(s.number()),
+});
+
+// 재고 확인 응답과 재고 차감 실패(409) 응답 공용
+export const inventoryCheckSchema = s.object({
+  ok: s.optional(s.boolean()),
+  unavailable: s.transform(
+    s.optional(s.array(unavailableItemSchema)),
+    (items) => items ?? []
+  ),
+});
+
+// ---- NFC 세션 ----
+
+export const sessionStatusSchema: s.Schema<NfcSession["status"]> = s.literal(
+  "pending",
+  "ready",
+  "tagging",
+  "scanned",
+  "completed",
+  "expired",
+  "failed"
+);
+
+// Lambda 세션 응답 (시각은 초 단위)
+export const sessionResponseSchema = s.object({
+  sessionId: s.optional(s.string()),
+  kioskId: s.optional(s.string()),
+  orderId: s.optional(s.string()),
+  receiptUrl: s.optional(s.string()),
+  status: s.optional(sessionStatusSchema),
+  scannedAt: s.optional(s.number()),
+  updatedAt: s.optional(s.number()),
+  expiresAt: s.optional(s.number()),
+  // 세션별 QR 링크 (Lambda 에 PUBLIC_BASE_URL 이 설정된 경우에만)
+  qrUrl: s.nullable(s.string()),
+  // 세션 생성 응답에만 포함: 서명된 자체 영수증 링크 또는 외부 링크
+  directReceiptUrl: s.nullable(s.string()),
+});
+
+export type SessionResponse = s.Infer<typeof sessionResponseSchema>;
+
+// 세션 생성 응답 (세션 ID 가 없으면 생성 실패)
+export const createdSessionSchema = s.object({
+  sessionId: s.string(),
+  expiresAt: s.optional(s.number()),
+  qrUrl: s.nullable(s.string()),
+  directReceiptUrl: s.nullable(s.string()),
+});
+
+// 상태 푸시 메시지 (세션 상태 외의 메시지는 무시)
+export const sessionEventSchema = s.object({
+  type: s.optional(s.string()),
+  session: s.optional(sessionResponseSchema),
+});
+
+// ---- 주방 티켓 ----
+
+const ticketStatusSchema: s.Schema<KitchenTicketStatus> = s.literal(
+  "received",
+  "preparing",
+  "ready",
+  "pickedUp"
+);
+
+// 서버는 epoch 초 단위 → 앱에서는 ms
+export const kitchenTicketSchema: s.Schema<KitchenTicket> = s.transform(
+  s.object({
+    orderId: s.string(),
+    orderNumber: s.nullable(s.number()),
+    orderType: s.literal("takeout", "dinein"),
+    items: s.array(
+      s.object({
+        name: s.string(),
+        qty: s.number(),
+        options: s.array(s.string()),
+      })
+    ),
+    status: ticketStatusSchema,
+    createdAt: s.number(),
+    updatedAt: s.number(),
+  }),
+  (ticket) => ({
+    ...ticket,
+    createdAt: ticket.createdAt * 1000,
+    updatedAt: ticket.updatedAt * 1000,
+  })
+);
+
+export const kitchenTicketsSchema = s.transform(
+  s.object({ tickets: s.optional(s.array(kitchenTicketSchema)) }),
+  ({ tickets }) => tickets ?? []
+);
+
+// 상태 변경 응답: 성공하면 ticket, 409 면 서버의 현재 단계(status)
+export const kitchenStatusSchema = s.object({
+  ticket: s.optional(kitchenTicketSchema),
+  status: s.optional(ticketStatusSchema),
+});
+
+// ---- 스탬프 ----
+
+export const loyaltyAccountSchema: s.Schema<LoyaltyAccount> = s.object({
+  maskedPhone: s.string(),
+  stamps: s.number(),
+  threshold: s.number(),
+  rewards: s.number(),
+});
+
+export const loyaltyStampsResultSchema = s.object({
+  redeemRejected: s.optional(s.boolean()),
+});
+
+// ---- 매장 관리자 ----
+
+export const adminSessionSchema: s.Schema<AdminSession> = s.object({
+  token: s.string(),
+  expiresAt: s.string(),
+});
+
+export const imageUploadSchema = s.object({ url: s.string() });
+
+export const blobSchema = s.custom(
+  "파일",
+  (value): value is Blob => value instanceof Blob
+);
+
+const salesTotalsShape = {
+  orderCount: s.number(),
+  total: s.number(),
+  supplyPrice: s.number(),
+  tax: s.number(),
+  taxFree: s.number(),
+  discount: s.number(),
+  averageTicket: s.number(),
+};
+
+const salesTotalsSchema: s.Schema<SalesTotals> = s.object(salesTotalsShape);
+
+const salesBreakdownSchema: s.Schema<SalesBreakdownRow[]> = s.array(
+  s.object({
+    id: s.string(),
+    name: s.optional(s.string()),
+    category: s.optional(s.string()),
+    count: s.number(),
+    qty: s.number(),
+    total: s.number(),
+    averageTicket: s.optional(s.number()),
+  })
+);
+
+export const salesReportSchema: s.Schema<SalesReport> = s.object({
+  storeId: s.string(),
+  from: s.string(),
+  to: s.string(),
+  summary: salesTotalsSchema,
+  days: s.array(s.object({ ...salesTotalsShape, date: s.string() })),
+  items: salesBreakdownSchema,
+  categories: salesBreakdownSchema,
+  orderTypes: salesBreakdownSchema,
+  hours: s.array(
+    s.object({ hour: s.number(), count: s.number(), total: s.number() })
+  ),
+});
+
+export const kioskSummarySchema: s.Schema<KioskSummary> = s.object({
+  kioskId: s.string(),
+  storeId: s.string(),
+  revokedAt: s.nullable(s.number()),
+  keys: s.array(
+    s.object({
+      keyId: s.string(),
+      createdAt: s.number(),
+      expiresAt: s.nullable(s.number()),
+    })
+  ),
+  updatedAt: s.number(),
+});
+
+export const kioskListSchema = s.transform(
+  s.object({ kiosks: s.optional(s.array(kioskSummarySchema)) }),
+  ({ kiosks }) => kiosks ?? []
+);
+
+export const kioskCredentialSchema: s.Schema<KioskCredential> = s.object({
+  kioskId: s.string(),
+  keyId: s.string(),
+  secret: s.string(),
+});
@@ -0,0 +1,50 @@
+import type { Catalog, Category } from "../types";
+import { catalogSchema } from "./apiSchemas";
+// 서버(Lambda)가 저장된 카탈로그가 없을 때 내려주는 기본 메뉴와 같은 파일 (따로 관리하면 어긋남)
+import seedCatalog from "../../lambda/data/catalog.json";
+
+const CACHE_KEY = "kiosk.catalog";
+
+// "전체" 는 실제 카테고리가 아니라 화면용 필터
+export const ALL_CATEGORY: Category = { id: "all", name: "전체" };
+
+// 백엔드와 캐시가 모두 없을 때 사용하는 빌드 시점 메뉴
+// 버전 0: 서버에 어떤 버전이 있든 처음 연결되면 내려받도록 함
+export const BUNDLED_CATALOG: Catalog = {
+  ...catalogSchema.parse(seedCatalog),
+  version: 0,
+};
+
+const isCatalog = (value: unknown): value is Catalog => {
+  const catalog = value as Catalog | null;
+  return (
+    typeof catalog?.version === "number" &&
+    Array.isArray(catalog.categories) &&
+    Array.isArray(catalog.items)
+  );
+};
+
+export const loadCachedCatalog = (): Catalog | null => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return isCatalog(parsed) ? parsed : null;
+  } catch (error) {
+    console.warn("[Catalog] 캐시를 읽지 못했습니다:", error);
+    return null;
+  }
+};
+
+export const saveCachedCatalog = (catalog: Catalog) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(catalog));
+  } catch (error) {
+    console.warn("[Catalog] 캐시 저장 실패:", error);
+  }
+};
+
+export const withAllCategory = (categories: Category[]): Category[] =>
+  categories.some((category) => category.id === ALL_CATEGORY.id)
+    ? categories
+    : [ALL_CATEGORY, ...categories];
@@ -0,0 +1,38 @@
+// 픽업 안내 화면 알림음: 별도 음원 없이 Web Audio 로 두 음 재생
+const CHIME_NOTES_HZ = [880, 660] as const;
+const NOTE_DURATION_S = 0.35;
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (typeof AudioContext === "undefined") return null;
+  if (!audioContext) audioContext = new AudioContext();
+  return audioContext;
+};
+
+/**
+ * 알림음 재생 (브라우저 자동 재생 정책으로 막히면 조용히 무시)
+ */
+export const playChime = async () => {
+  const context = getAudioContext();
+  if (!context) return;
+  try {
+    if (context.state === "suspended") await context.resume();
+  } catch (error) {
+    console.warn("[Chime] 오디오 재생이 허용되지 않았습니다:", error);
+    return;
+  }
+
+  CHIME_NOTES_HZ.forEach((frequency, index) => {
+    const start = context.currentTime + index * NOTE_DURATION_S;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + NOTE_DURATION_S);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + NOTE_DURATION_S);
+  });
+};
@@ -0,0 +1,25 @@
+// 업로드 전 이미지 축소: 메뉴 카드에는 이 정도면 충분하고 서버 용량 제한(256KB) 안에 들어감
+const MAX_IMAGE_SIZE = 800;
+const JPEG_QUALITY = 0.85;
+
+/**
+ * 긴 변이 MAX_IMAGE_SIZE 이하가 되도록 줄여서 JPEG 로 변환
+ */
+export const resizeImage = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("이미지를 변환하지 못했습니다.")),
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+};
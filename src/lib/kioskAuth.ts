@@ -0,0 +1,76 @@
+import type { KioskCredential } from "../types";
+
+// 키오스크 기기에 계속 남아 있어야 하므로 localStorage 사용 (번들에는 키가 들어가지 않음)
+const CREDENTIAL_KEY = "kiosk.credential";
+
+export const loadKioskCredential = (): KioskCredential | null => {
+  try {
+    const raw = localStorage.getItem(CREDENTIAL_KEY);
+    if (!raw) return null;
+    const credential = JSON.parse(raw) as KioskCredential;
+    return credential?.kioskId && credential.keyId && credential.secret
+      ? credential
+      : null;
+  } catch (error) {
+    console.warn("[KioskAuth] 키오스크 키를 읽지 못했습니다:", error);
+    return null;
+  }
+};
+
+export const saveKioskCredential = (credential: KioskCredential) => {
+  localStorage.setItem(CREDENTIAL_KEY, JSON.stringify(credential));
+};
+
+export const clearKioskCredential = () => {
+  localStorage.removeItem(CREDENTIAL_KEY);
+};
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/**
+ * 키오스크 요청 서명 헤더 (Lambda 의 kiosk-auth.mjs 와 같은 형식)
+ * target 은 /api/ 로 시작하는 경로 + 쿼리, body 는 실제로 보내는 문자열 그대로
+ * 이 기기에 키가 없으면 빈 헤더 (서버가 401 로 거절)
+ */
+export const signKioskRequest = async (
+  method: string,
+  target: string,
+  body = ""
+): Promise<Record<string, string>> => {
+  const credential = loadKioskCredential();
+  if (!credential) {
+    console.warn("[KioskAuth] 키오스크 키가 없습니다. 관리자 화면에서 이 기기를 등록하세요.");
+    return {};
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+  const bodyHash = toHex(await crypto.subtle.digest("SHA-256", encoder.encode(body)));
+  const canonical = [method.toUpperCase(), target, timestamp, nonce, bodyHash].join("\n");
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(credential.secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(canonical));
+
+  return {
+    "x-kiosk-id": credential.kioskId,
+    "x-kiosk-key-id": credential.keyId,
+    "x-kiosk-timestamp": timestamp,
+    "x-kiosk-nonce": nonce,
+    "x-kiosk-signature": toBase64Url(new Uint8Array(signature)),
+  };
+};
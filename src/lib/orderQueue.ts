@@ -0,0 +1,338 @@
+import {
+  consumeInventory,
+  createKitchenTicket,
+  recordLoyaltyStamps,
+  recordSale,
+  sendOrderData,
+} from "./api";
+import type { OrderPayload, SendOrderResult } from "./api";
+import { ApiError } from "./apiClient";
+import type { InventoryLine, LoyaltyStamps } from "../types";
+
+const DB_NAME = "kiosk";
+const DB_VERSION = 1;
+const STORE_NAME = "orders";
+
+const WORKER_INTERVAL_MS = 5000;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// pending: 전송 대기 / rejected: 서버가 거부해 자동 재전송을 멈췄거나, 처리는 끝났지만 review 사유가 있는 주문 (직원 확인 필요)
+export type QueuedOrderStatus = "pending" | "rejected";
+
+export interface QueuedOrder {
+  id: string;
+  payload: OrderPayload;
+  status: QueuedOrderStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // 주문 서버 전송과 매출 기록(Lambda)은 따로 성공할 수 있으므로 각각 표시
+  sent?: boolean;
+  shortUrl?: string;
+  recorded?: boolean;
+  // 주방 티켓 등록 (서버가 주문 ID 로 중복 등록을 막으므로 다시 보내도 됨)
+  ticketed?: boolean;
+  // 전화번호를 입력한 주문의 스탬프 적립 / 사용 (stamped 가 true 가 될 때까지 재시도)
+  loyalty?: LoyaltyStamps;
+  stamped?: boolean;
+  // 결제 화면에서 차감하지 못한 재고 (consumed 가 true 가 될 때까지 재시도, 같은 주문은 서버에서 한 번만 차감)
+  inventory?: InventoryLine[];
+  consumed?: boolean;
+  // 처리는 됐지만 직원 확인이 필요한 사유 (후속 처리를 모두 마쳐도 지우지 않고 rejected 로 남김)
+  review?: string;
+}
+
+export interface PendingOrderCounts {
+  pending: number;
+  rejected: number;
+}
+
+type Listener = (counts: PendingOrderCounts) => void;
+
+// ---- 저장소 (IndexedDB, 사용할 수 없으면 메모리) ----
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, QueuedOrder>();
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        console.warn("[OrderQueue] IndexedDB 미지원, 메모리 큐 사용");
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("[OrderQueue] IndexedDB 열기 실패:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  if (!db) throw new Error("IndexedDB unavailable");
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const saveEntry = async (entry: QueuedOrder) => {
+  if (!(await openDb())) {
+    memoryStore.set(entry.id, entry);
+    return;
+  }
+  await runTransaction("readwrite", (store) => store.put(entry));
+};
+
+const deleteEntry = async (id: string) => {
+  if (!(await openDb())) {
+    memoryStore.delete(id);
+    return;
+  }
+  await runTransaction("readwrite", (store) => store.delete(id));
+};
+
+const loadEntry = async (id: string): Promise<QueuedOrder | undefined> => {
+  if (!(await openDb())) return memoryStore.get(id);
+  return runTransaction("readonly", (store) => store.get(id));
+};
+
+export const listQueuedOrders = async (): Promise<QueuedOrder[]> => {
+  if (!(await openDb())) return [...memoryStore.values()];
+  return runTransaction("readonly", (store) => store.getAll());
+};
+
+// ---- 대기 건수 구독 ----
+
+const listeners = new Set<Listener>();
+let lastCounts: PendingOrderCounts = { pending: 0, rejected: 0 };
+
+const notify = async () => {
+  const entries = await listQueuedOrders();
+  lastCounts = {
+    pending: entries.filter((entry) => entry.status === "pending").length,
+    rejected: entries.filter((entry) => entry.status === "rejected").length,
+  };
+  listeners.forEach((listener) => listener(lastCounts));
+};
+
+export const subscribePendingOrders = (listener: Listener) => {
+  listeners.add(listener);
+  listener(lastCounts);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// ---- 전송 / 재시도 ----
+
+// 지수 백오프 + 지터 (여러 키오스크가 동시에 재전송하지 않도록)
+const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// 전송 중인 주문 ID (같은 주문을 동시에 두 번 보내지 않도록 전송 직전에 확인)
+const inFlight = new Set<string>();
+
+// 주문 서버 전송 외에 Lambda 쪽 후속 처리(매출 기록, 주방 티켓, 스탬프, 재고 차감)가 남았는지
+const hasPendingFollowUps = (entry: QueuedOrder) =>
+  !entry.recorded ||
+  !entry.ticketed ||
+  Boolean(entry.loyalty && !entry.stamped) ||
+  Boolean(entry.inventory && !entry.consumed);
+
+// 재고 차감: 서버가 거부한 요청(재고 부족 409 등)은 다시 보내도 같으므로 기록만 남기고 끝낸 것으로 봄
+const consumeQueuedInventory = async (entry: QueuedOrder, lines: InventoryLine[]) => {
+  const result = await consumeInventory(entry.payload.order_id, lines);
+  if (result.success) return true;
+  if (result.error.kind !== "validation") return false;
+  console.error(
+    "[OrderQueue] 결제된 주문의 재고를 차감하지 못함 (직원 확인 필요):",
+    entry.id,
+    result.unavailable
+  );
+  return true;
+};
+
+const isDue = (entry: QueuedOrder, now: number) =>
+  (entry.status === "pending" || hasPendingFollowUps(entry)) &&
+  entry.nextAttemptAt <= now &&
+  !inFlight.has(entry.id);
+
+// 응답 형식만 다른 경우(2xx)는 주문 서버가 이미 받은 주문이므로 다시 보내지 않음
+const isDelivered = (result: SendOrderResult) =>
+  result.success || result.error.kind === "schema";
+
+const attemptSend = async (
+  entry: QueuedOrder
+): Promise<SendOrderResult & { recorded: boolean; sent: boolean }> => {
+  inFlight.add(entry.id);
+  try {
+    // 서버가 거부한 주문은 Lambda 쪽 후속 처리만 다시 시도
+    const [recorded, ticketed, stampResult, consumed, result] = await Promise.all([
+      entry.recorded || recordSale(entry.payload),
+      entry.ticketed || createKitchenTicket(entry.payload),
+      !entry.loyalty || entry.stamped
+        ? ("recorded" as const)
+        : recordLoyaltyStamps(entry.payload.order_id, entry.loyalty),
+      !entry.inventory ||
+        entry.consumed ||
+        consumeQueuedInventory(entry, entry.inventory),
+      entry.sent
+        ? ({ success: true, shortUrl: entry.shortUrl ?? "" } as const)
+        : entry.status === "rejected"
+          ? ({
+              success: false,
+              error: new ApiError("validation", entry.lastError ?? "주문 서버가 거부한 주문"),
+            } as const)
+          : sendOrderData(entry.payload),
+    ]);
+
+    const sent = isDelivered(result);
+    const error = result.success ? undefined : result.error;
+    const stamped = stampResult !== "failed";
+    // 쿠폰 할인은 이미 결제에 들어갔는데 서버에서 사용이 거부됨 (적립은 반영됨)
+    const review =
+      entry.review ??
+      (stampResult === "redeemRejected"
+        ? "무료 음료 쿠폰 사용 거부 (스탬프 부족), 할인 확인 필요"
+        : undefined);
+    const done = sent && recorded && ticketed && stamped && consumed;
+
+    if (done && !review) {
+      await deleteEntry(entry.id);
+    } else {
+      const attempts = entry.attempts + 1;
+      await saveEntry({
+        ...entry,
+        attempts,
+        status: !done && (sent || error?.retryable) ? "pending" : "rejected",
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        lastError: done
+          ? review
+          : error && !sent
+            ? error.message
+            : !recorded
+              ? "매출 기록 실패"
+              : !ticketed
+                ? "주방 티켓 등록 실패"
+                : !stamped
+                  ? "스탬프 반영 실패"
+                  : "재고 차감 실패",
+        sent,
+        shortUrl: result.success ? result.shortUrl : undefined,
+        recorded,
+        ticketed,
+        stamped,
+        consumed,
+        review,
+      });
+    }
+    return { ...result, recorded, sent };
+  } finally {
+    inFlight.delete(entry.id);
+    await notify();
+  }
+};
+
+/**
+ * 주문을 먼저 큐에 기록한 뒤 전송 (실패하면 백그라운드에서 재시도)
+ */
+export const submitOrder = async (
+  payload: OrderPayload,
+  loyalty?: LoyaltyStamps,
+  inventory?: InventoryLine[]
+): Promise<SendOrderResult & { queued: boolean; recorded: boolean; sent: boolean }> => {
+  const entry: QueuedOrder = {
+    id: payload.order_id,
+    payload,
+    loyalty,
+    inventory,
+    status: "pending",
+    attempts: 0,
+    createdAt: Date.now(),
+    nextAttemptAt: Date.now(),
+  };
+
+  // 큐에 기록한 직후 재전송 작업이 같은 주문을 집어 가지 않도록 먼저 전송 중으로 표시
+  inFlight.add(entry.id);
+  try {
+    await saveEntry(entry);
+  } catch (error) {
+    // 큐 기록에 실패해도 전송은 시도
+    console.error("[OrderQueue] 주문 큐 기록 실패:", error);
+  }
+
+  const result = await attemptSend(entry);
+  return { ...result, queued: !result.sent };
+};
+
+const runFlush = async () => {
+  const due = (await listQueuedOrders()).filter((entry) => isDue(entry, Date.now()));
+
+  for (const { id } of due) {
+    // 목록을 만든 뒤 다른 전송(새 주문 등)이 끝났을 수 있으므로 최신 기록으로 다시 확인
+    const entry = await loadEntry(id);
+    if (!entry || !isDue(entry, Date.now())) continue;
+    console.log(`[OrderQueue] 재전송 시도 (${entry.attempts + 1}회차):`, entry.id);
+    await attemptSend(entry);
+  }
+};
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * 대기 중인 주문 재전송 (타이머와 online 이벤트가 겹치면 진행 중인 재전송을 함께 기다림)
+ */
+export const flushOrderQueue = () => {
+  flushing ??= runFlush().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
+
+let workerTimer: number | undefined;
+
+/**
+ * 앱 시작 시 한 번 호출: 새로고침 전에 남아 있던 주문도 이어서 재전송
+ */
+export const startOrderQueueWorker = () => {
+  if (workerTimer !== undefined) return;
+
+  const tick = async () => {
+    try {
+      await flushOrderQueue();
+    } catch (error) {
+      console.error("[OrderQueue] 재전송 처리 중 오류:", error);
+    } finally {
+      workerTimer = window.setTimeout(tick, WORKER_INTERVAL_MS);
+    }
+  };
+
+  window.addEventListener("online", () => {
+    void flushOrderQueue();
+  });
+  void notify();
+  void tick();
+};
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PaymentProvider, PaymentRequest, PaymentResult } from "../types";
+import { cancelApprovedPayment, requestPaymentWithTimeout } from "./payment";
+
+const REQUEST: PaymentRequest = { amount: 4500, orderName: "아메리카노" };
+const APPROVED: PaymentResult = { outcome: "approved", approvalNumber: "12345678" };
+
+// 응답 시점을 테스트에서 정하는 단말
+const createManualTerminal = (withCancel = true) => {
+  let answer: (result: PaymentResult) => void = () => {};
+  const provider = {
+    name: "manual",
+    requestPayment: vi.fn(
+      () =>
+        new Promise<PaymentResult>((resolve) => {
+          answer = resolve;
+        })
+    ),
+    cancelPayment: withCancel ? vi.fn(async () => {}) : undefined,
+  } satisfies PaymentProvider;
+  return { provider, answer: (result: PaymentResult) => answer(result) };
+};
+
+// 늦게 도착한 응답의 후속 처리(승인 취소)가 끝날 때까지 대기
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe("requestPaymentWithTimeout", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", globalThis);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("제한 시간 안에 온 단말 응답을 그대로 돌려줌", async () => {
+    const { provider, answer } = createManualTerminal();
+    const pending = requestPaymentWithTimeout(provider, REQUEST, { timeoutMs: 1000 });
+    await flush();
+
+    answer(APPROVED);
+
+    await expect(pending).resolves.toEqual(APPROVED);
+    expect(provider.cancelPayment).not.toHaveBeenCalled();
+  });
+
+  it("제한 시간이 지나면 timeout 으로 끝내고 단말 요청을 중단", async () => {
+    const { provider } = createManualTerminal();
+    const pending = requestPaymentWithTimeout(provider, REQUEST, { timeoutMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toMatchObject({ outcome: "timeout" });
+    const [, options] = provider.requestPayment.mock.calls[0] as unknown as [
+      PaymentRequest,
+      { signal: AbortSignal },
+    ];
+    expect(options.signal.aborted).toBe(true);
+  });
+
+  it("시간 초과 뒤에 도착한 승인은 단말에 취소 요청", async () => {
+    const { provider, answer } = createManualTerminal();
+    const pending = requestPaymentWithTimeout(provider, REQUEST, { timeoutMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+
+    answer(APPROVED);
+    await flush();
+
+    expect(provider.cancelPayment).toHaveBeenCalledWith(APPROVED);
+  });
+
+  it("시간 초과 뒤에 도착한 거절은 취소하지 않음", async () => {
+    const { provider, answer } = createManualTerminal();
+    const pending = requestPaymentWithTimeout(provider, REQUEST, { timeoutMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+
+    answer({ outcome: "declined" });
+    await flush();
+
+    expect(provider.cancelPayment).not.toHaveBeenCalled();
+  });
+
+  it("호출한 쪽이 중단하면 cancelled 로 끝내고 늦은 승인은 취소", async () => {
+    const { provider, answer } = createManualTerminal();
+    const controller = new AbortController();
+    const pending = requestPaymentWithTimeout(provider, REQUEST, {
+      signal: controller.signal,
+      timeoutMs: 1000,
+    });
+
+    controller.abort();
+    await expect(pending).resolves.toMatchObject({ outcome: "cancelled" });
+
+    answer(APPROVED);
+    await flush();
+    expect(provider.cancelPayment).toHaveBeenCalledWith(APPROVED);
+  });
+
+  it("이미 중단된 signal 이면 단말 응답을 기다리지 않음", async () => {
+    const { provider } = createManualTerminal();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      requestPaymentWithTimeout(provider, REQUEST, { signal: controller.signal })
+    ).resolves.toMatchObject({ outcome: "cancelled" });
+  });
+
+  it("단말 통신 오류는 거절로 처리", async () => {
+    const provider: PaymentProvider = {
+      name: "broken",
+      requestPayment: () => {
+        throw new Error("serial port closed");
+      },
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      requestPaymentWithTimeout(provider, REQUEST, { timeoutMs: 1000 })
+    ).resolves.toMatchObject({ outcome: "declined" });
+  });
+});
+
+describe("cancelApprovedPayment", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("단말이 취소하면 true", async () => {
+    const { provider } = createManualTerminal();
+
+    await expect(cancelApprovedPayment(provider, REQUEST, APPROVED)).resolves.toBe(true);
+    expect(provider.cancelPayment).toHaveBeenCalledWith(APPROVED);
+  });
+
+  it("단말이 취소를 지원하지 않으면 false (수동 환불)", async () => {
+    const { provider } = createManualTerminal(false);
+
+    await expect(cancelApprovedPayment(provider, REQUEST, APPROVED)).resolves.toBe(false);
+  });
+
+  it("취소 요청이 실패하면 false (수동 환불)", async () => {
+    const provider: PaymentProvider = {
+      name: "failing",
+      requestPayment: async () => APPROVED,
+      cancelPayment: async () => {
+        throw new Error("terminal busy");
+      },
+    };
+
+    await expect(cancelApprovedPayment(provider, REQUEST, APPROVED)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,218 @@
+import type {
+  PaymentOutcome,
+  PaymentProvider,
+  PaymentRequest,
+  PaymentResult,
+} from "../types";
+import { TIMINGS } from "../constants/animations";
+
+// 시뮬레이터가 순서대로 돌려줄 결과 (문자열만 주면 기본값으로 채움)
+export type SimulatedStep =
+  | PaymentOutcome
+  | (Partial<PaymentResult> & { outcome: PaymentOutcome; delayMs?: number });
+
+interface SimulatedTerminalOptions {
+  script?: SimulatedStep[];
+  delayMs?: number;
+}
+
+export interface SimulatedTerminal extends PaymentProvider {
+  // 다음 결제 요청들이 돌려줄 결과를 뒤에 추가
+  enqueue: (...steps: SimulatedStep[]) => void;
+}
+
+const CARD_BRANDS = ["신한카드", "KB국민카드", "삼성카드", "현대카드", "BC카드"];
+
+const randomDigits = (length: number) =>
+  Array.from({ length }, () => Math.floor(Math.random() * 10)).join("");
+
+const maskCardNumber = (digits: string) =>
+  `${digits.slice(0, 4)}-${digits.slice(4, 6)}**-****-${digits.slice(12, 16)}`;
+
+const DEFAULT_MESSAGES: Record<PaymentOutcome, string | undefined> = {
+  approved: undefined,
+  declined: "카드사에서 승인이 거절되었습니다.",
+  cancelled: "결제가 취소되었습니다.",
+  timeout: "결제 시간이 초과되었습니다.",
+};
+
+const buildResult = (step: SimulatedStep): PaymentResult => {
+  const overrides = typeof step === "string" ? { outcome: step } : { ...step };
+  if ("delayMs" in overrides) delete overrides.delayMs;
+  if (overrides.outcome !== "approved") {
+    return { message: DEFAULT_MESSAGES[overrides.outcome], ...overrides };
+  }
+  return {
+    approvalNumber: randomDigits(8),
+    cardBrand: CARD_BRANDS[Math.floor(Math.random() * CARD_BRANDS.length)],
+    maskedCardNumber: maskCardNumber(randomDigits(16)),
+    approvedAt: new Date().toISOString(),
+    ...overrides,
+  };
+};
+
+/**
+ * 실제 단말 없이 결제 흐름을 확인하기 위한 시뮬레이터
+ * script 가 비어 있으면 항상 승인
+ */
+export const createSimulatedTerminal = ({
+  script = [],
+  delayMs = TIMINGS.PAYMENT_DELAY_MS,
+}: SimulatedTerminalOptions = {}): SimulatedTerminal => {
+  const queue = [...script];
+
+  return {
+    name: "simulated",
+    enqueue: (...steps) => {
+      queue.push(...steps);
+    },
+    requestPayment: (_request: PaymentRequest, { signal } = {}) => {
+      const step = queue.shift() ?? "approved";
+      const wait = typeof step === "string" ? delayMs : step.delayMs ?? delayMs;
+
+      return new Promise<PaymentResult>((resolve) => {
+        if (signal?.aborted) {
+          resolve(buildResult("cancelled"));
+          return;
+        }
+        const timer = window.setTimeout(() => resolve(buildResult(step)), wait);
+        signal?.addEventListener("abort", () => {
+          window.clearTimeout(timer);
+          resolve(buildResult("cancelled"));
+        });
+      });
+    },
+    cancelPayment: async (result) => {
+      await new Promise((resolve) => window.setTimeout(resolve, delayMs));
+      console.log("[Payment] 시뮬레이터 승인 취소:", result.approvalNumber);
+    },
+  };
+};
+
+const UNREACHABLE_RESULT: PaymentResult = {
+  outcome: "declined",
+  message: "결제 단말과 통신할 수 없습니다.",
+};
+
+/**
+ * 승인된 결제를 단말에 취소 요청 (취소하지 못했으면 false: 직원이 수동으로 환불해야 함)
+ */
+export const cancelApprovedPayment = async (
+  provider: PaymentProvider,
+  request: PaymentRequest,
+  result: PaymentResult
+): Promise<boolean> => {
+  const detail = `${request.orderName} ${request.amount}원, 승인번호 ${result.approvalNumber ?? "-"}`;
+  if (!provider.cancelPayment) {
+    console.error(`[Payment] 단말이 승인 취소를 지원하지 않습니다. 수동 환불 필요: ${detail}`);
+    return false;
+  }
+  try {
+    await provider.cancelPayment(result);
+    console.warn(`[Payment] 승인 취소 완료: ${detail}`);
+    return true;
+  } catch (error) {
+    console.error(`[Payment] 승인 취소 실패. 수동 환불 필요: ${detail}`, error);
+    return false;
+  }
+};
+
+/**
+ * 키오스크가 기다리기를 멈춘 뒤 도착한 단말 응답 처리
+ * 승인이 늦게 오면 카드는 결제됐지만 주문은 없으므로 단말에 승인 취소를 요청
+ */
+const settleLatePayment = async (
+  provider: PaymentProvider,
+  request: PaymentRequest,
+  result: PaymentResult
+) => {
+  if (result.outcome !== "approved") {
+    console.warn("[Payment] 대기 종료 후 단말 응답 (미승인):", result.outcome);
+    return;
+  }
+  console.error("[Payment] 대기 종료 후 승인됨, 승인 취소 요청:", result.approvalNumber);
+  await cancelApprovedPayment(provider, request, result);
+};
+
+/**
+ * 단말 응답이 timeoutMs 안에 오지 않으면 요청을 중단하고 timeout 으로 처리
+ * 단말이 중단 요청을 무시해도 제한 시간에 끝나며, 그 뒤에 도착한 승인은 settleLatePayment 로 취소
+ */
+export const requestPaymentWithTimeout = async (
+  provider: PaymentProvider,
+  request: PaymentRequest,
+  {
+    signal,
+    timeoutMs = TIMINGS.PAYMENT_TIMEOUT_MS,
+  }: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<PaymentResult> => {
+  const controller = new AbortController();
+  let timer: number | undefined;
+  let cancelWaiting = () => {};
+
+  const answered = Promise.resolve()
+    .then(() => provider.requestPayment(request, { signal: controller.signal }))
+    .catch((error: unknown): PaymentResult => {
+      console.error("[Payment] 단말 통신 오류:", error);
+      return UNREACHABLE_RESULT;
+    });
+  // 제한 시간이 지나거나 호출한 쪽이 중단하면 단말 응답을 기다리지 않음
+  const gaveUp = new Promise<PaymentResult>((resolve) => {
+    timer = window.setTimeout(
+      () => resolve({ outcome: "timeout", message: DEFAULT_MESSAGES.timeout }),
+      timeoutMs
+    );
+    cancelWaiting = () =>
+      resolve({ outcome: "cancelled", message: DEFAULT_MESSAGES.cancelled });
+    if (signal?.aborted) cancelWaiting();
+    signal?.addEventListener("abort", cancelWaiting);
+  });
+
+  try {
+    const winner = await Promise.race([
+      answered.then((result) => ({ result, fromTerminal: true })),
+      gaveUp.then((result) => ({ result, fromTerminal: false })),
+    ]);
+    if (!winner.fromTerminal) {
+      controller.abort();
+      void answered.then((late) => settleLatePayment(provider, request, late));
+    }
+    return winner.result;
+  } finally {
+    window.clearTimeout(timer);
+    signal?.removeEventListener("abort", cancelWaiting);
+  }
+};
+
+// 개발 중 거절/시간초과 흐름 확인용: VITE_SIMULATED_PAYMENT_SCRIPT=declined,approved
+const parseScript = (raw?: string): SimulatedStep[] =>
+  (raw ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value): value is PaymentOutcome =>
+      ["approved", "declined", "cancelled", "timeout"].includes(value)
+    )
+    .map((outcome) =>
+      // timeout 은 단말이 응답하지 않는 상황이므로 제한 시간보다 길게 대기
+      outcome === "timeout"
+        ? { outcome: "approved" as const, delayMs: TIMINGS.PAYMENT_TIMEOUT_MS * 2 }
+        : outcome
+    );
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * 키오스크에 연결된 결제 단말 (현재는 시뮬레이터만 지원)
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    const kind = import.meta.env.VITE_PAYMENT_PROVIDER || "simulated";
+    if (kind !== "simulated") {
+      console.warn(`[Payment] 지원하지 않는 결제 단말: ${kind}, 시뮬레이터 사용`);
+    }
+    provider = createSimulatedTerminal({
+      script: parseScript(import.meta.env.VITE_SIMULATED_PAYMENT_SCRIPT),
+    });
+  }
+  return provider;
+};
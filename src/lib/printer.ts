@@ -0,0 +1,55 @@
+import axios from "axios";
+import type { PrintFailureReason, PrintResult } from "../types";
+import type { OrderPayload } from "./api";
+
+// 키오스크 PC 에서 실행하는 출력 중계 서버 (print-bridge)
+const PRINT_BRIDGE_URL = (
+  import.meta.env.VITE_PRINT_BRIDGE_URL || "http://localhost:8790"
+).replace(/\/$/, "");
+// 결제된 주문마다 주방 주문표도 출력할지
+export const KITCHEN_TICKET_ENABLED =
+  import.meta.env.VITE_PRINT_KITCHEN_TICKET === "true";
+
+// 중계 서버가 돌려주는 오류 코드 → 화면 안내
+const toFailureReason = (code: unknown): PrintFailureReason => {
+  if (code === "paperOut") return "paperOut";
+  if (code === "offline" || code === "timeout") return "offline";
+  return "failed";
+};
+
+const sendPrintJob = async (
+  kind: "receipt" | "kitchen",
+  order: OrderPayload
+): Promise<PrintResult> => {
+  try {
+    const response = await axios.post(
+      `${PRINT_BRIDGE_URL}/print/${kind}`,
+      { order },
+      { timeout: 15000, validateStatus: () => true }
+    );
+    if (response.status === 200) return { success: true };
+
+    const data = response.data as { error?: string; code?: string };
+    console.error(`[Printer] ${kind} 출력 실패:`, response.status, data);
+    return {
+      success: false,
+      reason: toFailureReason(data?.code),
+      message: data?.error,
+    };
+  } catch (error) {
+    // 중계 서버 자체에 연결할 수 없으면 프린터를 쓸 수 없는 것으로 안내
+    console.error(`[Printer] 출력 중계 서버에 연결할 수 없습니다:`, error);
+    return { success: false, reason: "offline" };
+  }
+};
+
+/**
+ * 종이 영수증 출력 (프린터에 전달된 경우에만 success)
+ */
+export const printReceipt = (order: OrderPayload) => sendPrintJob("receipt", order);
+
+/**
+ * 주방 주문표 출력
+ */
+export const printKitchenTicket = (order: OrderPayload) =>
+  sendPrintJob("kitchen", order);
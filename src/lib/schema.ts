@@ -0,0 +1,116 @@
+/**
+ * 서버 응답 검증용 스키마
+ * parse 는 선언한 필드만 골라 타입에 맞는 값을 돌려주고, 형식이 다르면 어느 필드인지 담아 SchemaError 를 던짐
+ */
+export class SchemaError extends Error {
+  // 형식이 맞지 않은 필드 위치 (예: items[3].price)
+  readonly path: string;
+
+  constructor(path: string, expected: string) {
+    super(`${path || "응답"}: ${expected} 형식이 아닙니다`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const childPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+/**
+ * 타입 가드로 검사하는 스키마 (기본 타입 외에 Blob 등 직접 정의할 때 사용)
+ */
+export const custom = <T>(
+  expected: string,
+  check: (value: unknown) => value is T
+): Schema<T> => ({
+  parse: (value, path = "") => {
+    if (!check(value)) throw new SchemaError(path, expected);
+    return value;
+  },
+});
+
+export const string = () =>
+  custom("문자열", (value): value is string => typeof value === "string");
+
+export const number = () =>
+  custom(
+    "숫자",
+    (value): value is number => typeof value === "number" && Number.isFinite(value)
+  );
+
+export const boolean = () =>
+  custom("true/false", (value): value is boolean => typeof value === "boolean");
+
+export const unknown = (): Schema<unknown> => ({ parse: (value) => value });
+
+export const literal = <const T extends readonly (string | number)[]>(
+  ...values: T
+): Schema<T[number]> =>
+  custom(values.join(" | "), (value): value is T[number] =>
+    values.includes(value as T[number])
+  );
+
+// 서버는 빈 값을 null 로 보내기도 하므로 null 도 없는 값으로 봄
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path) =>
+    value === undefined || value === null ? undefined : schema.parse(value, path),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  parse: (value, path) =>
+    value === undefined || value === null ? null : schema.parse(value, path),
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = "") => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "배열");
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+  },
+});
+
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  parse: (value, path = "") => {
+    if (!isPlainObject(value)) throw new SchemaError(path, "객체");
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        item.parse(entry, childPath(path, key)),
+      ])
+    );
+  },
+});
+
+type Shape = Record<string, Schema<unknown>>;
+
+export const object = <S extends Shape>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+  parse: (value, path = "") => {
+    if (!isPlainObject(value)) throw new SchemaError(path, "객체");
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.parse(value[key], childPath(path, key));
+      // 없는 선택 필드는 키도 만들지 않음
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  },
+});
+
+/**
+ * 검증한 값을 앱에서 쓰는 형태로 변환 (서버의 초 단위 시각 → ms 등)
+ */
+export const transform = <T, U>(
+  schema: Schema<T>,
+  convert: (value: T) => U
+): Schema<U> => ({
+  parse: (value, path) => convert(schema.parse(value, path)),
+});
@@ -1,13 +1,25 @@
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import KitchenDisplay from "./components/KitchenDisplay";
+import PickupBoard from "./components/PickupBoard";
+import AdminConsole from "./components/admin/AdminConsole";
+import { LanguageProvider } from "./i18n/LanguageProvider";
+import { AccessibilityProvider } from "./accessibility/AccessibilityProvider";
+import { startOrderQueueWorker } from "./lib/orderQueue";
 
-function updateScale() {
+// 화면 모드별 설계 해상도 (키오스크: 세로 / 픽업 안내: 가로 TV)
+const DESIGN_SIZES = {
+  kiosk: { width: 720, height: 1280 },
+  pickup: { width: 1920, height: 1080 },
+} as const;
+
+function updateScale(design: { width: number; height: number }) {
   const root = document.getElementById("root");
   if (!root) return;
 
-  const designWidth = 720;
-  const designHeight = 1280;
+  const designWidth = design.width;
+  const designHeight = design.height;
 
   const windowWidth = window.innerWidth;
   const windowHeight = window.innerHeight;
@@ -19,8 +31,38 @@ function updateScale() {
   root.style.setProperty("--scale", scale.toString());
 }
 
-createRoot(document.getElementById("root")!).render(<App />);
+// ?mode=kitchen: 주방 모니터용 전체 화면 (키오스크 배율 / 주문 재전송 없이 실행)
+// ?mode=pickup: 손님용 픽업 안내 화면 (가로 설계 해상도로 배율 적용)
+// ?mode=admin: 매장 관리자 메뉴 편집 (관리자 비밀번호 필요)
+const mode = new URLSearchParams(window.location.search).get("mode");
+const root = document.getElementById("root")!;
+
+if (mode === "kitchen" || mode === "admin") {
+  root.classList.add("display-mode");
+  createRoot(root).render(
+    mode === "kitchen" ? <KitchenDisplay /> : <AdminConsole />
+  );
+} else if (mode === "pickup") {
+  root.classList.add("pickup-mode");
+  createRoot(root).render(<PickupBoard />);
+
+  const rescale = () => updateScale(DESIGN_SIZES.pickup);
+  setTimeout(rescale, 0);
+  window.addEventListener("resize", rescale);
+} else {
+  createRoot(root).render(
+    <LanguageProvider>
+      <AccessibilityProvider>
+        <App />
+      </AccessibilityProvider>
+    </LanguageProvider>
+  );
 
-setTimeout(updateScale, 0);
+  // 이전 실행에서 전송하지 못한 주문 재전송
+  startOrderQueueWorker();
 
-window.addEventListener("resize", updateScale);
+  const rescale = () => updateScale(DESIGN_SIZES.kiosk);
+  setTimeout(rescale, 0);
+
+  window.addEventListener("resize", rescale);
+}
@@ -1,16 +1,87 @@
+export type Language = "ko" | "en" | "zh" | "ja";
+
+// 언어별 표시 이름 (없는 언어는 기본 한국어 name 사용)
+export type LocalizedText = Partial<Record<Language, string>>;
+
 export interface CartItem {
+  // 메뉴 ID + 선택 옵션 조합으로 만든 장바구니 라인 식별자
+  lineId: string;
   id: string;
   name: string;
+  names?: LocalizedText;
+  // 옵션 추가금이 빠진 메뉴 기본 가격
   price: number;
+  options: SelectedOption[];
   quantity: number;
+  // 면세(부가세 없음) 메뉴 여부
+  taxExempt?: boolean;
+  // 매출 집계용 카테고리 ID
+  category?: string;
+}
+
+export interface MenuOption {
+  id: string;
+  name: string;
+  names?: LocalizedText;
+  priceDelta: number;
+}
+
+export interface MenuOptionGroup {
+  id: string;
+  name: string;
+  names?: LocalizedText;
+  required: boolean;
+  selectionType: "single" | "multi";
+  minSelect: number;
+  maxSelect: number;
+  options: MenuOption[];
+  // 필수 그룹에서 처음부터 선택되어 있을 옵션
+  defaultOptionIds?: string[];
+}
+
+export interface SelectedOption {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  optionNames?: LocalizedText;
+  priceDelta: number;
 }
 
+// 그룹 ID → 선택된 옵션 ID 목록
+export type OptionSelection = Record<string, string[]>;
+
 export interface MenuItemType {
   id: string;
   name: string;
+  names?: LocalizedText;
   price: number;
   image: string;
   category: string;
+  optionGroups?: MenuOptionGroup[];
+  // 면세 품목 (가격에 부가세가 포함되어 있지 않음)
+  taxExempt?: boolean;
+}
+
+// 부가세 포함 가격에서 역산한 라인별 공급가액 / 부가세
+export interface TaxLine {
+  lineId: string;
+  total: number;
+  taxExempt: boolean;
+  supplyPrice: number;
+  vat: number;
+}
+
+export interface TaxBreakdown {
+  lines: TaxLine[];
+  total: number;
+  // 과세 물품 합계 (부가세 포함)
+  taxableTotal: number;
+  // 면세 물품 합계
+  exemptTotal: number;
+  // 과세 물품 공급가액
+  supplyPrice: number;
+  vat: number;
 }
 
 export type OrderType = "takeout" | "dinein";
@@ -27,9 +98,264 @@ export type NfcTransferType = "ticketOnly" | "ticketWithReceipt";
 export interface Category {
   id: string;
   name: string;
+  names?: LocalizedText;
+}
+
+// 프로모션 종류
+// percent: 대상 금액의 value% 할인 / fixed: value 원 할인 / buyXGetY: buyQuantity 개 사면 getQuantity 개 무료
+export type PromotionType = "percent" | "fixed" | "buyXGetY";
+
+// 할인 대상 (둘 다 비어 있으면 장바구니 전체)
+export interface PromotionTarget {
+  itemIds?: string[];
+  categoryIds?: string[];
+}
+
+// 적용 기간 / 시간대 (키오스크 현지 시각 기준)
+export interface PromotionSchedule {
+  // YYYY-MM-DD (포함)
+  startDate?: string;
+  endDate?: string;
+  // HH:MM, endTime 은 포함하지 않으며 startTime 보다 이르면 자정을 넘기는 시간대
+  startTime?: string;
+  endTime?: string;
+  // 0(일) ~ 6(토)
+  daysOfWeek?: number[];
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  names?: LocalizedText;
+  type: PromotionType;
+  value?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  target?: PromotionTarget;
+  schedule?: PromotionSchedule;
+  // 대상 금액이 이 금액 이상일 때만 적용
+  minAmount?: number;
+}
+
+// 장바구니에 적용된 할인 한 건
+export interface AppliedDiscount {
+  promotionId: string;
+  name: string;
+  names?: LocalizedText;
+  amount: number;
+}
+
+// 할인까지 반영한 장바구니 금액
+export interface CartPricing {
+  // 할인 전 합계
+  subtotal: number;
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  // 실제 결제 금액
+  total: number;
+  // 라인별 할인 합계 (부가세 계산 / 주문 데이터용)
+  lineDiscounts: Record<string, number>;
+}
+
+// 전화번호 스탬프 잔액 (번호는 가린 형태로만 내려옴)
+export interface LoyaltyAccount {
+  maskedPhone: string;
+  stamps: number;
+  // 무료 음료 1잔에 필요한 스탬프 수
+  threshold: number;
+  // 지금 사용할 수 있는 무료 음료 수
+  rewards: number;
+}
+
+// 장바구니에 연결된 스탬프 회원
+export interface LoyaltyMember {
+  phone: string;
+  account: LoyaltyAccount;
+  // 이번 주문에서 무료 음료 쿠폰을 사용할지
+  useReward: boolean;
+}
+
+// 결제 후 서버에 반영할 스탬프 적립 / 사용
+export interface LoyaltyStamps {
+  phone: string;
+  stamps: number;
+  redeem: number;
+}
+
+// 백엔드에서 내려받는 메뉴 카탈로그
+export interface Catalog {
+  version: number;
+  updatedAt?: string;
+  categories: Category[];
+  items: MenuItemType[];
+  promotions?: Promotion[];
+}
+
+// 관리자 화면에서 편집하는 카탈로그 (버전은 저장할 때 서버가 올림)
+export type CatalogDraft = Pick<Catalog, "categories" | "items">;
+
+// 관리자 로그인 세션 (토큰은 서버가 서명한 만료 시각 포함)
+export interface AdminSession {
+  token: string;
+  expiresAt: string;
+}
+
+// 이 기기의 키오스크 키 (관리자 화면에서 발급받아 기기에만 저장)
+export interface KioskCredential {
+  kioskId: string;
+  keyId: string;
+  secret: string;
+}
+
+// 관리자 화면의 키오스크 목록 (시각은 초 단위, 비밀 키는 포함하지 않음)
+export interface KioskKeySummary {
+  keyId: string;
+  createdAt: number;
+  // 교체된 이전 키가 만료되는 시각 (현재 키는 null)
+  expiresAt: number | null;
+}
+
+export interface KioskSummary {
+  kioskId: string;
+  storeId: string;
+  revokedAt: number | null;
+  keys: KioskKeySummary[];
+  updatedAt: number;
+}
+
+// 매출 보고서 (금액은 원, 기간은 영업일 기준)
+export interface SalesTotals {
+  orderCount: number;
+  total: number;
+  supplyPrice: number;
+  tax: number;
+  taxFree: number;
+  // 프로모션 할인 합계 (매출은 할인 후 금액)
+  discount: number;
+  // 객단가 (주문 1건당 평균 결제 금액)
+  averageTicket: number;
+}
+
+export interface SalesBreakdownRow {
+  id: string;
+  name?: string;
+  category?: string;
+  count: number;
+  qty: number;
+  total: number;
+  averageTicket?: number;
+}
+
+export interface SalesReport {
+  storeId: string;
+  from: string;
+  to: string;
+  summary: SalesTotals;
+  days: (SalesTotals & { date: string })[];
+  items: SalesBreakdownRow[];
+  categories: SalesBreakdownRow[];
+  orderTypes: SalesBreakdownRow[];
+  hours: { hour: number; count: number; total: number }[];
+}
+
+export type SalesReportSection =
+  | "days"
+  | "items"
+  | "categories"
+  | "orderTypes"
+  | "hours"
+  | "orders";
+
+// 메뉴별 재고 상태 (stock 이 null 이면 재고 미추적)
+export interface InventoryStatus {
+  stock: number | null;
+  soldOut: boolean;
+}
+
+export type Inventory = Record<string, InventoryStatus>;
+
+// 재고 확인 / 차감 단위 (메뉴 ID 별 수량)
+export interface InventoryLine {
+  id: string;
+  qty: number;
+}
+
+export interface UnavailableItem {
+  id: string;
+  requested: number;
+  available: number | null;
+}
+
+export type CatalogSource = "remote" | "cache" | "bundled";
+
+// 결제 단말 관련 타입
+export type PaymentOutcome = "approved" | "declined" | "cancelled" | "timeout";
+
+export interface PaymentRequest {
+  amount: number;
+  orderName: string;
+}
+
+export interface PaymentResult {
+  outcome: PaymentOutcome;
+  approvalNumber?: string;
+  cardBrand?: string;
+  maskedCardNumber?: string;
+  approvedAt?: string;
+  // 거절 사유 등 단말이 돌려준 안내 문구
+  message?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  requestPayment: (
+    request: PaymentRequest,
+    options?: { signal?: AbortSignal }
+  ) => Promise<PaymentResult>;
+  // 승인된 결제 취소 (응답을 기다리지 않게 된 뒤 승인이 도착했거나, 승인 후 재고가 모자란 경우)
+  cancelPayment?: (result: PaymentResult) => Promise<void>;
 }
 
+// 영수증 / 주방 주문표 출력 결과 (프린터에 전달하지 못했으면 이유와 함께 실패)
+export type PrintFailureReason = "offline" | "paperOut" | "failed";
+
+export type PrintResult =
+  | { success: true }
+  | { success: false; reason: PrintFailureReason; message?: string };
+
 // NFC 관련 타입
+// 결제·주문 전송이 끝난 주문 (완료 화면 / 영수증 전달에 사용)
+export interface PlacedOrder {
+  orderId: string;
+  // 매장·영업일별 주문번호 (발급하지 못했으면 null)
+  orderNumber: number | null;
+  businessDate: string | null;
+  // 주문 API 가 준 외부 영수증 링크 (주문 전송이 지연되면 null)
+  receiptUrl: string | null;
+  // Lambda 에 주문 원본이 저장되어 자체 영수증 페이지를 보낼 수 있는지
+  hasReceiptPage: boolean;
+}
+
+// 주방 티켓 진행 단계 (pickedUp 이 되면 보드에서 빠짐)
+export type KitchenTicketStatus = "received" | "preparing" | "ready" | "pickedUp";
+
+export interface KitchenTicketItem {
+  name: string;
+  qty: number;
+  options: string[];
+}
+
+export interface KitchenTicket {
+  orderId: string;
+  orderNumber: number | null;
+  orderType: OrderType;
+  items: KitchenTicketItem[];
+  status: KitchenTicketStatus;
+  // 서버 기준 시각 (epoch ms)
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface NfcSession {
   sessionId: string;
   status:
@@ -40,7 +366,8 @@ export interface NfcSession {
     | "completed"
     | "expired"
     | "failed";
-  expiresAt: string;
+  // 서버가 정한 만료 시각 (알 수 없으면 없음)
+  expiresAt?: string;
   orderId?: string;
   receiptUrl?: string;
   scannedAt?: string;
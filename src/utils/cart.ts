@@ -1,7 +1,29 @@
-import type { CartItem } from "../types";
+import type {
+  CartItem,
+  Inventory,
+  InventoryLine,
+  LocalizedText,
+  SelectedOption,
+} from "../types";
+import { calculateOptionsPrice } from "./options";
+
+// 같은 메뉴라도 옵션 조합이 다르면 다른 라인으로 취급
+export const buildCartLineId = (
+  id: string,
+  options: SelectedOption[]
+): string => {
+  const optionKey = options
+    .map((option) => `${option.groupId}:${option.optionId}`)
+    .sort()
+    .join(",");
+  return optionKey ? `${id}|${optionKey}` : id;
+};
+
+export const getUnitPrice = (item: CartItem): number =>
+  item.price + calculateOptionsPrice(item.options);
 
 export const calculateTotalPrice = (items: CartItem[]): number => {
-  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  return items.reduce((sum, item) => sum + getUnitPrice(item) * item.quantity, 0);
 };
 
 export const calculateTotalQuantity = (items: CartItem[]): number => {
@@ -10,30 +32,69 @@ export const calculateTotalQuantity = (items: CartItem[]): number => {
 
 export const addItemToCart = (
   items: CartItem[],
-  newItem: { id: string; name: string; price: number }
+  newItem: {
+    id: string;
+    name: string;
+    names?: LocalizedText;
+    price: number;
+    taxExempt?: boolean;
+    category?: string;
+  },
+  options: SelectedOption[] = []
 ): CartItem[] => {
-  const existingItem = items.find((item) => item.id === newItem.id);
+  const lineId = buildCartLineId(newItem.id, options);
+  const existingItem = items.find((item) => item.lineId === lineId);
 
   if (existingItem) {
     return items.map((item) =>
-      item.id === newItem.id ? { ...item, quantity: item.quantity + 1 } : item
+      item.lineId === lineId ? { ...item, quantity: item.quantity + 1 } : item
     );
   }
 
-  return [...items, { ...newItem, quantity: 1 }];
+  return [
+    ...items,
+    {
+      lineId,
+      id: newItem.id,
+      name: newItem.name,
+      names: newItem.names,
+      price: newItem.price,
+      options,
+      quantity: 1,
+      taxExempt: newItem.taxExempt,
+      category: newItem.category,
+    },
+  ];
 };
 
 export const updateItemQuantity = (
   items: CartItem[],
-  id: string,
+  lineId: string,
   quantity: number
 ): CartItem[] => {
-  return items.map((item) => (item.id === id ? { ...item, quantity } : item));
+  return items.map((item) =>
+    item.lineId === lineId ? { ...item, quantity } : item
+  );
 };
 
 export const removeItemFromCart = (
   items: CartItem[],
-  id: string
+  lineId: string
 ): CartItem[] => {
-  return items.filter((item) => item.id !== id);
+  return items.filter((item) => item.lineId !== lineId);
+};
+
+// 재고는 옵션과 무관하게 메뉴 단위로 관리되므로 라인을 메뉴 ID 로 합산
+export const toInventoryLines = (items: CartItem[]): InventoryLine[] => {
+  const totals = new Map<string, number>();
+  for (const item of items) {
+    totals.set(item.id, (totals.get(item.id) ?? 0) + item.quantity);
+  }
+  return [...totals].map(([id, qty]) => ({ id, qty }));
+};
+
+export const isSoldOut = (inventory: Inventory, id: string): boolean => {
+  const status = inventory[id];
+  if (!status) return false;
+  return status.soldOut || (status.stock !== null && status.stock <= 0);
 };
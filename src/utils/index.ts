@@ -1 +1,6 @@
 export * from "./cart";
+export * from "./options";
+export * from "./tax";
+export * from "./kitchen";
+export * from "./promotions";
+export * from "./loyalty";
@@ -0,0 +1,31 @@
+import type { KitchenTicketStatus } from "../types";
+import { TIMINGS } from "../constants/animations";
+
+// 주방 진행 순서: 한 단계씩만 넘길 수 있음 (서버와 동일)
+const TICKET_FLOW: KitchenTicketStatus[] = [
+  "received",
+  "preparing",
+  "ready",
+  "pickedUp",
+];
+
+export const getNextTicketStatus = (
+  status: KitchenTicketStatus
+): KitchenTicketStatus | null =>
+  TICKET_FLOW[TICKET_FLOW.indexOf(status) + 1] ?? null;
+
+export type ElapsedLevel = "normal" | "warning" | "critical";
+
+export const getElapsedLevel = (elapsedMs: number): ElapsedLevel => {
+  if (elapsedMs >= TIMINGS.KITCHEN_CRITICAL_MS) return "critical";
+  if (elapsedMs >= TIMINGS.KITCHEN_WARNING_MS) return "warning";
+  return "normal";
+};
+
+// 경과 시간 (m:ss)
+export const formatElapsed = (elapsedMs: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,66 @@
+import type { CartItem, LoyaltyMember, LoyaltyStamps, Promotion } from "../types";
+import {
+  LOYALTY_CATEGORY_IDS,
+  LOYALTY_REWARD_NAME,
+  LOYALTY_REWARD_NAMES,
+  LOYALTY_REWARD_PROMOTION_ID,
+} from "../constants/loyalty";
+
+// 휴대폰 번호 (숫자만, 010 / 011 / 016~019) - 서버와 같은 규칙
+const PHONE_PATTERN = /^01[016789]\d{7,8}$/;
+
+export const isValidPhone = (digits: string) => PHONE_PATTERN.test(digits);
+
+// 키패드 입력 중인 번호를 010-1234-5678 형태로 표시
+export const formatPhoneNumber = (digits: string) => {
+  if (digits.length <= 3) return digits;
+  if (digits.length <= 7) return `${digits.slice(0, 3)}-${digits.slice(3)}`;
+  const middleLength = digits.length === 10 ? 3 : 4;
+  return `${digits.slice(0, 3)}-${digits.slice(3, 3 + middleLength)}-${digits.slice(
+    3 + middleLength
+  )}`;
+};
+
+const isStampItem = (item: CartItem) =>
+  item.category !== undefined && LOYALTY_CATEGORY_IDS.includes(item.category);
+
+export const countStampItems = (items: CartItem[]) =>
+  items.filter(isStampItem).reduce((sum, item) => sum + item.quantity, 0);
+
+// 쿠폰을 쓰겠다고 했고 장바구니에 음료가 있을 때만 사용
+const isRewardApplied = (member: LoyaltyMember | null, items: CartItem[]) =>
+  Boolean(member?.useReward && member.account.rewards > 0 && countStampItems(items) > 0);
+
+/**
+ * 무료 음료 쿠폰: 장바구니에서 가장 비싼 음료 1잔의 기본 가격만큼 할인 (옵션 추가금은 제외)
+ */
+export const buildRewardPromotion = (
+  member: LoyaltyMember | null,
+  items: CartItem[]
+): Promotion | null => {
+  if (!isRewardApplied(member, items)) return null;
+  const value = Math.max(...items.filter(isStampItem).map((item) => item.price));
+  return {
+    id: LOYALTY_REWARD_PROMOTION_ID,
+    name: LOYALTY_REWARD_NAME,
+    names: LOYALTY_REWARD_NAMES,
+    type: "fixed",
+    value,
+    target: { categoryIds: LOYALTY_CATEGORY_IDS },
+  };
+};
+
+/**
+ * 결제 후 반영할 스탬프: 음료 1잔당 1개 (무료로 받은 잔은 적립하지 않음)
+ * 적립도 사용도 없으면 null
+ */
+export const buildLoyaltyStamps = (
+  member: LoyaltyMember | null,
+  items: CartItem[]
+): LoyaltyStamps | null => {
+  if (!member) return null;
+  const redeem = isRewardApplied(member, items) ? 1 : 0;
+  const stamps = countStampItems(items) - redeem;
+  if (stamps === 0 && redeem === 0) return null;
+  return { phone: member.phone, stamps, redeem };
+};
@@ -0,0 +1,93 @@
+import type {
+  Language,
+  MenuItemType,
+  MenuOptionGroup,
+  OptionSelection,
+  SelectedOption,
+} from "../types";
+
+export const hasOptions = (item: MenuItemType): boolean =>
+  (item.optionGroups?.length ?? 0) > 0;
+
+export const getDefaultSelection = (item: MenuItemType): OptionSelection => {
+  const selection: OptionSelection = {};
+  for (const group of item.optionGroups ?? []) {
+    selection[group.id] = group.defaultOptionIds
+      ? [...group.defaultOptionIds]
+      : [];
+  }
+  return selection;
+};
+
+export const toggleOption = (
+  selection: OptionSelection,
+  group: MenuOptionGroup,
+  optionId: string
+): OptionSelection => {
+  const current = selection[group.id] ?? [];
+
+  if (group.selectionType === "single") {
+    // 필수 단일 선택은 해제할 수 없고, 선택 그룹은 다시 누르면 해제
+    if (current.includes(optionId)) {
+      return group.required
+        ? selection
+        : { ...selection, [group.id]: [] };
+    }
+    return { ...selection, [group.id]: [optionId] };
+  }
+
+  if (current.includes(optionId)) {
+    return {
+      ...selection,
+      [group.id]: current.filter((id) => id !== optionId),
+    };
+  }
+  if (current.length >= group.maxSelect) return selection;
+  return { ...selection, [group.id]: [...current, optionId] };
+};
+
+/**
+ * 그룹별 최소/최대 선택 개수를 검사하고, 조건을 만족하지 못한 그룹 목록을 반환
+ */
+export const getInvalidGroups = (
+  groups: MenuOptionGroup[],
+  selection: OptionSelection
+): MenuOptionGroup[] =>
+  groups.filter((group) => {
+    const count = selection[group.id]?.length ?? 0;
+    const min = group.required ? Math.max(group.minSelect, 1) : group.minSelect;
+    return count < min || count > group.maxSelect;
+  });
+
+export const toSelectedOptions = (
+  item: MenuItemType,
+  selection: OptionSelection
+): SelectedOption[] =>
+  (item.optionGroups ?? []).flatMap((group) =>
+    group.options
+      .filter((option) => selection[group.id]?.includes(option.id))
+      .map((option) => ({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        optionName: option.name,
+        optionNames: option.names,
+        priceDelta: option.priceDelta,
+      }))
+  );
+
+export const calculateOptionsPrice = (options: SelectedOption[]): number =>
+  options.reduce((sum, option) => sum + option.priceDelta, 0);
+
+export const formatSelectedOptions = (
+  options: SelectedOption[],
+  language: Language = "ko"
+): string =>
+  options
+    .map((option) => {
+      const name = option.optionNames?.[language] ?? option.optionName;
+      return option.priceDelta > 0
+        ? `${name}(+${option.priceDelta.toLocaleString()})`
+        : name;
+    })
+    .join(" / ");
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { CartItem, Promotion } from "../types";
+import { evaluatePromotions, isScheduleActive } from "./promotions";
+
+const item = (
+  lineId: string,
+  price: number,
+  quantity = 1,
+  overrides: Partial<CartItem> = {}
+): CartItem => ({
+  lineId,
+  id: lineId,
+  name: lineId,
+  price,
+  options: [],
+  quantity,
+  ...overrides,
+});
+
+// 2026-10-19 (월) 14:30, 키오스크 현지 시각
+const MONDAY_AFTERNOON = new Date(2026, 9, 19, 14, 30);
+
+describe("evaluatePromotions", () => {
+  it("프로모션이 없으면 할인 없이 합계 그대로", () => {
+    const pricing = evaluatePromotions([item("a", 4500, 2)], [], MONDAY_AFTERNOON);
+
+    expect(pricing).toEqual({
+      subtotal: 9000,
+      discounts: [],
+      discountTotal: 0,
+      total: 9000,
+      lineDiscounts: { a: 0 },
+    });
+  });
+
+  it("정률 할인은 원 단위로 내림하고 라인 금액 비율대로 나눔", () => {
+    const promotions: Promotion[] = [
+      { id: "p10", name: "10% 할인", type: "percent", value: 10 },
+    ];
+    const pricing = evaluatePromotions(
+      [item("a", 1005), item("b", 2000)],
+      promotions,
+      MONDAY_AFTERNOON
+    );
+
+    expect(pricing.discountTotal).toBe(300);
+    expect(pricing.total).toBe(2705);
+    expect(pricing.lineDiscounts.a + pricing.lineDiscounts.b).toBe(300);
+    expect(pricing.lineDiscounts).toEqual({ a: 100, b: 200 });
+  });
+
+  it("정액 할인은 대상 금액을 넘지 않음", () => {
+    const promotions: Promotion[] = [
+      { id: "f", name: "5000원 할인", type: "fixed", value: 5000 },
+    ];
+    const pricing = evaluatePromotions([item("a", 3000)], promotions, MONDAY_AFTERNOON);
+
+    expect(pricing.discountTotal).toBe(3000);
+    expect(pricing.total).toBe(0);
+  });
+
+  it("N+M 은 비싼 순으로 묶어 묶음마다 가장 싼 상품을 무료로", () => {
+    const promotions: Promotion[] = [
+      { id: "b2g1", name: "2+1", type: "buyXGetY", buyQuantity: 2, getQuantity: 1 },
+    ];
+    const pricing = evaluatePromotions(
+      [item("a", 5000, 2), item("b", 3000, 1), item("c", 1000, 2)],
+      promotions,
+      MONDAY_AFTERNOON
+    );
+
+    // 5000, 5000, [3000] / 1000, 1000 (묶음이 안 됨)
+    expect(pricing.discountTotal).toBe(3000);
+    expect(pricing.lineDiscounts).toEqual({ a: 0, b: 3000, c: 0 });
+  });
+
+  it("대상 상품 / 카테고리에만 적용", () => {
+    const promotions: Promotion[] = [
+      {
+        id: "dessert",
+        name: "디저트 20%",
+        type: "percent",
+        value: 20,
+        target: { categoryIds: ["dessert"] },
+      },
+    ];
+    const pricing = evaluatePromotions(
+      [item("latte", 5000, 1, { category: "coffee" }), item("cake", 6000, 1, { category: "dessert" })],
+      promotions,
+      MONDAY_AFTERNOON
+    );
+
+    expect(pricing.lineDiscounts).toEqual({ latte: 0, cake: 1200 });
+  });
+
+  it("대상 금액이 최소 금액보다 적으면 적용하지 않음", () => {
+    const promotions: Promotion[] = [
+      { id: "min", name: "1만원 이상 1000원", type: "fixed", value: 1000, minAmount: 10000 },
+    ];
+
+    expect(
+      evaluatePromotions([item("a", 9000)], promotions, MONDAY_AFTERNOON).discountTotal
+    ).toBe(0);
+    expect(
+      evaluatePromotions([item("a", 10000)], promotions, MONDAY_AFTERNOON).discountTotal
+    ).toBe(1000);
+  });
+
+  it("앞선 할인으로 줄어든 금액에 다음 할인을 적용해 결제 금액이 음수가 되지 않음", () => {
+    const promotions: Promotion[] = [
+      { id: "half", name: "50%", type: "percent", value: 50 },
+      { id: "big", name: "10000원", type: "fixed", value: 10000 },
+    ];
+    const pricing = evaluatePromotions([item("a", 8000)], promotions, MONDAY_AFTERNOON);
+
+    expect(pricing.discounts.map((discount) => discount.amount)).toEqual([4000, 4000]);
+    expect(pricing.total).toBe(0);
+  });
+
+  it("기간이 아닌 프로모션은 건너뜀", () => {
+    const promotions: Promotion[] = [
+      {
+        id: "weekend",
+        name: "주말 10%",
+        type: "percent",
+        value: 10,
+        schedule: { daysOfWeek: [0, 6] },
+      },
+    ];
+
+    expect(
+      evaluatePromotions([item("a", 5000)], promotions, MONDAY_AFTERNOON).discounts
+    ).toEqual([]);
+  });
+});
+
+describe("isScheduleActive", () => {
+  it("기간 / 요일 / 시간대를 모두 만족해야 적용", () => {
+    const schedule = {
+      startDate: "2026-10-01",
+      endDate: "2026-10-31",
+      daysOfWeek: [1],
+      startTime: "14:00",
+      endTime: "15:00",
+    };
+
+    expect(isScheduleActive(schedule, MONDAY_AFTERNOON)).toBe(true);
+    expect(isScheduleActive({ ...schedule, endDate: "2026-10-18" }, MONDAY_AFTERNOON)).toBe(false);
+    expect(isScheduleActive({ ...schedule, daysOfWeek: [2] }, MONDAY_AFTERNOON)).toBe(false);
+    expect(isScheduleActive({ ...schedule, endTime: "14:30" }, MONDAY_AFTERNOON)).toBe(false);
+  });
+
+  it("종료 시각이 시작보다 이르면 자정을 넘기는 시간대", () => {
+    const night = { startTime: "22:00", endTime: "02:00" };
+
+    expect(isScheduleActive(night, new Date(2026, 9, 19, 23, 0))).toBe(true);
+    expect(isScheduleActive(night, new Date(2026, 9, 19, 1, 59))).toBe(true);
+    expect(isScheduleActive(night, new Date(2026, 9, 19, 2, 0))).toBe(false);
+    expect(isScheduleActive(night, MONDAY_AFTERNOON)).toBe(false);
+  });
+
+  it("일정이 없으면 항상 적용", () => {
+    expect(isScheduleActive(undefined, MONDAY_AFTERNOON)).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+import type {
+  AppliedDiscount,
+  CartItem,
+  CartPricing,
+  Promotion,
+  PromotionSchedule,
+  PromotionTarget,
+} from "../types";
+import { calculateTotalPrice, getUnitPrice } from "./cart";
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// 키오스크 현지 날짜 (YYYY-MM-DD)
+const toLocalDate = (now: Date) => now.toLocaleDateString("en-CA");
+
+export const isScheduleActive = (
+  schedule: PromotionSchedule | undefined,
+  now: Date
+): boolean => {
+  if (!schedule) return true;
+  const date = toLocalDate(now);
+  if (schedule.startDate && date < schedule.startDate) return false;
+  if (schedule.endDate && date > schedule.endDate) return false;
+  if (schedule.daysOfWeek && !schedule.daysOfWeek.includes(now.getDay())) {
+    return false;
+  }
+  if (schedule.startTime || schedule.endTime) {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(schedule.startTime ?? "00:00");
+    const end = toMinutes(schedule.endTime ?? "24:00");
+    const inWindow =
+      start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+    if (!inWindow) return false;
+  }
+  return true;
+};
+
+const matchesTarget = (item: CartItem, target?: PromotionTarget) => {
+  const itemIds = target?.itemIds ?? [];
+  const categoryIds = target?.categoryIds ?? [];
+  if (itemIds.length === 0 && categoryIds.length === 0) return true;
+  return (
+    itemIds.includes(item.id) ||
+    (item.category !== undefined && categoryIds.includes(item.category))
+  );
+};
+
+/**
+ * 할인 금액을 라인 금액 비율대로 나눔 (원 단위 나머지는 소수부가 큰 라인부터)
+ */
+const allocate = (
+  amount: number,
+  lines: { lineId: string; amount: number }[]
+): Record<string, number> => {
+  const base = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (base <= 0) return {};
+  const raw = lines.map((line) => (amount * line.amount) / base);
+  const allocated = raw.map(Math.floor);
+  let remainder = amount - allocated.reduce((sum, value) => sum + value, 0);
+  raw
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (remainder <= 0) return;
+      allocated[index] += 1;
+      remainder -= 1;
+    });
+  return Object.fromEntries(
+    lines.map((line, index) => [line.lineId, allocated[index]])
+  );
+};
+
+/**
+ * N+M: 대상 상품을 비싼 순으로 N+M 개씩 묶고, 묶음마다 가장 싼 M 개를 무료로
+ */
+const allocateFreeUnits = (
+  promotion: Promotion,
+  items: CartItem[]
+): Record<string, number> => {
+  const buy = promotion.buyQuantity ?? 0;
+  const get = promotion.getQuantity ?? 0;
+  if (buy < 1 || get < 1) return {};
+
+  const units = items
+    .flatMap((item) =>
+      Array.from({ length: item.quantity }, () => ({
+        lineId: item.lineId,
+        price: getUnitPrice(item),
+      }))
+    )
+    .sort((a, b) => b.price - a.price);
+
+  const discounts: Record<string, number> = {};
+  const groupSize = buy + get;
+  for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+    for (const unit of units.slice(start + buy, start + groupSize)) {
+      discounts[unit.lineId] = (discounts[unit.lineId] ?? 0) + unit.price;
+    }
+  }
+  return discounts;
+};
+
+/**
+ * 장바구니에 프로모션을 순서대로 적용
+ * 앞선 할인으로 줄어든 라인 금액을 기준으로 다음 프로모션을 계산하므로 결제 금액이 음수가 되지 않음
+ */
+export const evaluatePromotions = (
+  items: CartItem[],
+  promotions: Promotion[],
+  now: Date
+): CartPricing => {
+  const subtotal = calculateTotalPrice(items);
+  const remaining = new Map(
+    items.map((item) => [item.lineId, getUnitPrice(item) * item.quantity])
+  );
+  const discounts: AppliedDiscount[] = [];
+
+  for (const promotion of promotions) {
+    if (!isScheduleActive(promotion.schedule, now)) continue;
+    const targetItems = items.filter(
+      (item) =>
+        matchesTarget(item, promotion.target) &&
+        (remaining.get(item.lineId) ?? 0) > 0
+    );
+    const lines = targetItems.map((item) => ({
+      lineId: item.lineId,
+      amount: remaining.get(item.lineId) ?? 0,
+    }));
+    const base = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (base <= 0 || base < (promotion.minAmount ?? 0)) continue;
+
+    let lineAmounts: Record<string, number> = {};
+    switch (promotion.type) {
+      case "percent":
+        lineAmounts = allocate(
+          Math.floor((base * Math.min(promotion.value ?? 0, 100)) / 100),
+          lines
+        );
+        break;
+      case "fixed":
+        lineAmounts = allocate(Math.min(promotion.value ?? 0, base), lines);
+        break;
+      case "buyXGetY":
+        lineAmounts = allocateFreeUnits(promotion, targetItems);
+        break;
+    }
+
+    let amount = 0;
+    for (const [lineId, value] of Object.entries(lineAmounts)) {
+      const left = remaining.get(lineId) ?? 0;
+      const applied = Math.min(Math.max(value, 0), left);
+      remaining.set(lineId, left - applied);
+      amount += applied;
+    }
+    if (amount > 0) {
+      discounts.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        names: promotion.names,
+        amount,
+      });
+    }
+  }
+
+  const lineDiscounts = Object.fromEntries(
+    items.map((item) => [
+      item.lineId,
+      getUnitPrice(item) * item.quantity - (remaining.get(item.lineId) ?? 0),
+    ])
+  );
+  const discountTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
+
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    total: subtotal - discountTotal,
+    lineDiscounts,
+  };
+};
@@ -0,0 +1,69 @@
+import type { CartItem, TaxBreakdown, TaxLine } from "../types";
+import { getUnitPrice } from "./cart";
+
+export const VAT_RATE = 0.1;
+
+/**
+ * 부가세 포함 금액에서 공급가액과 부가세를 역산
+ * 공급가액 = 금액 / 1.1 (원 단위 반올림), 부가세 = 금액 - 공급가액
+ */
+export const splitVatInclusive = (amount: number) => {
+  const supplyPrice = Math.round(amount / (1 + VAT_RATE));
+  return { supplyPrice, vat: amount - supplyPrice };
+};
+
+/**
+ * 주문 전체와 라인별 부가세 내역
+ * 부가세는 과세 합계 기준으로 한 번만 반올림하고, 라인별 금액은
+ * 그 합이 주문 부가세와 정확히 일치하도록 나머지를 큰 순서로 배분
+ * 할인이 있으면 라인 금액에서 할인액을 뺀 실제 결제 금액 기준으로 계산
+ */
+export const calculateTaxBreakdown = (
+  items: CartItem[],
+  lineDiscounts: Record<string, number> = {}
+): TaxBreakdown => {
+  const totals = items.map((item) => ({
+    lineId: item.lineId,
+    total: getUnitPrice(item) * item.quantity - (lineDiscounts[item.lineId] ?? 0),
+    taxExempt: Boolean(item.taxExempt),
+  }));
+
+  const taxable = totals.filter((line) => !line.taxExempt);
+  const taxableTotal = taxable.reduce((sum, line) => sum + line.total, 0);
+  const exemptTotal = totals
+    .filter((line) => line.taxExempt)
+    .reduce((sum, line) => sum + line.total, 0);
+  const { supplyPrice, vat } = splitVatInclusive(taxableTotal);
+
+  // 라인별 부가세: 비율대로 내림한 뒤 남은 원 단위를 소수부가 큰 라인부터 1원씩 배분
+  const raw = taxable.map((line) =>
+    taxableTotal > 0 ? (vat * line.total) / taxableTotal : 0
+  );
+  const allocated = raw.map(Math.floor);
+  let remainder = vat - allocated.reduce((sum, value) => sum + value, 0);
+  raw
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (remainder <= 0) return;
+      allocated[index] += 1;
+      remainder -= 1;
+    });
+
+  const lineVat = new Map(
+    taxable.map((line, index) => [line.lineId, allocated[index]])
+  );
+  const lines: TaxLine[] = totals.map((line) => {
+    const lvat = line.taxExempt ? 0 : lineVat.get(line.lineId) ?? 0;
+    return { ...line, vat: lvat, supplyPrice: line.total - lvat };
+  });
+
+  return {
+    lines,
+    total: taxableTotal + exemptTotal,
+    taxableTotal,
+    exemptTotal,
+    supplyPrice,
+    vat,
+  };
+};
@@ -1,12 +1,80 @@
-import { defineConfig, loadEnv } from "vite";
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
+// 서명하려고 미리 읽어 둔 요청 본문
+type BufferedRequest = IncomingMessage & { rawBody?: Buffer };
+
+interface KioskCredential {
+  kioskId: string;
+  keyId: string;
+  secret: string;
+}
+
+/**
+ * 개발용 키오스크 서명 (Lambda 의 kiosk-auth.mjs 와 같은 형식)
+ * 서명은 /api/ 부터의 경로로 계산하므로 /lambda 접두사나 대상 주소의 경로와 무관
+ */
+const signKioskRequest = (
+  credential: KioskCredential,
+  method: string,
+  path: string,
+  body: Buffer
+) => {
+  const apiIndex = path.indexOf("/api/");
+  const target = apiIndex >= 0 ? path.slice(apiIndex) : path;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = randomBytes(16).toString("base64url");
+  const canonical = [
+    method.toUpperCase(),
+    target,
+    timestamp,
+    nonce,
+    createHash("sha256").update(body).digest("hex"),
+  ].join("\n");
+  return {
+    "x-kiosk-id": credential.kioskId,
+    "x-kiosk-key-id": credential.keyId,
+    "x-kiosk-timestamp": timestamp,
+    "x-kiosk-nonce": nonce,
+    "x-kiosk-signature": createHmac("sha256", credential.secret)
+      .update(canonical)
+      .digest("base64url"),
+  };
+};
+
+// 프록시가 본문을 그대로 흘려보내기 전에 서명할 수 있도록 /lambda 요청 본문을 먼저 읽어 둠
+const bufferLambdaBody = (): Plugin => ({
+  name: "buffer-lambda-body",
+  configureServer(server) {
+    server.middlewares.use("/lambda", (req, _res, next) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        (req as BufferedRequest).rawBody = Buffer.concat(chunks);
+        next();
+      });
+    });
+  },
+});
+
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), "");
+  // 키오스크 키는 VITE_ 접두사 없이 읽어 번들에 들어가지 않도록 함
+  const credential: KioskCredential | null =
+    env.LAMBDA_KIOSK_KEY_ID && env.LAMBDA_KIOSK_SECRET
+      ? {
+          kioskId: env.LAMBDA_KIOSK_ID || env.VITE_KIOSK_ID || "kiosk-01",
+          keyId: env.LAMBDA_KIOSK_KEY_ID,
+          secret: env.LAMBDA_KIOSK_SECRET,
+        }
+      : null;
+
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), bufferLambdaBody()],
     server: {
       proxy: {
         "/api": {
@@ -21,12 +89,38 @@ export default defineConfig(({ mode }) => {
           changeOrigin: true,
           rewrite: (path) => path.replace(/^\/lambda/, ""),
           secure: true,
-          configure: (proxy, _options) => {
-            proxy.on("proxyReq", (proxyReq, _req, _res) => {
-              // Lambda API 키를 헤더에 추가
-              const apiKey = env.VITE_LAMBDA_API_KEY;
-              if (apiKey) {
-                proxyReq.setHeader("x-api-key", apiKey);
+          // 세션 상태 푸시 (로컬 Lambda 서버의 /ws)
+          ws: true,
+          configure: (proxy) => {
+            proxy.on("proxyReq", (proxyReq, req) => {
+              const body = (req as BufferedRequest).rawBody ?? Buffer.alloc(0);
+              if (credential) {
+                const headers = signKioskRequest(
+                  credential,
+                  req.method ?? "GET",
+                  proxyReq.path,
+                  body
+                );
+                for (const [name, value] of Object.entries(headers)) {
+                  proxyReq.setHeader(name, value);
+                }
+              }
+              // 미리 읽어 둔 본문을 대신 전달 (원래 스트림은 이미 끝났으므로 프록시가 바로 종료)
+              if (body.length > 0) {
+                proxyReq.setHeader("Content-Length", body.length);
+                proxyReq.write(body);
+              }
+            });
+            proxy.on("proxyReqWs", (proxyReq) => {
+              if (!credential) return;
+              // WebSocket 은 세션 ID 만 서명 (Lambda 의 ensureKioskSocket 과 같은 대상)
+              const url = new URL(proxyReq.path, "http://localhost");
+              const target = `/ws?${new URLSearchParams({
+                sessionId: url.searchParams.get("sessionId") ?? "",
+              })}`;
+              const headers = signKioskRequest(credential, "GET", target, Buffer.alloc(0));
+              for (const [name, value] of Object.entries(headers)) {
+                proxyReq.setHeader(name, value);
               }
             });
           },